@@ -5,23 +5,35 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/home";
 import { SettingsPage } from "@/pages/settings";
+import { PadPage } from "@/pages/pad";
 import NotFound from "@/pages/not-found";
+import { useLiveEvents } from "@/hooks/use-live-events";
+import { useBindings } from "@/hooks/use-bindings";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/settings" component={SettingsPage} />
+      <Route path="/pad" component={PadPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+// App-wide listeners: live sync with other tabs, and keyboard/MIDI bindings
+function BackgroundListeners() {
+  useLiveEvents();
+  useBindings();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
+        <BackgroundListeners />
         <Router />
       </TooltipProvider>
     </QueryClientProvider>
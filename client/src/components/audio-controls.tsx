@@ -1,23 +1,101 @@
 import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Volume2, Mic, VolumeX, MicOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Volume2, Mic, VolumeX, MicOff, Gauge, RefreshCw, Speaker, Layers, Timer, Radio } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useRemoteSpeaker } from '@/hooks/use-live-events';
+import { apiRequest } from '@/lib/queryClient';
+import { getOutputDeviceId, listOutputDevices, setMasterVolume as setEngineMasterVolume, setOutputDevice } from '@/lib/audio-engine';
+import { reanalyzeSoundClips } from '@/lib/loudness-analysis';
+import { DEFAULT_LOUDNESS_TARGET } from '@shared/loudness';
+import type { Settings } from '@shared/schema';
 
 export function AudioControls() {
   const [masterVolume, setMasterVolume] = useState([80]);
   const [micSensitivity, setMicSensitivity] = useState([100]);
+  const [loudnessTarget, setLoudnessTarget] = useState([DEFAULT_LOUDNESS_TARGET]);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [maxVoices, setMaxVoices] = useState([4]);
+  const [rateLimitMaxSounds, setRateLimitMaxSounds] = useState(0);
+  const [rateLimitWindowSeconds, setRateLimitWindowSeconds] = useState(10);
+  const [outputDevices, setOutputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [outputDeviceId, setOutputDeviceId] = useState(getOutputDeviceId);
+  const remoteSpeaker = useRemoteSpeaker();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ['/api/settings'],
+  });
 
-  // Apply master volume to all audio elements
   useEffect(() => {
-    const audioElements = document.querySelectorAll('audio');
-    audioElements.forEach(audio => {
-      audio.volume = masterVolume[0] / 100;
-    });
-  }, [masterVolume]);
+    if (settings) {
+      setLoudnessTarget([settings.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET]);
+      setMasterVolume([Math.round((settings.masterVolume ?? 0.8) * 100)]);
+      setMaxVoices([settings.maxVoices ?? 4]);
+      setRateLimitMaxSounds(settings.rateLimitMaxSounds ?? 0);
+      setRateLimitWindowSeconds(settings.rateLimitWindowSeconds ?? 10);
+    }
+  }, [settings]);
+
+  // Changing normalization settings makes the server recompute every clip's gain
+  const updateSettingsMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<Settings, 'loudnessNormalization' | 'loudnessTarget' | 'masterVolume' | 'maxVoices' | 'rateLimitMaxSounds' | 'rateLimitWindowSeconds'>>) => {
+      const response = await apiRequest('/api/settings', {
+        method: 'PATCH',
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update audio settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    try {
+      const count = await reanalyzeSoundClips();
+      queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] });
+      toast({
+        title: "Loudness analyzed",
+        description: `Measured ${count} sound clip${count === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to analyze sound clips",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  // Output devices only get labels once the page has microphone permission, so refresh on change
+  useEffect(() => {
+    const refreshDevices = () => {
+      listOutputDevices().then(setOutputDevices).catch(() => setOutputDevices([]));
+    };
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, []);
 
   // Store sensitivity in localStorage for use by voice recognition
   useEffect(() => {
@@ -26,6 +104,7 @@ export function AudioControls() {
 
   const handleVolumeChange = (value: number[]) => {
     setMasterVolume(value);
+    setEngineMasterVolume(value[0] / 100);
     if (value[0] === 0) {
       toast({
         title: "Volume Muted",
@@ -34,6 +113,20 @@ export function AudioControls() {
     }
   };
 
+  const handleOutputDeviceChange = async (value: string) => {
+    const deviceId = value === 'default' ? '' : value;
+    try {
+      await setOutputDevice(deviceId);
+      setOutputDeviceId(deviceId);
+    } catch (error) {
+      toast({
+        title: "Output device unavailable",
+        description: error instanceof Error ? error.message : "Could not switch audio output",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSensitivityChange = (value: number[]) => {
     setMicSensitivity(value);
     if (value[0] === 100) {
@@ -69,6 +162,7 @@ export function AudioControls() {
           <Slider
             value={masterVolume}
             onValueChange={handleVolumeChange}
+            onValueCommit={(value) => updateSettingsMutation.mutate({ masterVolume: value[0] / 100 })}
             max={100}
             min={0}
             step={5}
@@ -79,6 +173,119 @@ export function AudioControls() {
           </p>
         </div>
 
+        {/* Max Voices */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center space-x-2">
+              <Layers className="h-4 w-4" />
+              <span>Simultaneous Sounds</span>
+            </Label>
+            <Badge variant="secondary">{maxVoices[0]}</Badge>
+          </div>
+          <Slider
+            value={maxVoices}
+            onValueChange={setMaxVoices}
+            onValueCommit={(value) => updateSettingsMutation.mutate({ maxVoices: value[0] })}
+            max={16}
+            min={1}
+            step={1}
+            className="w-full"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            When more sounds overlap than this, the oldest one is cut off
+          </p>
+        </div>
+
+        {/* Rate Limit */}
+        <div className="space-y-3">
+          <Label className="flex items-center space-x-2">
+            <Timer className="h-4 w-4" />
+            <span>Rate Limit</span>
+          </Label>
+          <div className="flex items-center space-x-2 text-sm">
+            <span>At most</span>
+            <Input
+              type="number"
+              min={0}
+              value={rateLimitMaxSounds}
+              onChange={(e) => setRateLimitMaxSounds(Math.max(0, parseInt(e.target.value) || 0))}
+              onBlur={() => updateSettingsMutation.mutate({ rateLimitMaxSounds })}
+              className="w-20"
+            />
+            <span>sounds per</span>
+            <Input
+              type="number"
+              min={1}
+              value={rateLimitWindowSeconds}
+              onChange={(e) => setRateLimitWindowSeconds(Math.max(1, parseInt(e.target.value) || 1))}
+              onBlur={() => updateSettingsMutation.mutate({ rateLimitWindowSeconds })}
+              className="w-20"
+            />
+            <span>seconds</span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Applies to triggered sounds and default responses on every client. 0 turns the limit off.
+          </p>
+        </div>
+
+        {/* Output Device */}
+        <div className="space-y-3">
+          <Label className="flex items-center space-x-2">
+            <Speaker className="h-4 w-4" />
+            <span>Output Device</span>
+          </Label>
+          <Select value={outputDeviceId || 'default'} onValueChange={handleOutputDeviceChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">System default</SelectItem>
+              {outputDevices.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Output ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Route clips to a virtual cable to feed them into calls or streams
+          </p>
+        </div>
+
+        {/* Remote Speaker */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="remoteSpeaker" className="flex items-center space-x-2">
+              <Radio className="h-4 w-4" />
+              <span>Remote Speaker</span>
+            </Label>
+            <div className="flex items-center space-x-2">
+              <Badge variant={remoteSpeaker.connection === 'open' ? 'default' : 'secondary'}>
+                {remoteSpeaker.connection === 'open' ? 'Connected' : remoteSpeaker.connection === 'connecting' ? 'Connecting' : 'Offline'}
+              </Badge>
+              <Switch
+                id="remoteSpeaker"
+                checked={remoteSpeaker.enabled}
+                onCheckedChange={remoteSpeaker.setEnabled}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Play every clip fired on another device or tab, so this device can be the speaker while another one listens
+          </p>
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="whitespace-nowrap">Device name</span>
+            <Input
+              defaultValue={remoteSpeaker.deviceName}
+              onBlur={(e) => remoteSpeaker.setDeviceName(e.target.value)}
+              placeholder="Living room laptop"
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Shown on the pad (/pad) when choosing which device plays tapped clips
+          </p>
+        </div>
+
         {/* Microphone Sensitivity */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -109,6 +316,44 @@ export function AudioControls() {
             }
           </p>
         </div>
+
+        {/* Loudness Normalization */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="loudnessNormalization" className="flex items-center space-x-2">
+              <Gauge className="h-4 w-4" />
+              <span>Loudness Normalization</span>
+            </Label>
+            <Switch
+              id="loudnessNormalization"
+              checked={settings?.loudnessNormalization ?? true}
+              onCheckedChange={(checked) => updateSettingsMutation.mutate({ loudnessNormalization: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Target level</span>
+            <Badge variant="secondary">{loudnessTarget[0]} LUFS</Badge>
+          </div>
+          <Slider
+            value={loudnessTarget}
+            onValueChange={setLoudnessTarget}
+            onValueCommit={(value) => updateSettingsMutation.mutate({ loudnessTarget: value[0] })}
+            max={-6}
+            min={-30}
+            step={1}
+            disabled={settings?.loudnessNormalization === false}
+            className="w-full"
+          />
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Plays every clip at the same perceived level
+            </p>
+            <Button variant="outline" size="sm" onClick={handleReanalyze} disabled={isReanalyzing}>
+              <RefreshCw className={`h-3 w-3 mr-1 ${isReanalyzing ? 'animate-spin' : ''}`} />
+              {isReanalyzing ? 'Analyzing...' : 'Re-analyze'}
+            </Button>
+          </div>
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,251 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Keyboard, Piano, Plus, Trash2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { getMidiState, learnNextInput, subscribeMidiState, type MidiState } from "@/lib/binding-input";
+import { useToast } from "@/hooks/use-toast";
+import { bindingInputLabels, bindingMatches, describeBinding, type BindingEvent } from "@shared/bindings";
+import type { Binding, BindingTarget, InsertBinding, SoundClip, TriggerWord } from "@shared/schema";
+
+const midiStateLabels: Record<MidiState, string> = {
+  unsupported: "MIDI not supported in this browser",
+  off: "MIDI starts with the first MIDI binding",
+  requesting: "Requesting MIDI access...",
+  on: "MIDI connected",
+  denied: "MIDI access denied",
+};
+
+// Select values encode the target as "clip:3" or "trigger:7"
+function targetValue(targetType: BindingTarget, targetId: number): string {
+  return `${targetType}:${targetId}`;
+}
+
+function parseTargetValue(value: string): { targetType: BindingTarget; targetId: number } {
+  const [targetType, targetId] = value.split(":");
+  return { targetType: targetType as BindingTarget, targetId: parseInt(targetId, 10) };
+}
+
+function bindingFromEvent(event: BindingEvent, anyChannel: boolean): Pick<Binding, "input" | "shortcut" | "midiChannel" | "midiNumber"> {
+  if (event.input === "keyboard") {
+    return { input: "keyboard", shortcut: event.shortcut, midiChannel: null, midiNumber: null };
+  }
+  return { input: event.input, shortcut: null, midiChannel: anyChannel ? null : event.midiChannel, midiNumber: event.midiNumber };
+}
+
+export function BindingsManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const midiState = useSyncExternalStore(subscribeMidiState, getMidiState);
+  const [newTarget, setNewTarget] = useState("");
+  const [anyChannel, setAnyChannel] = useState(false);
+  // "new" while learning an input for the new binding, or the id of the binding being relearned
+  const [learning, setLearning] = useState<"new" | number | null>(null);
+
+  const { data: bindings = [] } = useQuery<Binding[]>({
+    queryKey: ["/api/bindings"],
+  });
+
+  const { data: soundClips = [] } = useQuery<SoundClip[]>({
+    queryKey: ["/api/sound-clips"],
+  });
+
+  const { data: triggerWords = [] } = useQuery<TriggerWord[]>({
+    queryKey: ["/api/trigger-words"],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message?.replace(/^\d+: /, "") || "Failed to save binding",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertBinding) => {
+      const response = await apiRequest("/api/bindings", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bindings"] });
+      setNewTarget("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<InsertBinding> & { id: number }) => {
+      const response = await apiRequest(`/api/bindings/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bindings"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/bindings/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bindings"] });
+    },
+    onError,
+  });
+
+  const targetName = (binding: Pick<Binding, "targetType" | "targetId">) => {
+    if (binding.targetType === "clip") {
+      return soundClips.find(clip => clip.id === binding.targetId)?.name ?? "Missing clip";
+    }
+    const phrase = triggerWords.find(trigger => trigger.id === binding.targetId)?.phrase;
+    return phrase ? `"${phrase}"` : "Missing trigger";
+  };
+
+  // Listen for the next key press or MIDI control while learning
+  useEffect(() => {
+    if (learning === null) return;
+    return learnNextInput((event) => {
+      setLearning(null);
+      if (!event) return;
+      const input = bindingFromEvent(event, anyChannel);
+      const duplicate = bindings.find(binding => binding.id !== learning && bindingMatches({ ...binding, enabled: true }, event));
+      if (duplicate) {
+        toast({
+          title: "Already bound",
+          description: `${describeBinding(input)} also fires ${targetName(duplicate)}`,
+        });
+      }
+      if (learning === "new") {
+        createMutation.mutate({ ...input, ...parseTargetValue(newTarget), enabled: true });
+      } else {
+        updateMutation.mutate({ id: learning, ...input });
+      }
+    });
+  }, [learning]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          Fire clips and triggers from keyboard shortcuts or MIDI pads, knobs and buttons.
+          Shortcuts are ignored while typing in a text field.
+        </p>
+        <Badge variant={midiState === "on" ? "default" : "secondary"} className="flex items-center gap-1 whitespace-nowrap">
+          <Piano className="h-3 w-3" />
+          {midiStateLabels[midiState]}
+        </Badge>
+      </div>
+
+      {/* New binding */}
+      <div className="space-y-3 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+        <Label>New binding</Label>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={newTarget} onValueChange={setNewTarget}>
+            <SelectTrigger className="sm:flex-1">
+              <SelectValue placeholder="Choose a clip or trigger" />
+            </SelectTrigger>
+            <SelectContent>
+              {soundClips.map(clip => (
+                <SelectItem key={`clip-${clip.id}`} value={targetValue("clip", clip.id)}>
+                  Clip: {clip.name}
+                </SelectItem>
+              ))}
+              {triggerWords.map(trigger => (
+                <SelectItem key={`trigger-${trigger.id}`} value={targetValue("trigger", trigger.id)}>
+                  Trigger: "{trigger.phrase}"
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {learning === "new" ? (
+            <Button variant="outline" onClick={() => setLearning(null)}>
+              <X className="h-4 w-4 mr-2" />
+              Press a key or MIDI control... (Esc to cancel)
+            </Button>
+          ) : (
+            <Button disabled={!newTarget || learning !== null} onClick={() => setLearning("new")}>
+              <Plus className="h-4 w-4 mr-2" />
+              Learn input
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="bindingAnyChannel"
+            checked={anyChannel}
+            onCheckedChange={(checked) => setAnyChannel(checked === true)}
+          />
+          <Label htmlFor="bindingAnyChannel" className="text-sm font-normal">
+            MIDI bindings listen on every channel
+          </Label>
+        </div>
+      </div>
+
+      {/* Existing bindings */}
+      {bindings.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+          No bindings yet.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {bindings.map(binding => (
+            <div
+              key={binding.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                {binding.input === "keyboard" ? (
+                  <Keyboard className="h-4 w-4 flex-shrink-0" />
+                ) : (
+                  <Piano className="h-4 w-4 flex-shrink-0" />
+                )}
+                <Badge variant="outline" className="font-mono" title={bindingInputLabels[binding.input]}>
+                  {describeBinding(binding)}
+                </Badge>
+                <span className="text-sm truncate">
+                  {binding.targetType === "clip" ? "Plays " : "Fires trigger "}
+                  <strong>{targetName(binding)}</strong>
+                </span>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={learning !== null && learning !== binding.id}
+                  onClick={() => setLearning(learning === binding.id ? null : binding.id)}
+                >
+                  {learning === binding.id ? "Press an input..." : "Relearn"}
+                </Button>
+                <Switch
+                  checked={binding.enabled}
+                  onCheckedChange={(enabled) => updateMutation.mutate({ id: binding.id, enabled })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(binding.id)}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import React, { useState, useRef, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Scissors, Play, Square, RotateCcw, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { loadAudioBuffer, playBuffer } from "@/lib/audio-engine";
+import { useToast } from "@/hooks/use-toast";
+import type { SoundClip, OverlapPolicy } from "@shared/schema";
+import { MIN_GAIN_DB, MAX_GAIN_DB, dbToGain, hasClipEdits, validateClipEdits } from "@shared/clip-edits";
+
+const WAVEFORM_WIDTH = 560;
+const WAVEFORM_HEIGHT = 120;
+
+const overlapPolicyLabels: Record<OverlapPolicy | "inherit", string> = {
+  "inherit": "Use the trigger's setting",
+  "interrupt": "Stop other sounds",
+  "layer": "Play on top",
+  "queue": "Wait for other sounds",
+  "ignore-if-playing": "Skip if something is playing",
+};
+
+interface EditState {
+  trimStart: number;
+  trimEnd: number | null;
+  fadeIn: number;
+  fadeOut: number;
+  gainDb: number;
+  overlapPolicy: OverlapPolicy | null;
+  cooldownMs: number;
+}
+
+function editsFromClip(clip: SoundClip): EditState {
+  return {
+    trimStart: clip.trimStart ?? 0,
+    trimEnd: clip.trimEnd ?? null,
+    fadeIn: clip.fadeIn ?? 0,
+    fadeOut: clip.fadeOut ?? 0,
+    gainDb: clip.gainDb ?? 0,
+    overlapPolicy: clip.overlapPolicy ?? null,
+    cooldownMs: clip.cooldownMs ?? 0,
+  };
+}
+
+// Peak amplitude per horizontal pixel, mixed across channels
+function computePeaks(buffer: AudioBuffer, buckets: number): number[] {
+  const samplesPerBucket = Math.max(1, Math.floor(buffer.length / buckets));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    let peak = 0;
+    const start = bucket * samplesPerBucket;
+    const end = Math.min(start + samplesPerBucket, buffer.length);
+    for (const data of channels) {
+      for (let i = start; i < end; i++) {
+        const value = Math.abs(data[i]);
+        if (value > peak) peak = value;
+      }
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+export function ClipEditorDialog({ clip }: { clip: SoundClip }) {
+  const [open, setOpen] = useState(false);
+  const [edits, setEdits] = useState<EditState>(() => editsFromClip(clip));
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<AudioBufferSourceNode | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const duration = buffer?.duration || clip.duration || 0;
+  const trimEnd = edits.trimEnd ?? duration;
+
+  // Load and decode the clip whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setEdits(editsFromClip(clip));
+    let cancelled = false;
+    loadAudioBuffer(clip.url)
+      .then((decoded) => {
+        if (cancelled) return;
+        setBuffer(decoded);
+        setPeaks(computePeaks(decoded, WAVEFORM_WIDTH));
+      })
+      .catch((error) => {
+        console.error("Failed to load clip for editing:", error);
+        toast({
+          title: "Error",
+          description: "Could not load the audio for this clip",
+          variant: "destructive",
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, clip.url]);
+
+  // Stop any preview when the dialog closes
+  useEffect(() => {
+    if (!open) stopPreview();
+  }, [open]);
+
+  // Redraw the waveform with the trim region, fade ramps and gain applied
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || peaks.length === 0 || duration <= 0) return;
+
+    context.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+    const middle = WAVEFORM_HEIGHT / 2;
+    const gain = dbToGain(edits.gainDb);
+    const startX = (edits.trimStart / duration) * WAVEFORM_WIDTH;
+    const endX = (trimEnd / duration) * WAVEFORM_WIDTH;
+    const fadeInEndX = ((edits.trimStart + edits.fadeIn) / duration) * WAVEFORM_WIDTH;
+    const fadeOutStartX = ((trimEnd - edits.fadeOut) / duration) * WAVEFORM_WIDTH;
+
+    peaks.forEach((peak, x) => {
+      const inside = x >= startX && x <= endX;
+      let envelope = inside ? gain : 1;
+      if (inside && x < fadeInEndX) envelope *= (x - startX) / Math.max(1, fadeInEndX - startX);
+      if (inside && x > fadeOutStartX) envelope *= (endX - x) / Math.max(1, endX - fadeOutStartX);
+
+      const height = Math.min(1, peak * envelope) * middle;
+      context.fillStyle = inside ? (peak * envelope > 1 ? "#ef4444" : "#f97316") : "#d1d5db";
+      context.fillRect(x, middle - height, 1, Math.max(1, height * 2));
+    });
+
+    // Trim handles
+    context.fillStyle = "#1f2937";
+    context.fillRect(startX - 1, 0, 2, WAVEFORM_HEIGHT);
+    context.fillRect(endX - 1, 0, 2, WAVEFORM_HEIGHT);
+  }, [peaks, edits, duration, trimEnd]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: EditState) => {
+      const response = await apiRequest(`/api/sound-clips/${clip.id}`, {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sound-clips"] });
+      setOpen(false);
+      toast({
+        title: "Success",
+        description: "Clip edits saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save clip edits",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateEdit = (field: Exclude<keyof EditState, "overlapPolicy">, value: number | null) => {
+    setEdits(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Clicking the waveform moves whichever trim handle is closer
+  const handleWaveformClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (duration <= 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const time = Math.round(((event.clientX - rect.left) / rect.width) * duration * 100) / 100;
+    if (Math.abs(time - edits.trimStart) <= Math.abs(time - trimEnd)) {
+      updateEdit("trimStart", Math.min(time, trimEnd - 0.01));
+    } else {
+      updateEdit("trimEnd", time >= duration ? null : Math.max(time, edits.trimStart + 0.01));
+    }
+  };
+
+  const stopPreview = () => {
+    if (previewRef.current) {
+      previewRef.current.onended = null;
+      previewRef.current.stop();
+      previewRef.current = null;
+    }
+    setIsPreviewing(false);
+  };
+
+  const startPreview = () => {
+    if (!buffer) return;
+    stopPreview();
+    const source = playBuffer(buffer, { ...edits, normalizationGainDb: clip.normalizationGainDb });
+    source.onended = () => {
+      previewRef.current = null;
+      setIsPreviewing(false);
+    };
+    previewRef.current = source;
+    setIsPreviewing(true);
+  };
+
+  const handleSave = () => {
+    const error = validateClipEdits(edits, duration);
+    if (error) {
+      toast({
+        title: "Invalid edits",
+        description: error,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(edits);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={hasClipEdits(clip) ? "text-orange-500 hover:text-orange-700" : "text-gray-500 hover:text-gray-700"}
+          title="Edit clip"
+        >
+          <Scissors className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit "{clip.name}"</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <canvas
+              ref={canvasRef}
+              width={WAVEFORM_WIDTH}
+              height={WAVEFORM_HEIGHT}
+              onClick={handleWaveformClick}
+              className="w-full h-28 bg-gray-50 dark:bg-gray-800 rounded border border-gray-200 dark:border-gray-600 cursor-crosshair"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {buffer ? "Click the waveform to move the nearest trim point." : "Loading waveform..."}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`trimStart-${clip.id}`}>Start (s)</Label>
+              <Input
+                id={`trimStart-${clip.id}`}
+                type="number"
+                min={0}
+                step={0.01}
+                value={edits.trimStart}
+                onChange={(e) => updateEdit("trimStart", Math.max(0, parseFloat(e.target.value) || 0))}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`trimEnd-${clip.id}`}>End (s)</Label>
+              <Input
+                id={`trimEnd-${clip.id}`}
+                type="number"
+                min={0}
+                step={0.01}
+                value={Math.round(trimEnd * 100) / 100}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  updateEdit("trimEnd", isNaN(value) || value >= duration ? null : value);
+                }}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`fadeIn-${clip.id}`}>Fade in (s)</Label>
+              <Input
+                id={`fadeIn-${clip.id}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={edits.fadeIn}
+                onChange={(e) => updateEdit("fadeIn", Math.max(0, parseFloat(e.target.value) || 0))}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`fadeOut-${clip.id}`}>Fade out (s)</Label>
+              <Input
+                id={`fadeOut-${clip.id}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={edits.fadeOut}
+                onChange={(e) => updateEdit("fadeOut", Math.max(0, parseFloat(e.target.value) || 0))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Gain: {edits.gainDb > 0 ? "+" : ""}{edits.gainDb.toFixed(1)} dB</Label>
+            <Slider
+              className="mt-2"
+              min={MIN_GAIN_DB}
+              max={MAX_GAIN_DB}
+              step={0.5}
+              value={[edits.gainDb]}
+              onValueChange={([value]) => updateEdit("gainDb", value)}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor={`overlapPolicy-${clip.id}`}>When other sounds are playing</Label>
+            <Select
+              value={edits.overlapPolicy ?? "inherit"}
+              onValueChange={(value) => setEdits(prev => ({ ...prev, overlapPolicy: value === "inherit" ? null : value as OverlapPolicy }))}
+            >
+              <SelectTrigger id={`overlapPolicy-${clip.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(overlapPolicyLabels) as Array<OverlapPolicy | "inherit">).map((policy) => (
+                  <SelectItem key={policy} value={policy}>
+                    {overlapPolicyLabels[policy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor={`cooldown-${clip.id}`}>Cooldown (s)</Label>
+            <Input
+              id={`cooldown-${clip.id}`}
+              type="number"
+              min={0}
+              step={0.5}
+              value={edits.cooldownMs / 1000}
+              onChange={(e) => updateEdit("cooldownMs", Math.max(0, Math.round((parseFloat(e.target.value) || 0) * 1000)))}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Triggers skip this clip until it has been quiet this long
+            </p>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Edits are applied at playback; the original file is left untouched.
+            {clip.normalizationGainDb ? ` Loudness normalization adds ${clip.normalizationGainDb > 0 ? "+" : ""}${clip.normalizationGainDb.toFixed(1)} dB.` : ""}
+            Playing {Math.max(0, trimEnd - edits.trimStart).toFixed(2)}s of {duration.toFixed(2)}s.
+          </p>
+
+          <div className="flex justify-between">
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={isPreviewing ? stopPreview : startPreview} disabled={!buffer}>
+                {isPreviewing ? <Square className="h-4 w-4 mr-2" /> : <Play className="h-4 w-4 mr-2" />}
+                {isPreviewing ? "Stop" : "Preview"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setEdits(prev => ({ ...prev, trimStart: 0, trimEnd: null, fadeIn: 0, fadeOut: 0, gainDb: 0 }))}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+            </div>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
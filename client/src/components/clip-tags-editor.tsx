@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Tag, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { normalizeTags } from "@shared/clip-library";
+import type { SoundClip } from "@shared/schema";
+
+// Add and remove a clip's tags; every change is saved straight away
+export function ClipTagsEditor({ clip, allTags }: { clip: SoundClip; allTags: string[] }) {
+  const [newTag, setNewTag] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const tags = clip.tags ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async (nextTags: string[]) => {
+      const response = await apiRequest(`/api/sound-clips/${clip.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ tags: nextTags }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sound-clips"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save tags",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addTags = () => {
+    // Commas add several at once
+    const nextTags = normalizeTags([...tags, ...newTag.split(",")]);
+    setNewTag("");
+    if (nextTags.length !== tags.length) {
+      saveMutation.mutate(nextTags);
+    }
+  };
+
+  const suggestions = allTags.filter(tag => !tags.includes(tag));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={tags.length > 0 ? "text-purple-500 hover:text-purple-700" : "text-gray-500 hover:text-gray-700"}
+          title="Edit tags"
+        >
+          <Tag className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="space-y-3">
+        <p className="text-sm font-medium">Tags for "{clip.name}"</p>
+        <div className="flex flex-wrap gap-1">
+          {tags.length === 0 && <span className="text-xs text-gray-500">No tags yet</span>}
+          {tags.map(tag => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+              {tag}
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate(tags.filter(existing => existing !== tag))}
+                className="hover:text-red-500"
+                title="Remove tag"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addTags();
+            }}
+            placeholder="Add tags, comma separated"
+            list={`tag-suggestions-${clip.id}`}
+            className="h-8"
+          />
+          <datalist id={`tag-suggestions-${clip.id}`}>
+            {suggestions.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+          <Button size="sm" onClick={addTags} disabled={!newTag.trim() || saveMutation.isPending}>
+            Add
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -304,7 +304,7 @@ export default function ConversationRecorder() {
                   <div
                     key={recording.id}
                     className={`bg-gray-50 dark:bg-gray-700 rounded-lg p-4 border transition-all ${
-                      currentlyPlaying === recording.id
+                      currentlyPlaying.has(recording.id)
                         ? "border-orange-500 bg-orange-50 dark:bg-orange-900/20"
                         : "border-gray-200 dark:border-gray-600 hover:shadow-md"
                     }`}
@@ -314,7 +314,7 @@ export default function ConversationRecorder() {
                         <h4 className="font-medium text-gray-900 dark:text-white text-sm">
                           {recording.originalName}
                         </h4>
-                        {currentlyPlaying === recording.id && (
+                        {currentlyPlaying.has(recording.id) && (
                           <Badge variant="secondary" className="text-xs">
                             PLAYING
                           </Badge>
@@ -325,13 +325,13 @@ export default function ConversationRecorder() {
                           variant="ghost"
                           size="sm"
                           onClick={() => 
-                            currentlyPlaying === recording.id 
-                              ? stopSound() 
-                              : playSound(recording.url, recording.id, 0.75)
+                            currentlyPlaying.has(recording.id) 
+                              ? stopSound(recording.id) 
+                              : playSound(recording.url, recording.id, { volume: 0.75 })
                           }
                           className="text-primary hover:text-primary-dark"
                         >
-                          {currentlyPlaying === recording.id ? (
+                          {currentlyPlaying.has(recording.id) ? (
                             <Pause className="h-4 w-4" />
                           ) : (
                             <Play className="h-4 w-4" />
@@ -4,10 +4,18 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Save } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Settings, SoundClip } from "@shared/schema";
+import type { Settings, SoundClip, PlaybackOrder } from "@shared/schema";
+
+const playbackOrderLabels: Record<PlaybackOrder, string> = {
+  "sequential": "In order",
+  "random": "Random",
+  "shuffle-bag": "Shuffle (no repeats until all played)",
+  "weighted": "Weighted random",
+};
 
 export function DefaultResponseSettings() {
   const { toast } = useToast();
@@ -24,6 +32,8 @@ export function DefaultResponseSettings() {
   const [defaultResponseEnabled, setDefaultResponseEnabled] = useState(false);
   const [defaultResponseSoundClipIds, setDefaultResponseSoundClipIds] = useState<number[]>([]);
   const [defaultResponseDelay, setDefaultResponseDelay] = useState(2000);
+  const [defaultResponsePlaybackOrder, setDefaultResponsePlaybackOrder] = useState<PlaybackOrder>("sequential");
+  const [clipWeights, setClipWeights] = useState<Record<number, number>>({});
 
   // Update local state when settings data loads
   React.useEffect(() => {
@@ -31,20 +41,42 @@ export function DefaultResponseSettings() {
       setDefaultResponseEnabled(settings.defaultResponseEnabled || false);
       setDefaultResponseSoundClipIds(settings.defaultResponseSoundClipIds || []);
       setDefaultResponseDelay(settings.defaultResponseDelay || 2000);
+      setDefaultResponsePlaybackOrder(settings.defaultResponsePlaybackOrder || "sequential");
     }
   }, [settings]);
 
+  React.useEffect(() => {
+    setClipWeights(Object.fromEntries(soundClips.map(clip => [clip.id, clip.weight ?? 1])));
+  }, [soundClips]);
+
   const updateMutation = useMutation({
     mutationFn: async (data: {
       defaultResponseEnabled: boolean;
       defaultResponseSoundClipIds?: number[];
       defaultResponseDelay: number;
+      defaultResponsePlaybackOrder: PlaybackOrder;
     }) => {
-      const response = await apiRequest("PATCH", "/api/settings", data);
+      const response = await apiRequest("/api/settings", {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      });
+
+      // Save any clip weights that changed (only used by weighted playback order)
+      for (const clip of soundClips) {
+        const weight = clipWeights[clip.id];
+        if (weight !== undefined && weight !== (clip.weight ?? 1)) {
+          await apiRequest(`/api/sound-clips/${clip.id}`, {
+            method: "PATCH",
+            body: JSON.stringify({ weight }),
+          });
+        }
+      }
+
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sound-clips"] });
       toast({
         title: "Success",
         description: "Settings updated successfully",
@@ -64,6 +96,7 @@ export function DefaultResponseSettings() {
       defaultResponseEnabled,
       defaultResponseSoundClipIds: defaultResponseSoundClipIds.length > 0 ? defaultResponseSoundClipIds : undefined,
       defaultResponseDelay,
+      defaultResponsePlaybackOrder,
     };
     updateMutation.mutate(data);
   };
@@ -93,7 +126,26 @@ export function DefaultResponseSettings() {
         {defaultResponseEnabled && (
           <>
             <div>
-              <Label>Default Response Sounds (cycles through sequentially)</Label>
+              <Label htmlFor="defaultPlaybackOrder">Playback Order</Label>
+              <Select
+                value={defaultResponsePlaybackOrder}
+                onValueChange={(value) => setDefaultResponsePlaybackOrder(value as PlaybackOrder)}
+              >
+                <SelectTrigger id="defaultPlaybackOrder" className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(playbackOrderLabels) as PlaybackOrder[]).map((order) => (
+                    <SelectItem key={order} value={order}>
+                      {playbackOrderLabels[order]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Default Response Sounds</Label>
               <div className="space-y-2 mt-2 max-h-40 overflow-y-auto border rounded-md p-3">
                 {soundClips.length === 0 ? (
                   <p className="text-sm text-gray-500">No sound clips available. Upload some sounds first.</p>
@@ -105,16 +157,29 @@ export function DefaultResponseSettings() {
                         checked={defaultResponseSoundClipIds.includes(clip.id)}
                         onCheckedChange={() => toggleSoundClip(clip.id)}
                       />
-                      <Label htmlFor={`clip-${clip.id}`} className="text-sm font-normal cursor-pointer">
+                      <Label htmlFor={`clip-${clip.id}`} className="text-sm font-normal cursor-pointer flex-1">
                         {clip.name}
                       </Label>
+                      {defaultResponsePlaybackOrder === "weighted" && (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={clipWeights[clip.id] ?? 1}
+                          onChange={(e) => setClipWeights(prev => ({ ...prev, [clip.id]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                          className="w-20 h-8"
+                          title="Relative weight"
+                        />
+                      )}
                     </div>
                   ))
                 )}
               </div>
               {defaultResponseSoundClipIds.length > 0 && (
                 <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                  Selected {defaultResponseSoundClipIds.length} sound{defaultResponseSoundClipIds.length !== 1 ? 's' : ''}. They will play in the order shown above.
+                  Selected {defaultResponseSoundClipIds.length} sound{defaultResponseSoundClipIds.length !== 1 ? 's' : ''}.
+                  {defaultResponsePlaybackOrder === "sequential" && " They will play in the order shown above."}
+                  {defaultResponsePlaybackOrder === "weighted" && " Clips with a higher weight play more often."}
                 </p>
               )}
             </div>
@@ -132,7 +197,7 @@ export function DefaultResponseSettings() {
                 placeholder="2000"
               />
               <p className="text-sm text-gray-500 mt-1">
-                How long to wait after speech ends before playing default response
+                How long to wait after speech ends before playing default response. Speaking again during this window cancels it.
               </p>
             </div>
           </>
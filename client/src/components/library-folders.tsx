@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus, Inbox, Library, Pencil, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Category, InsertCategory, SoundClip } from "@shared/schema";
+
+// Clips are dragged onto folders with their id under this type
+export const CLIP_DRAG_TYPE = "application/x-sound-clip-id";
+
+// null shows every clip, "none" the clips in no folder
+export type FolderSelection = number | "none" | null;
+
+interface LibraryFoldersProps {
+  categories: Category[];
+  soundClips: SoundClip[];
+  selected: FolderSelection;
+  onSelect: (selection: FolderSelection) => void;
+}
+
+export function LibraryFolders({ categories, soundClips, selected, onSelect }: LibraryFoldersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [dropTarget, setDropTarget] = useState<FolderSelection | undefined>(undefined);
+  // "new" while naming a folder to create inside the selected one, or the id being renamed
+  const [editing, setEditing] = useState<"new" | number | null>(null);
+  const [editName, setEditName] = useState("");
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message?.replace(/^\d+: /, "") || "Failed to update folders",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertCategory) => {
+      const response = await apiRequest("/api/categories", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: (category: Category) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      onSelect(category.id);
+    },
+    onError,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      const response = await apiRequest(`/api/categories/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest(`/api/categories/${id}`, { method: "DELETE" });
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sound-clips"] });
+      if (selected === id) onSelect(null);
+    },
+    onError,
+  });
+
+  const moveClipMutation = useMutation({
+    mutationFn: async ({ soundClipId, categoryId }: { soundClipId: number; categoryId: number | null }) => {
+      const response = await apiRequest(`/api/sound-clips/${soundClipId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ categoryId }),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sound-clips"] });
+    },
+    onError,
+  });
+
+  const startEditing = (target: "new" | number) => {
+    setEditing(target);
+    setEditName(target === "new" ? "" : categories.find(category => category.id === target)?.name ?? "");
+  };
+
+  const finishEditing = () => {
+    const name = editName.trim();
+    if (name && editing === "new") {
+      createMutation.mutate({ name, parentId: typeof selected === "number" ? selected : null });
+    } else if (name && typeof editing === "number") {
+      renameMutation.mutate({ id: editing, name });
+    }
+    setEditing(null);
+  };
+
+  const toggleCollapsed = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const clipCount = (categoryId: number | null) => soundClips.filter(clip => (clip.categoryId ?? null) === categoryId).length;
+
+  // Drop handlers for a folder row; dropping on "Unfiled" takes the clip out of its folder
+  const dropProps = (target: number | "none") => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes(CLIP_DRAG_TYPE)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(undefined),
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(undefined);
+      const soundClipId = parseInt(event.dataTransfer.getData(CLIP_DRAG_TYPE), 10);
+      if (!Number.isNaN(soundClipId)) {
+        moveClipMutation.mutate({ soundClipId, categoryId: target === "none" ? null : target });
+      }
+    },
+  });
+
+  const rowClass = (selection: FolderSelection) =>
+    `flex items-center gap-1 rounded px-2 py-1 text-sm cursor-pointer ${
+      dropTarget === selection
+        ? "bg-blue-100 dark:bg-blue-900/40 ring-1 ring-blue-400"
+        : selected === selection
+          ? "bg-gray-200 dark:bg-gray-600 font-medium"
+          : "hover:bg-gray-100 dark:hover:bg-gray-700"
+    }`;
+
+  const renderFolders = (parentId: number | null, depth: number): JSX.Element[] =>
+    categories
+      .filter(category => (category.parentId ?? null) === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap(category => {
+        const hasChildren = categories.some(child => child.parentId === category.id);
+        const isCollapsed = collapsed.has(category.id);
+        const row = (
+          <div
+            key={category.id}
+            className={`group ${rowClass(category.id)}`}
+            style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+            onClick={() => onSelect(category.id)}
+            {...dropProps(category.id)}
+          >
+            <button
+              type="button"
+              className={`h-4 w-4 flex-shrink-0 text-gray-500 ${hasChildren ? "" : "invisible"}`}
+              onClick={(event) => {
+                event.stopPropagation();
+                toggleCollapsed(category.id);
+              }}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+            {selected === category.id ? <FolderOpen className="h-4 w-4 flex-shrink-0" /> : <Folder className="h-4 w-4 flex-shrink-0" />}
+            {editing === category.id ? (
+              <Input
+                autoFocus
+                value={editName}
+                onChange={(e) => setEditName(e.target.value)}
+                onBlur={finishEditing}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishEditing();
+                  if (e.key === "Escape") setEditing(null);
+                }}
+                onClick={(e) => e.stopPropagation()}
+                className="h-6 text-sm"
+              />
+            ) : (
+              <span className="truncate flex-1">{category.name}</span>
+            )}
+            <span className="text-xs text-gray-500">{clipCount(category.id)}</span>
+            <div className="hidden group-hover:flex items-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                title="Rename folder"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  startEditing(category.id);
+                }}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0 text-gray-500 hover:text-red-500"
+                title="Delete folder (its clips move up a level)"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  deleteMutation.mutate(category.id);
+                }}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        );
+        return isCollapsed ? [row] : [row, ...renderFolders(category.id, depth + 1)];
+      });
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-600 p-2 space-y-0.5">
+      <div className="flex items-center justify-between px-2 pb-1">
+        <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Folders</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          title={typeof selected === "number" ? "New folder inside the selected folder" : "New folder"}
+          onClick={() => startEditing("new")}
+        >
+          <FolderPlus className="h-3 w-3 mr-1" />
+          New
+        </Button>
+      </div>
+      <div className={rowClass(null)} onClick={() => onSelect(null)}>
+        <Library className="h-4 w-4 ml-5" />
+        <span className="flex-1">All clips</span>
+        <span className="text-xs text-gray-500">{soundClips.length}</span>
+      </div>
+      <div className={rowClass("none")} onClick={() => onSelect("none")} {...dropProps("none")}>
+        <Inbox className="h-4 w-4 ml-5" />
+        <span className="flex-1">Unfiled</span>
+        <span className="text-xs text-gray-500">{clipCount(null)}</span>
+      </div>
+      {renderFolders(null, 0)}
+      {editing === "new" && (
+        <Input
+          autoFocus
+          value={editName}
+          onChange={(e) => setEditName(e.target.value)}
+          onBlur={finishEditing}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") finishEditing();
+            if (e.key === "Escape") setEditing(null);
+          }}
+          placeholder="Folder name"
+          className="h-7 text-sm mt-1"
+        />
+      )}
+      <p className="text-xs text-gray-400 px-2 pt-1">Drag clips onto a folder to file them.</p>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ProfileConflictResolution, ProfileImportMode, ProfileImportOptions, ProfileImportReport } from '@shared/schema';
+
+const modeLabels: Record<ProfileImportMode, string> = {
+  replace: 'Replace everything',
+  merge: 'Merge (add new clips and triggers)',
+  resolve: 'Merge, resolving clashes',
+};
+
+const conflictLabels: Record<ProfileConflictResolution, string> = {
+  rename: 'Rename the imported one',
+  skip: 'Keep mine, skip the imported one',
+  overwrite: 'Overwrite mine',
+};
+
+// Query string for /api/profile/import and /api/profile/load-from-server
+export function importOptionsQuery(options: ProfileImportOptions): string {
+  const params = new URLSearchParams({ mode: options.mode });
+  if (options.mode === 'resolve') params.set('conflict', options.conflict);
+  return `?${params}`;
+}
+
+// "Added 4, skipped 1, renamed 1" for a toast
+export function summarizeImportReport(report: ProfileImportReport): string {
+  const parts = [`added ${report.added.length}`];
+  if (report.overwritten.length > 0) parts.push(`overwrote ${report.overwritten.length}`);
+  if (report.renamed.length > 0) parts.push(`renamed ${report.renamed.length}`);
+  if (report.skipped.length > 0) parts.push(`skipped ${report.skipped.length}`);
+  const summary = parts.join(', ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+export function ImportOptionsFields({ id, value, onChange }: {
+  id: string;
+  value: ProfileImportOptions;
+  onChange: (options: ProfileImportOptions) => void;
+}) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      <div>
+        <Label htmlFor={`${id}-mode`} className="text-xs">When importing</Label>
+        <Select value={value.mode} onValueChange={(mode) => onChange({ ...value, mode: mode as ProfileImportMode })}>
+          <SelectTrigger id={`${id}-mode`} className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(modeLabels).map(([mode, label]) => (
+              <SelectItem key={mode} value={mode}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.mode === 'resolve' && (
+        <div>
+          <Label htmlFor={`${id}-conflict`} className="text-xs">On a name or phrase clash</Label>
+          <Select value={value.conflict} onValueChange={(conflict) => onChange({ ...value, conflict: conflict as ProfileConflictResolution })}>
+            <SelectTrigger id={`${id}-conflict`} className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(conflictLabels).map(([conflict, label]) => (
+                <SelectItem key={conflict} value={conflict}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const itemLabels = {
+  'sound-clip': 'Clip',
+  'trigger-word': 'Trigger',
+  'binding': 'Binding',
+};
+
+// What the last import added, renamed, overwrote and skipped
+export function ImportReportSummary({ report }: { report: ProfileImportReport }) {
+  return (
+    <div className="p-3 bg-muted rounded-md space-y-2 text-sm">
+      <p className="font-medium">{summarizeImportReport(report)}</p>
+      {report.renamed.length > 0 && (
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {report.renamed.map((item, index) => (
+            <li key={index}>{itemLabels[item.type]} "{item.from}" imported as "{item.to}"</li>
+          ))}
+        </ul>
+      )}
+      {report.overwritten.length > 0 && (
+        <ul className="text-xs text-muted-foreground space-y-0.5">
+          {report.overwritten.map((item, index) => (
+            <li key={index}>{itemLabels[item.type]} "{item.name}" overwritten</li>
+          ))}
+        </ul>
+      )}
+      {report.skipped.length > 0 && (
+        <ul className="text-xs text-amber-700 dark:text-amber-400 space-y-0.5">
+          {report.skipped.map((item, index) => (
+            <li key={index}>{itemLabels[item.type]} "{item.name}" skipped: {item.reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
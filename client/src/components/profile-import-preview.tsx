@@ -0,0 +1,71 @@
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import type { ProfilePreview, ProfilePreviewIssue } from '@shared/schema';
+
+// Long lists of issues (a profile full of broken clips) are cut short
+const MAX_LISTED_ISSUES = 20;
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+}
+
+function IssueList({ issues, className }: { issues: ProfilePreviewIssue[]; className: string }) {
+  return (
+    <ul className={`text-xs space-y-0.5 ${className}`}>
+      {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+        <li key={index}><strong>{issue.item}:</strong> {issue.message}</li>
+      ))}
+      {issues.length > MAX_LISTED_ISSUES && <li>…and {issues.length - MAX_LISTED_ISSUES} more</li>}
+    </ul>
+  );
+}
+
+// The result of POST /api/profile/import/preview, shown before the import is confirmed
+export function ProfileImportPreview({ preview, isChecking }: { preview: ProfilePreview | null; isChecking: boolean }) {
+  if (isChecking) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Checking profile...
+      </div>
+    );
+  }
+  if (!preview) return null;
+
+  const { totals } = preview;
+  return (
+    <div className="p-3 border rounded-md space-y-2 text-sm">
+      <p className="flex items-center gap-2 font-medium">
+        {!preview.valid ? (
+          <><XCircle className="h-4 w-4 text-red-500" /> This profile can't be imported</>
+        ) : preview.errors.length > 0 || preview.warnings.length > 0 ? (
+          <><AlertTriangle className="h-4 w-4 text-amber-500" /> Some items need attention</>
+        ) : (
+          <><CheckCircle2 className="h-4 w-4 text-green-600" /> Ready to import</>
+        )}
+      </p>
+      {preview.valid && (
+        <p className="text-xs text-muted-foreground">
+          {totals.soundClips} clip{totals.soundClips !== 1 ? 's' : ''} ({formatDuration(totals.duration)} of audio, {formatSize(totals.audioBytes)})
+          {' · '}{totals.triggerWords} trigger{totals.triggerWords !== 1 ? 's' : ''}
+          {' · '}{totals.bindings} binding{totals.bindings !== 1 ? 's' : ''}
+          {' · '}{totals.categories} folder{totals.categories !== 1 ? 's' : ''}
+          {preview.version && ` · version ${preview.version}`}
+        </p>
+      )}
+      {preview.errors.length > 0 && (
+        <IssueList issues={preview.errors} className="text-red-600 dark:text-red-400" />
+      )}
+      {preview.warnings.length > 0 && (
+        <IssueList issues={preview.warnings} className="text-amber-700 dark:text-amber-400" />
+      )}
+      {preview.valid && preview.errors.length > 0 && (
+        <p className="text-xs text-muted-foreground">Items with errors are skipped; everything else is imported.</p>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,29 @@ import { useToast } from '@/hooks/use-toast';
 import { Download, Upload, Trash2, FileJson, Cloud, Loader2, Lock } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
 import { apiRequest, queryClient } from '@/lib/queryClient';
+import { analyzeUnmeasuredClips } from '@/lib/loudness-analysis';
+import { ImportOptionsFields, ImportReportSummary, importOptionsQuery, summarizeImportReport } from '@/components/profile-import-options';
+import { ProfileImportPreview } from '@/components/profile-import-preview';
+import type { ProfileImportOptions, ProfileImportReport, ProfilePreview } from '@shared/schema';
+
+// v1 profiles are JSON with base64 audio; v2 profiles are .tar archives
+function isJsonProfile(file: File): boolean {
+  return file.type === 'application/json' || file.name.endsWith('.json');
+}
+
+// Archives go up as the raw body so the server can read them as they arrive
+function uploadProfile(url: string, file: File): Promise<Response> {
+  if (isJsonProfile(file)) {
+    const formData = new FormData();
+    formData.append('profile', file);
+    return fetch(url, { method: 'POST', body: formData });
+  }
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-tar' },
+    body: file,
+  });
+}
 
 export function ProfileManager() {
   const [importFile, setImportFile] = useState<File | null>(null);
@@ -21,6 +44,11 @@ export function ProfileManager() {
   const [selectedServerProfile, setSelectedServerProfile] = useState('');
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [readOnlyMode, setReadOnlyMode] = useState(false);
+  const [saveNote, setSaveNote] = useState('');
+  const [importOptions, setImportOptions] = useState<ProfileImportOptions>({ mode: 'replace', conflict: 'rename' });
+  const [importReport, setImportReport] = useState<ProfileImportReport | null>(null);
+  const [preview, setPreview] = useState<ProfilePreview | null>(null);
+  const [isCheckingFile, setIsCheckingFile] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -37,7 +65,7 @@ export function ProfileManager() {
 
   // Mutation to save profile to server
   const saveToServerMutation = useMutation({
-    mutationFn: async ({ filename, readOnly }: { filename: string, readOnly: boolean }) => {
+    mutationFn: async ({ filename, readOnly, note }: { filename: string, readOnly: boolean, note: string }) => {
       // Client-side validation
       if (soundClips.length === 0) {
         throw new Error('Cannot save profile: At least one sound clip is required');
@@ -45,7 +73,7 @@ export function ProfileManager() {
       
       const response = await fetch('/api/profile/save-to-server', {
         method: 'POST',
-        body: JSON.stringify({ filename, readOnly }),
+        body: JSON.stringify({ filename, readOnly, note: note.trim() || undefined }),
         headers: { 'Content-Type': 'application/json' },
       });
       if (!response.ok) {
@@ -54,15 +82,17 @@ export function ProfileManager() {
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { filename }) => {
       toast({
         title: "Profile saved to server",
         description: "Your profile has been saved to the server successfully.",
       });
       refetchServerProfiles();
+      queryClient.invalidateQueries({ queryKey: [`/api/profile/server-profiles/${encodeURIComponent(filename)}/versions`] });
       setShowSaveDialog(false);
       setServerFilename('');
       setReadOnlyMode(false);
+      setSaveNote('');
     },
     onError: (error: any) => {
       toast({
@@ -76,21 +106,27 @@ export function ProfileManager() {
   // Mutation to load profile from server
   const loadFromServerMutation = useMutation({
     mutationFn: async (filename: string) => {
-      const response = await fetch(`/api/profile/load-from-server/${encodeURIComponent(filename)}`);
+      const response = await fetch(`/api/profile/load-from-server/${encodeURIComponent(filename)}${importOptionsQuery(importOptions)}`);
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || 'Failed to load profile from server');
       }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      setImportReport(data.report);
       toast({
         title: "Profile loaded from server",
-        description: "Your profile has been loaded successfully.",
+        description: summarizeImportReport(data.report),
       });
+      analyzeUnmeasuredClips()
+        .catch(error => console.warn("Loudness analysis failed:", error))
+        .finally(() => queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] }));
       queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] });
       queryClient.invalidateQueries({ queryKey: ['/api/trigger-words'] });
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bindings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
     },
     onError: (error: any) => {
       toast({
@@ -133,31 +169,18 @@ export function ProfileManager() {
     try {
       setIsExporting(true);
       
-      const response = await fetch('/api/profile/export');
-      if (!response.ok) {
-        throw new Error('Failed to export profile');
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      // Let the browser download the archive itself, so it streams to disk however large the
+      // board is instead of being held in memory; the server names the file
       const link = document.createElement('a');
-      link.href = url;
-      
-      // Get filename from response headers or use default
-      const contentDisposition = response.headers.get('content-disposition');
-      const filename = contentDisposition 
-        ? contentDisposition.split('filename=')[1]?.replace(/"/g, '')
-        : `callsound-profile-${new Date().toISOString().split('T')[0]}.json`;
-      
-      link.download = filename;
+      link.href = '/api/profile/export';
+      link.download = '';
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
 
       toast({
-        title: "Profile exported successfully",
-        description: "Your soundboard profile has been downloaded to your computer.",
+        title: "Profile export started",
+        description: "Your soundboard profile is downloading to your computer.",
       });
     } catch (error) {
       console.error('Export error:', error);
@@ -184,22 +207,30 @@ export function ProfileManager() {
     try {
       setIsImporting(true);
 
-      const formData = new FormData();
-      formData.append('profile', importFile);
-
-      const response = await fetch('/api/profile/import', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await uploadProfile(`/api/profile/import${importOptionsQuery(importOptions)}`, importFile);
 
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Failed to import profile');
       }
+      const { report } = await response.json();
+
+      // Measure clips the server could not analyze before the page reloads
+      await analyzeUnmeasuredClips().catch(error => console.warn("Loudness analysis failed:", error));
 
       // Invalidate all queries to refresh the UI
       await queryClient.invalidateQueries();
 
+      if (importOptions.mode !== 'replace') {
+        // Keep the page so the report of what was merged stays on screen
+        setImportReport(report);
+        toast({
+          title: "Profile merged",
+          description: summarizeImportReport(report),
+        });
+        return;
+      }
+
       toast({
         title: "Profile imported successfully",
         description: "Your soundboard profile has been restored. The page will refresh to show your imported data.",
@@ -220,18 +251,44 @@ export function ProfileManager() {
     } finally {
       setIsImporting(false);
       setImportFile(null);
+      setPreview(null);
+    }
+  };
+
+  // Dry-run the import so problems show before anything is replaced
+  const checkProfile = async (file: File) => {
+    setPreview(null);
+    setIsCheckingFile(true);
+    try {
+      const response = await uploadProfile('/api/profile/import/preview', file);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to check profile');
+      }
+      setPreview(await response.json());
+    } catch (error) {
+      console.error('Preview error:', error);
+      toast({
+        title: "Could not check profile",
+        description: error instanceof Error ? error.message : "The file can still be imported, but it was not checked first.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingFile(false);
     }
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.type === 'application/json' || file.name.endsWith('.json')) {
+      if (isJsonProfile(file) || file.name.endsWith('.tar')) {
         setImportFile(file);
+        setImportReport(null);
+        checkProfile(file);
       } else {
         toast({
           title: "Invalid file type",
-          description: "Please select a JSON profile file.",
+          description: "Please select a profile archive (.tar) or JSON profile file.",
           variant: "destructive",
         });
         event.target.value = '';
@@ -278,18 +335,22 @@ export function ProfileManager() {
             <p className="text-sm text-muted-foreground">
               Upload a previously saved profile file to restore your sound clips and settings.
             </p>
-            <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
-              ⚠️ Warning: This will replace all current data with the imported profile.
-            </p>
+            {importOptions.mode === 'replace' && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mt-1">
+                ⚠️ Warning: This will replace all current data with the imported profile.
+              </p>
+            )}
           </div>
           
           <div className="space-y-3">
+            <ImportOptionsFields id="profile-import" value={importOptions} onChange={setImportOptions} />
+
             <div>
               <Label htmlFor="profile-file">Select Profile File</Label>
               <Input
                 id="profile-file"
                 type="file"
-                accept=".json,application/json"
+                accept=".tar,application/x-tar,.json,application/json"
                 onChange={handleFileChange}
                 className="mt-1"
               />
@@ -306,10 +367,12 @@ export function ProfileManager() {
               </div>
             )}
 
+            <ProfileImportPreview preview={preview} isChecking={isCheckingFile} />
+
             <AlertDialog>
               <AlertDialogTrigger asChild>
                 <Button 
-                  disabled={!importFile || isImporting}
+                  disabled={!importFile || isImporting || isCheckingFile || preview?.valid === false}
                   variant="destructive"
                   className="w-full sm:w-auto"
                 >
@@ -321,7 +384,14 @@ export function ProfileManager() {
                 <AlertDialogHeader>
                   <AlertDialogTitle>Import Profile</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This will permanently replace all your current sound clips, trigger words, and settings with the data from the selected profile file. This action cannot be undone.
+                    {importOptions.mode === 'replace'
+                      ? "This will permanently replace all your current sound clips, trigger words, and settings with the data from the selected profile file. This action cannot be undone."
+                      : "The profile's clips, triggers and bindings will be added to your current data, which keeps its settings."}
+                    {preview && preview.errors.length > 0 && (
+                      <span className="block text-amber-600 dark:text-amber-400 mt-2">
+                        {preview.errors.length} item{preview.errors.length !== 1 ? 's' : ''} with errors will be skipped.
+                      </span>
+                    )}
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
@@ -332,6 +402,8 @@ export function ProfileManager() {
                 </AlertDialogFooter>
               </AlertDialogContent>
             </AlertDialog>
+
+            {importReport && <ImportReportSummary report={importReport} />}
           </div>
         </div>
 
@@ -362,7 +434,7 @@ export function ProfileManager() {
                 <DialogHeader>
                   <DialogTitle>Save Profile to Server</DialogTitle>
                   <DialogDescription>
-                    Enter a filename for your profile. It will be saved to the server with a 10MB size limit.
+                    Enter a filename for your profile. Saving over an existing profile keeps the version it replaces in that profile's history.
                     {soundClips.length === 0 && (
                       <span className="block text-amber-600 dark:text-amber-400 font-medium mt-2">
                         ⚠️ You need at least one sound clip to save a profile.
@@ -381,6 +453,16 @@ export function ProfileManager() {
                       maxLength={100}
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="server-note">Note (optional)</Label>
+                    <Input
+                      id="server-note"
+                      value={saveNote}
+                      onChange={(e) => setSaveNote(e.target.value)}
+                      placeholder="What changed in this version"
+                      maxLength={500}
+                    />
+                  </div>
                   <div className="flex items-center space-x-2">
                     <Checkbox 
                       id="read-only-mode"
@@ -398,7 +480,7 @@ export function ProfileManager() {
                     Cancel
                   </Button>
                   <Button
-                    onClick={() => saveToServerMutation.mutate({ filename: serverFilename, readOnly: readOnlyMode })}
+                    onClick={() => saveToServerMutation.mutate({ filename: serverFilename, readOnly: readOnlyMode, note: saveNote })}
                     disabled={!serverFilename.trim() || saveToServerMutation.isPending || soundClips.length === 0}
                   >
                     {saveToServerMutation.isPending && (
@@ -413,6 +495,7 @@ export function ProfileManager() {
             {/* Load from Server */}
             <div className="space-y-2">
               <Label htmlFor="server-profile-select">Load from Server</Label>
+              <p className="text-xs text-muted-foreground">Loads with the import options above.</p>
               <div className="flex gap-2">
                 <Select
                   value={selectedServerProfile}
@@ -4,10 +4,123 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
-import { ChevronDown, Cloud, Download, Loader2, Lock } from 'lucide-react';
+import { ChevronDown, Cloud, Download, History, Loader2, Lock, RotateCcw } from 'lucide-react';
+import { analyzeUnmeasuredClips } from '@/lib/loudness-analysis';
+import { ImportOptionsFields, ImportReportSummary, importOptionsQuery, summarizeImportReport } from '@/components/profile-import-options';
+import type { ProfileImportOptions, ProfileImportReport, ServerProfileVersion } from '@shared/schema';
+
+interface LoadRequest {
+  filename: string;
+  version?: string; // an earlier version; the current one when omitted
+}
+
+// Every saved version of one profile, to load or roll back to
+function ServerProfileHistory({ name, readOnly, onLoad, loading }: {
+  name: string;
+  readOnly: boolean;
+  onLoad: (request: LoadRequest) => void;
+  loading: LoadRequest | null;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const versionsKey = `/api/profile/server-profiles/${encodeURIComponent(name)}/versions`;
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: [versionsKey],
+    select: (data: any) => (data?.versions || []) as ServerProfileVersion[],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: string) => {
+      const response = await fetch(`${versionsKey}/${encodeURIComponent(version)}/rollback`, { method: 'POST' });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to roll back profile');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Profile rolled back",
+        description: `The chosen version of "${name}" is current again; the one it replaced is kept in the history.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      queryClient.invalidateQueries({ queryKey: ['/api/profile/server-profiles'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error rolling back profile",
+        description: error.message || "Failed to roll back profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="ml-3 pl-3 border-l space-y-1">
+      {versions.map(version => (
+        <div key={version.id} className="flex items-center justify-between gap-2 py-1">
+          <div className="min-w-0">
+            <div className="text-xs">
+              {new Date(version.savedAt).toLocaleString()}
+              {version.current && (
+                <span className="ml-2 bg-primary/10 text-primary px-1.5 py-0.5 rounded-full">current</span>
+              )}
+            </div>
+            {version.note && <div className="text-xs text-muted-foreground truncate">{version.note}</div>}
+          </div>
+          <div className="flex shrink-0 gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              title="Load this version"
+              onClick={() => onLoad({ filename: name, version: version.current ? undefined : version.id })}
+              disabled={loading !== null}
+            >
+              {loading?.filename === name && loading.version === (version.current ? undefined : version.id) ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Download className="h-3 w-3" />
+              )}
+            </Button>
+            {!version.current && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                title={readOnly ? "Read-only profiles can't be rolled back" : "Make this the current version"}
+                onClick={() => rollbackMutation.mutate(version.id)}
+                disabled={readOnly || rollbackMutation.isPending}
+              >
+                {rollbackMutation.isPending && rollbackMutation.variables === version.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-3 w-3" />
+                )}
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export function ServerProfileLoader() {
   const [isOpen, setIsOpen] = useState(false);
+  const [importOptions, setImportOptions] = useState<ProfileImportOptions>({ mode: 'replace', conflict: 'rename' });
+  const [importReport, setImportReport] = useState<ProfileImportReport | null>(null);
+  const [historyOpen, setHistoryOpen] = useState<string | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -19,22 +132,32 @@ export function ServerProfileLoader() {
 
   // Mutation to load profile from server
   const loadFromServerMutation = useMutation({
-    mutationFn: async (filename: string) => {
-      const response = await fetch(`/api/profile/load-from-server/${encodeURIComponent(filename)}`);
+    mutationFn: async ({ filename, version }: LoadRequest) => {
+      const query = importOptionsQuery(importOptions) + (version ? `&version=${encodeURIComponent(version)}` : '');
+      const response = await fetch(`/api/profile/load-from-server/${encodeURIComponent(filename)}${query}`);
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.message || 'Failed to load profile from server');
       }
       return response.json();
     },
-    onSuccess: (data, filename) => {
+    onSuccess: (data, { filename }) => {
+      // A replaced board needs no report; a merge shows what it added and skipped
+      setImportReport(importOptions.mode === 'replace' ? null : data.report);
       toast({
         title: "Profile loaded from server",
-        description: `"${filename}" has been loaded successfully.`,
+        description: importOptions.mode === 'replace'
+          ? `"${filename}" has been loaded successfully.`
+          : `"${filename}": ${summarizeImportReport(data.report)}`,
       });
+      analyzeUnmeasuredClips()
+        .catch(error => console.warn("Loudness analysis failed:", error))
+        .finally(() => queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] }));
       queryClient.invalidateQueries({ queryKey: ['/api/sound-clips'] });
       queryClient.invalidateQueries({ queryKey: ['/api/trigger-words'] });
       queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bindings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/categories'] });
     },
     onError: (error: any) => {
       toast({
@@ -45,10 +168,12 @@ export function ServerProfileLoader() {
     },
   });
 
-  const handleLoadProfile = (filename: string) => {
-    loadFromServerMutation.mutate(filename);
+  const handleLoadProfile = (request: LoadRequest) => {
+    loadFromServerMutation.mutate(request);
   };
 
+  const loading = loadFromServerMutation.isPending ? loadFromServerMutation.variables ?? null : null;
+
   return (
     <Card className="w-full">
       <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -87,50 +212,79 @@ export function ServerProfileLoader() {
               </div>
             ) : (
               <div className="space-y-2">
+                <ImportOptionsFields id="server-profile-load" value={importOptions} onChange={setImportOptions} />
                 <p className="text-xs text-muted-foreground mb-3">
-                  Click any profile to load it (this will replace your current data):
+                  {importOptions.mode === 'replace'
+                    ? 'Click any profile to load it (this will replace your current data):'
+                    : 'Click any profile to add it to your current data:'}
                 </p>
                 {serverProfiles.map((profile: any) => {
                   const profileName = typeof profile === 'string' ? profile : profile.name;
                   const isReadOnly = typeof profile === 'object' && profile.readOnly;
                   const savedAt = typeof profile === 'object' && profile.savedAt;
+                  const note = typeof profile === 'object' && profile.note;
+                  const versionCount = typeof profile === 'object' ? profile.versions ?? 1 : 1;
                   
                   return (
-                    <div key={profileName} className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 transition-colors">
-                      <div className="flex-1 mr-2">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium truncate">
-                            {profileName}
-                          </span>
-                          {isReadOnly && (
-                            <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded-full flex items-center gap-1">
-                              <Lock className="h-3 w-3" />
-                              Read-only
+                    <div key={profileName}>
+                      <div className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 transition-colors">
+                        <div className="flex-1 mr-2 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium truncate">
+                              {profileName}
                             </span>
+                            {isReadOnly && (
+                              <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded-full flex items-center gap-1">
+                                <Lock className="h-3 w-3" />
+                                Read-only
+                              </span>
+                            )}
+                          </div>
+                          {savedAt && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Saved: {new Date(savedAt).toLocaleDateString()}
+                            </div>
                           )}
+                          {note && <div className="text-xs text-muted-foreground truncate">{note}</div>}
+                        </div>
+                        <div className="flex shrink-0 gap-1">
+                          {versionCount > 1 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setHistoryOpen(historyOpen === profileName ? null : profileName)}
+                              title={`${versionCount} saved versions`}
+                            >
+                              <History className="h-3 w-3 mr-1" />
+                              <span className="text-xs">{versionCount}</span>
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleLoadProfile({ filename: profileName })}
+                            disabled={loadFromServerMutation.isPending}
+                          >
+                            {loading && loading.filename === profileName && !loading.version ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <Download className="h-3 w-3" />
+                            )}
+                          </Button>
                         </div>
-                        {savedAt && (
-                          <div className="text-xs text-muted-foreground mt-1">
-                            Saved: {new Date(savedAt).toLocaleDateString()}
-                          </div>
-                        )}
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleLoadProfile(profileName)}
-                        disabled={loadFromServerMutation.isPending}
-                        className="shrink-0"
-                      >
-                        {loadFromServerMutation.isPending && loadFromServerMutation.variables === profileName ? (
-                          <Loader2 className="h-3 w-3 animate-spin" />
-                        ) : (
-                          <Download className="h-3 w-3" />
-                        )}
-                      </Button>
+                      {historyOpen === profileName && (
+                        <ServerProfileHistory
+                          name={profileName}
+                          readOnly={isReadOnly}
+                          onLoad={handleLoadProfile}
+                          loading={loading}
+                        />
+                      )}
                     </div>
                   );
                 })}
+                {importReport && <ImportReportSummary report={importReport} />}
               </div>
             )}
           </CardContent>
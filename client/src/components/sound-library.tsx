@@ -6,22 +6,72 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, Play, Pause, Edit, Trash2, Search, Mic, Square, RotateCcw, Zap, X, PlayCircle, StopCircle } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAudioPlayer } from "@/hooks/use-audio-player";
 import { useAudioRecorder } from "@/hooks/use-audio-recorder";
-import type { SoundClip, TriggerWord } from "@shared/schema";
+import { ClipEditorDialog } from "@/components/clip-editor-dialog";
+import { ClipTagsEditor } from "@/components/clip-tags-editor";
+import { CLIP_DRAG_TYPE, LibraryFolders, type FolderSelection } from "@/components/library-folders";
+import { measureAudioBlob } from "@/lib/loudness-analysis";
+import { loadAudioBuffer, playBuffer } from "@/lib/audio-engine";
+import type { SoundClip, TriggerWord, OverlapPolicy, Category } from "@shared/schema";
+import { validateTriggerPattern } from "@shared/trigger-matching";
+import { recognitionLanguageOptions } from "@shared/recognition-language";
+import { filterSoundClips, tagCounts } from "@shared/clip-library";
+
+type MatchMode = TriggerWord["matchMode"];
+type MatchType = TriggerWord["matchType"];
+type PlaybackOrder = TriggerWord["playbackOrder"];
+
+const matchModeLabels: Record<MatchMode, string> = {
+  "exact": "Contains phrase",
+  "whole-word": "Whole words only",
+  "fuzzy": "Fuzzy (allow typos)",
+  "phonetic": "Sounds like",
+};
+
+const matchTypeLabels: Record<MatchType, string> = {
+  "substring": "Plain phrase",
+  "regex": "Regular expression",
+  "wildcard": "Wildcard (* and ?)",
+};
+
+const playbackOrderLabels: Record<PlaybackOrder, string> = {
+  "sequential": "In order",
+  "random": "Random",
+  "shuffle-bag": "Shuffle (no repeats until all played)",
+  "weighted": "Weighted random",
+};
+
+const overlapPolicyLabels: Record<OverlapPolicy, string> = {
+  "interrupt": "Stop other sounds",
+  "layer": "Play on top",
+  "queue": "Wait for other sounds",
+  "ignore-if-playing": "Skip if something is playing",
+};
 
 export default function SoundLibrary() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [masterVolume, setMasterVolume] = useState(75);
+  const [selectedFolder, setSelectedFolder] = useState<FolderSelection>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [micSensitivity, setMicSensitivity] = useState(50);
   const [recordingName, setRecordingName] = useState("");
   const [showRecordDialog, setShowRecordDialog] = useState(false);
   const [selectedSoundForTrigger, setSelectedSoundForTrigger] = useState<SoundClip | null>(null);
   const [triggerPhrase, setTriggerPhrase] = useState("");
   const [caseSensitive, setCaseSensitive] = useState(false);
+  const [matchMode, setMatchMode] = useState<MatchMode>("exact");
+  const [fuzzyThreshold, setFuzzyThreshold] = useState(1);
+  const [matchType, setMatchType] = useState<MatchType>("substring");
+  const [playbackOrder, setPlaybackOrder] = useState<PlaybackOrder>("sequential");
+  const [overlapPolicy, setOverlapPolicy] = useState<OverlapPolicy>("interrupt");
+  const [cooldownMs, setCooldownMs] = useState(2000);
+  const [triggerLanguage, setTriggerLanguage] = useState<string | null>(null);
+  const [minConfidence, setMinConfidence] = useState(0);
+  const [earlyFire, setEarlyFire] = useState(false);
   const [isPreviewPlaying, setIsPreviewPlaying] = useState(false);
   const [previewProgress, setPreviewProgress] = useState(0);
   const [currentPreviewClip, setCurrentPreviewClip] = useState<string>("");
@@ -48,6 +98,10 @@ export default function SoundLibrary() {
     queryKey: ["/api/trigger-words"],
   });
 
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
   const uploadMutation = useMutation({
     mutationFn: async (formData: FormData) => {
       console.log("Sending form data to server...");
@@ -56,6 +110,14 @@ export default function SoundLibrary() {
         console.log(`FormData ${key}:`, value);
       }
       
+      // Measure loudness in the browser; the server uses it for formats it cannot decode itself
+      const audio = formData.get("audio");
+      const loudness = audio instanceof Blob ? await measureAudioBlob(audio) : null;
+      if (loudness) {
+        formData.append("loudnessLufs", String(loudness.loudnessLufs ?? ""));
+        formData.append("peakDb", String(loudness.peakDb ?? ""));
+      }
+      
       // Use direct fetch for file uploads to preserve FormData
       const response = await fetch("/api/sound-clips", {
         method: "POST",
@@ -110,7 +172,7 @@ export default function SoundLibrary() {
   });
 
   const createTriggerMutation = useMutation({
-    mutationFn: async (data: { phrase: string; soundClipIds: number[]; caseSensitive: boolean; enabled: boolean }) => {
+    mutationFn: async (data: { phrase: string; soundClipIds: number[]; caseSensitive: boolean; enabled: boolean; matchMode: MatchMode; fuzzyThreshold: number; matchType: MatchType; playbackOrder: PlaybackOrder; overlapPolicy: OverlapPolicy; cooldownMs: number; language: string | null; minConfidence: number; earlyFire: boolean }) => {
       const response = await apiRequest("/api/trigger-words", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -123,6 +185,15 @@ export default function SoundLibrary() {
       setSelectedSoundForTrigger(null);
       setTriggerPhrase("");
       setCaseSensitive(false);
+      setMatchMode("exact");
+      setFuzzyThreshold(1);
+      setMatchType("substring");
+      setPlaybackOrder("sequential");
+      setOverlapPolicy("interrupt");
+      setCooldownMs(2000);
+      setTriggerLanguage(null);
+      setMinConfidence(0);
+      setEarlyFire(false);
       toast({
         title: "Success",
         description: "Trigger word created successfully",
@@ -256,9 +327,17 @@ export default function SoundLibrary() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const filteredSoundClips = soundClips.filter(clip =>
-    clip.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const allTags = tagCounts(soundClips);
+
+  const filteredSoundClips = filterSoundClips(soundClips, categories, {
+    search: searchTerm,
+    tags: selectedTags,
+    categoryId: selectedFolder ?? undefined,
+  });
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(existing => existing !== tag) : [...prev, tag]);
+  };
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -288,11 +367,30 @@ export default function SoundLibrary() {
       return;
     }
 
+    const patternError = validateTriggerPattern({ phrase: triggerPhrase, caseSensitive, matchType });
+    if (patternError) {
+      toast({
+        title: "Invalid pattern",
+        description: patternError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     createTriggerMutation.mutate({
       phrase: triggerPhrase.trim(),
       soundClipIds: [selectedSoundForTrigger.id],
       caseSensitive,
       enabled: true,
+      matchMode,
+      fuzzyThreshold,
+      matchType,
+      playbackOrder,
+      overlapPolicy,
+      cooldownMs,
+      language: triggerLanguage,
+      minConfidence,
+      earlyFire,
     });
   };
 
@@ -330,51 +428,19 @@ export default function SoundLibrary() {
         setCurrentPreviewClip(clip.name);
         setPreviewProgress(((i + 1) / soundClips.length) * 100);
 
-        // Create and play audio
-        const audio = new Audio(clip.url);
-        audio.volume = masterVolume / 100;
-
-        await new Promise<void>((resolve, reject) => {
-          let hasResolved = false;
-
-          const cleanup = () => {
-            if (!hasResolved) {
-              hasResolved = true;
-              audio.removeEventListener('ended', onEnded);
-              audio.removeEventListener('error', onError);
-              audio.removeEventListener('canplaythrough', onCanPlay);
+        // Play through the shared engine so master volume, edits and output routing apply
+        await new Promise<void>((resolve) => {
+          loadAudioBuffer(clip.url).then((buffer) => {
+            if (previewCancelRef.current) {
+              resolve();
+              return;
             }
-          };
-
-          const onEnded = () => {
-            cleanup();
-            resolve();
-          };
-
-          const onError = () => {
-            cleanup();
+            const source = playBuffer(buffer, clip);
+            source.onended = () => resolve();
+          }).catch(() => {
             console.warn(`Failed to play clip: ${clip.name}`);
             resolve(); // Continue to next clip
-          };
-
-          const onCanPlay = () => {
-            if (!previewCancelRef.current) {
-              audio.play().catch(() => {
-                cleanup();
-                resolve();
-              });
-            } else {
-              cleanup();
-              resolve();
-            }
-          };
-
-          audio.addEventListener('ended', onEnded);
-          audio.addEventListener('error', onError);
-          audio.addEventListener('canplaythrough', onCanPlay);
-
-          // Start loading the audio
-          audio.load();
+          });
         });
 
         // Add delay between clips
@@ -402,7 +468,7 @@ export default function SoundLibrary() {
       setCurrentPreviewClip("");
       previewCancelRef.current = false;
     }
-  }, [soundClips, masterVolume, isPreviewPlaying, toast]);
+  }, [soundClips, isPreviewPlaying, toast]);
 
   return (
     <div className="space-y-6">
@@ -556,6 +622,36 @@ export default function SoundLibrary() {
             </div>
           </div>
 
+          {/* Tag filter chips: clips must carry every selected tag */}
+          {allTags.length > 0 && (
+            <div className="mb-4 flex flex-wrap gap-1">
+              {allTags.map(({ tag, count }) => (
+                <Badge
+                  key={tag}
+                  variant={selectedTags.includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer select-none"
+                  onClick={() => toggleTagFilter(tag)}
+                >
+                  {tag} <span className="ml-1 opacity-60">{count}</span>
+                </Badge>
+              ))}
+              {selectedTags.length > 0 && (
+                <Button variant="ghost" size="sm" className="h-5 px-2 text-xs" onClick={() => setSelectedTags([])}>
+                  Clear
+                </Button>
+              )}
+            </div>
+          )}
+
+          <div className="mb-4">
+            <LibraryFolders
+              categories={categories}
+              soundClips={soundClips}
+              selected={selectedFolder}
+              onSelect={setSelectedFolder}
+            />
+          </div>
+
           {/* Sound Cards */}
           <div className="space-y-3 max-h-96 overflow-y-auto">
             {isLoading ? (
@@ -566,15 +662,22 @@ export default function SoundLibrary() {
               <div className="text-center py-8">
                 <p className="text-gray-500 mb-2">No sound clips found</p>
                 <p className="text-sm text-gray-400">
-                  {searchTerm ? "Try a different search term" : "Upload your first sound clip to get started"}
+                  {searchTerm || selectedTags.length > 0 || selectedFolder !== null
+                    ? "Try a different search, tag or folder"
+                    : "Upload your first sound clip to get started"}
                 </p>
               </div>
             ) : (
               filteredSoundClips.map((clip) => (
                 <div
                   key={clip.id}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData(CLIP_DRAG_TYPE, String(clip.id));
+                    event.dataTransfer.effectAllowed = "move";
+                  }}
                   className={`bg-gray-50 dark:bg-gray-700 rounded-lg p-4 border transition-all ${
-                    currentlyPlaying === clip.id
+                    currentlyPlaying.has(clip.id)
                       ? "border-orange-500 bg-orange-50 dark:bg-orange-900/20"
                       : "border-gray-200 dark:border-gray-600 hover:shadow-md"
                   }`}
@@ -599,7 +702,7 @@ export default function SoundLibrary() {
                       })()}
                     </div>
                     <div className="flex items-center space-x-1">
-                      {currentlyPlaying === clip.id ? (
+                      {currentlyPlaying.has(clip.id) ? (
                         <span className="text-xs bg-orange-500 text-white px-2 py-1 rounded-full">
                           PLAYING
                         </span>
@@ -608,13 +711,13 @@ export default function SoundLibrary() {
                         variant="ghost"
                         size="sm"
                         onClick={() => 
-                          currentlyPlaying === clip.id 
-                            ? stopSound() 
-                            : playSound(clip.url, clip.id, masterVolume / 100)
+                          currentlyPlaying.has(clip.id) 
+                            ? stopSound(clip.id) 
+                            : playSound(clip.url, clip.id, { edits: clip, overlapPolicy: clip.overlapPolicy })
                         }
                         className="text-primary hover:text-primary-dark"
                       >
-                        {currentlyPlaying === clip.id ? (
+                        {currentlyPlaying.has(clip.id) ? (
                           <Pause className="h-4 w-4" />
                         ) : (
                           <Play className="h-4 w-4" />
@@ -629,6 +732,15 @@ export default function SoundLibrary() {
                               setSelectedSoundForTrigger(clip);
                               setTriggerPhrase("");
                               setCaseSensitive(false);
+                              setMatchMode("exact");
+                              setFuzzyThreshold(1);
+                              setMatchType("substring");
+                              setPlaybackOrder("sequential");
+                              setOverlapPolicy("interrupt");
+                              setCooldownMs(2000);
+                              setTriggerLanguage(null);
+                              setMinConfidence(0);
+                              setEarlyFire(false);
                             }}
                             className="text-blue-500 hover:text-blue-700"
                             title="Add trigger word"
@@ -647,9 +759,24 @@ export default function SoundLibrary() {
                                 id="triggerPhrase"
                                 value={triggerPhrase}
                                 onChange={(e) => setTriggerPhrase(e.target.value)}
-                                placeholder="Enter trigger phrase"
+                                placeholder={matchType === "regex" ? "e.g. good (morning|night)" : matchType === "wildcard" ? "e.g. call * later" : "Enter trigger phrase"}
                               />
                             </div>
+                            <div>
+                              <Label htmlFor="matchType">Phrase Type</Label>
+                              <Select value={matchType} onValueChange={(value) => setMatchType(value as MatchType)}>
+                                <SelectTrigger id="matchType">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(matchTypeLabels) as MatchType[]).map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                      {matchTypeLabels[type]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
                             <div className="flex items-center space-x-2">
                               <input
                                 type="checkbox"
@@ -660,6 +787,132 @@ export default function SoundLibrary() {
                               />
                               <Label htmlFor="caseSensitive">Case sensitive</Label>
                             </div>
+                            {matchType === "substring" && (
+                              <div>
+                                <Label htmlFor="matchMode">Match Mode</Label>
+                                <Select value={matchMode} onValueChange={(value) => setMatchMode(value as MatchMode)}>
+                                  <SelectTrigger id="matchMode">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(Object.keys(matchModeLabels) as MatchMode[]).map((mode) => (
+                                      <SelectItem key={mode} value={mode}>
+                                        {matchModeLabels[mode]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            )}
+                            {matchType === "substring" && matchMode === "fuzzy" && (
+                              <div>
+                                <Label htmlFor="fuzzyThreshold">Allowed Typos (edit distance)</Label>
+                                <Input
+                                  id="fuzzyThreshold"
+                                  type="number"
+                                  min="0"
+                                  max="5"
+                                  value={fuzzyThreshold}
+                                  onChange={(e) => setFuzzyThreshold(Math.max(0, Math.min(5, parseInt(e.target.value) || 0)))}
+                                />
+                              </div>
+                            )}
+                            <div>
+                              <Label htmlFor="playbackOrder">Playback Order</Label>
+                              <Select value={playbackOrder} onValueChange={(value) => setPlaybackOrder(value as PlaybackOrder)}>
+                                <SelectTrigger id="playbackOrder">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(playbackOrderLabels) as PlaybackOrder[]).map((order) => (
+                                    <SelectItem key={order} value={order}>
+                                      {playbackOrderLabels[order]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-gray-500 mt-1">
+                                How this trigger picks between its clips when it has more than one
+                              </p>
+                            </div>
+                            <div>
+                              <Label htmlFor="overlapPolicy">When Other Sounds Are Playing</Label>
+                              <Select value={overlapPolicy} onValueChange={(value) => setOverlapPolicy(value as OverlapPolicy)}>
+                                <SelectTrigger id="overlapPolicy">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(overlapPolicyLabels) as OverlapPolicy[]).map((policy) => (
+                                    <SelectItem key={policy} value={policy}>
+                                      {overlapPolicyLabels[policy]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div>
+                              <Label htmlFor="cooldownSeconds">Cooldown (seconds)</Label>
+                              <Input
+                                id="cooldownSeconds"
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={cooldownMs / 1000}
+                                onChange={(e) => setCooldownMs(Math.max(0, Math.round((parseFloat(e.target.value) || 0) * 1000)))}
+                              />
+                              <p className="text-xs text-gray-500 mt-1">
+                                Minimum time before this trigger can fire again
+                              </p>
+                            </div>
+                            <div>
+                              <Label htmlFor="triggerLanguage">Language</Label>
+                              <Select value={triggerLanguage ?? "any"} onValueChange={(value) => setTriggerLanguage(value === "any" ? null : value)}>
+                                <SelectTrigger id="triggerLanguage">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="any">Any language</SelectItem>
+                                  {recognitionLanguageOptions.map((option) => (
+                                    <SelectItem key={option.code} value={option.code}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-gray-500 mt-1">
+                                Only fire while the listener is recognizing this language
+                              </p>
+                            </div>
+                            <div>
+                              <Label htmlFor="minConfidence">Minimum Confidence (%)</Label>
+                              <Input
+                                id="minConfidence"
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={Math.round(minConfidence * 100)}
+                                onChange={(e) => setMinConfidence(Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100)}
+                              />
+                              <p className="text-xs text-gray-500 mt-1">
+                                Ignore recognizer guesses less certain than this. 0 accepts everything.
+                              </p>
+                            </div>
+                            <div>
+                              <div className="flex items-center space-x-2">
+                                <input
+                                  type="checkbox"
+                                  id="earlyFire"
+                                  checked={earlyFire}
+                                  onChange={(e) => setEarlyFire(e.target.checked)}
+                                  className="rounded"
+                                />
+                                <Label htmlFor="earlyFire">Fire early (while still speaking)</Label>
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">
+                                Matches partial results for less lag; fires at most once per phrase. Partial results
+                                usually carry no confidence score, so with a minimum confidence set it waits for the final result.
+                              </p>
+                            </div>
                             <div className="flex space-x-3 pt-4">
                               <Button 
                                 type="button" 
@@ -679,6 +932,8 @@ export default function SoundLibrary() {
                           </div>
                         </DialogContent>
                       </Dialog>
+                      <ClipEditorDialog clip={clip} />
+                      <ClipTagsEditor clip={clip} allTags={allTags.map(({ tag }) => tag)} />
                       <Button
                         variant="ghost"
                         size="sm"
@@ -697,6 +952,20 @@ export default function SoundLibrary() {
                       {clip.format}
                     </span>
                   </div>
+                  {(clip.tags ?? []).length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {clip.tags.map(tag => (
+                        <Badge
+                          key={tag}
+                          variant="secondary"
+                          className="text-xs px-2 py-0 cursor-pointer"
+                          onClick={() => toggleTagFilter(tag)}
+                        >
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                   
                   {/* Show existing triggers */}
                   {(() => {
@@ -710,6 +979,11 @@ export default function SoundLibrary() {
                           {triggers.map((trigger) => (
                             <div key={trigger.id} className="flex items-center gap-1 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 px-2 py-1 rounded text-xs">
                               <span>"{trigger.phrase}"</span>
+                              {trigger.matchType && trigger.matchType !== "substring" ? (
+                                <span className="opacity-70">({trigger.matchType})</span>
+                              ) : trigger.matchMode && trigger.matchMode !== "exact" && (
+                                <span className="opacity-70">({trigger.matchMode})</span>
+                              )}
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -726,7 +1000,7 @@ export default function SoundLibrary() {
                     );
                   })()}
                   
-                  {currentlyPlaying === clip.id && (
+                  {currentlyPlaying.has(clip.id) && (
                     <div className="mt-2">
                       <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1">
                         <div className="bg-orange-500 h-1 rounded-full animate-pulse" style={{ width: "45%" }} />
@@ -0,0 +1,14 @@
+import type { TriggerMatchInfo } from "@/hooks/use-voice-recognition";
+
+// Which recognizer reading fired the last trigger, and how sure the recognizer was of it
+export function TriggerMatchSummary({ match }: { match: TriggerMatchInfo | null }) {
+  if (!match) return null;
+
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+      Fired "{match.phrase}" from{" "}
+      {match.alternativeIndex === 0 ? "the top guess" : `alternative #${match.alternativeIndex + 1}`}{" "}
+      "{match.transcript.trim()}" ({Math.round(match.confidence * 100)}% confidence)
+    </p>
+  );
+}
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Edit, Trash2, ArrowRight, Volume2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { loadAudioBuffer, playBuffer } from "@/lib/audio-engine";
 import { useToast } from "@/hooks/use-toast";
 import type { TriggerWord, SoundClip } from "@shared/schema";
 
@@ -158,9 +159,7 @@ export default function TriggerWords() {
     const clip = soundClips.find(c => c.id === soundClipIds[0]);
     if (clip) {
       console.log("🔊 Testing sound:", clip.name, clip.url);
-      const audio = new Audio(clip.url);
-      audio.volume = 0.75;
-      audio.play().catch(error => {
+      loadAudioBuffer(clip.url).then(buffer => playBuffer(buffer, clip)).catch(error => {
         console.error("Failed to play sound:", error);
         toast({
           title: "Error",
@@ -1,10 +1,30 @@
 import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Mic, MicOff, Trash2, Smartphone, Settings } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Mic, MicOff, Trash2, Smartphone, Settings as SettingsIcon, Languages } from "lucide-react";
 import { useVoiceRecognition } from "@/hooks/use-voice-recognition";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import AudioVisualizer from "@/components/audio-visualizer";
+import { TriggerMatchSummary } from "@/components/trigger-match-summary";
+import { DEFAULT_RECOGNITION_LANGUAGE, languageLabel, recognitionLanguageOptions } from "@shared/recognition-language";
+import type { RecognitionEngineId, RecognitionLanguageMode, Settings } from "@shared/schema";
+
+const engineLabels: Record<RecognitionEngineId, string> = {
+  "web-speech": "Browser (Web Speech, online)",
+  "local": "Local recognizer on the server (offline)",
+};
+
+const languageModeLabels: Record<RecognitionLanguageMode, string> = {
+  "pin": "Pin one language",
+  "rotate": "Rotate between languages",
+};
 
 export function VoiceControls() {
   const {
@@ -15,8 +35,61 @@ export function VoiceControls() {
     clearTranscript,
     isSupported,
     audioLevel,
-    errorMessage
+    errorMessage,
+    currentLanguage,
+    lastMatch
   } = useVoiceRecognition();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+  const { data: recognitionStatus } = useQuery<{ localAvailable: boolean }>({
+    queryKey: ["/api/recognition/status"],
+  });
+  const [rotateSeconds, setRotateSeconds] = useState(8);
+  const [maxAlternatives, setMaxAlternatives] = useState(3);
+
+  useEffect(() => {
+    if (settings) {
+      setRotateSeconds(settings.recognitionRotateSeconds ?? 8);
+      setMaxAlternatives(settings.recognitionMaxAlternatives ?? 3);
+    }
+  }, [settings]);
+
+  // Recognition settings apply at the next recognition restart, so they save immediately
+  const updateRecognitionMutation = useMutation({
+    mutationFn: async (data: Partial<Pick<Settings, "recognitionLanguage" | "recognitionLanguages" | "recognitionLanguageMode" | "recognitionRotateSeconds" | "recognitionMaxAlternatives" | "recognitionEngine">>) => {
+      const response = await apiRequest("/api/settings", {
+        method: "PATCH",
+        body: JSON.stringify(data),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update recognition settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const primaryLanguage = settings?.recognitionLanguage || DEFAULT_RECOGNITION_LANGUAGE;
+  const languageMode = settings?.recognitionLanguageMode || "pin";
+  const rotationLanguages = settings?.recognitionLanguages || [];
+
+  const toggleRotationLanguage = (code: string) => {
+    updateRecognitionMutation.mutate({
+      recognitionLanguages: rotationLanguages.includes(code)
+        ? rotationLanguages.filter(language => language !== code)
+        : [...rotationLanguages, code],
+    });
+  };
 
   const [status, setStatus] = useState("Ready to Listen");
   const [isMobile, setIsMobile] = useState(false);
@@ -47,6 +120,32 @@ export function VoiceControls() {
     }
   };
 
+  const engineSelect = (
+    <div className="space-y-2">
+      <Label htmlFor="recognitionEngine">Recognition Engine</Label>
+      <Select
+        value={settings?.recognitionEngine || "web-speech"}
+        onValueChange={(value) => updateRecognitionMutation.mutate({ recognitionEngine: value as RecognitionEngineId })}
+      >
+        <SelectTrigger id="recognitionEngine">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(engineLabels) as RecognitionEngineId[]).map((id) => (
+            <SelectItem key={id} value={id} disabled={id === "local" && recognitionStatus?.localAvailable === false}>
+              {engineLabels[id]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {recognitionStatus?.localAvailable
+          ? "The local recognizer keeps audio on your own server and works in browsers without Web Speech, such as Firefox."
+          : "No local recognizer is configured on the server (set LOCAL_RECOGNIZER_COMMAND to enable offline recognition)."}
+      </p>
+    </div>
+  );
+
   if (!isSupported) {
     return (
       <Card>
@@ -60,6 +159,7 @@ export function VoiceControls() {
           <p className="text-gray-600 dark:text-gray-300">
             Voice recognition is not supported in this browser. Please use Chrome or Edge on desktop for the best experience.
           </p>
+          <div className="mt-4">{engineSelect}</div>
         </CardContent>
       </Card>
     );
@@ -70,7 +170,7 @@ export function VoiceControls() {
       <CardHeader>
         <CardTitle className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            <Settings className="h-5 w-5" />
+            <SettingsIcon className="h-5 w-5" />
             <span>Voice Recognition Controls</span>
             {isMobile && <Smartphone className="h-4 w-4 text-blue-500" />}
           </div>
@@ -125,6 +225,104 @@ export function VoiceControls() {
           )}
         </div>
 
+        {/* Recognition Engine */}
+        {engineSelect}
+
+        {/* Recognition Language */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="flex items-center space-x-2">
+              <Languages className="h-4 w-4" />
+              <span>Recognition Language</span>
+            </Label>
+            {isListening && <Badge variant="outline">{languageLabel(currentLanguage)}</Badge>}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Select
+              value={primaryLanguage}
+              onValueChange={(value) => updateRecognitionMutation.mutate({ recognitionLanguage: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {recognitionLanguageOptions.map((option) => (
+                  <SelectItem key={option.code} value={option.code}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={languageMode}
+              onValueChange={(value) => updateRecognitionMutation.mutate({ recognitionLanguageMode: value as RecognitionLanguageMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(languageModeLabels) as RecognitionLanguageMode[]).map((mode) => (
+                  <SelectItem key={mode} value={mode}>
+                    {languageModeLabels[mode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {languageMode === "rotate" && (
+            <>
+              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded p-2">
+                {recognitionLanguageOptions.filter(option => option.code !== primaryLanguage).map((option) => (
+                  <div key={option.code} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`rotate-${option.code}`}
+                      checked={rotationLanguages.includes(option.code)}
+                      onCheckedChange={() => toggleRotationLanguage(option.code)}
+                    />
+                    <Label htmlFor={`rotate-${option.code}`} className="text-sm">{option.label}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center space-x-2 text-sm">
+                <span>Switch language every</span>
+                <Input
+                  type="number"
+                  min={2}
+                  max={120}
+                  value={rotateSeconds}
+                  onChange={(e) => setRotateSeconds(Math.max(2, Math.min(120, parseInt(e.target.value) || 2)))}
+                  onBlur={() => updateRecognitionMutation.mutate({ recognitionRotateSeconds: rotateSeconds })}
+                  className="w-20"
+                />
+                <span>seconds</span>
+              </div>
+            </>
+          )}
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {languageMode === "rotate"
+              ? "The browser listens in one language at a time, so the listener cycles through these. Triggers tagged with a language only fire while it is active. Changing the interval takes effect the next time you start listening."
+              : "Triggers tagged with a different language will not fire while this language is pinned."}
+          </p>
+        </div>
+
+        {/* Alternatives */}
+        <div className="space-y-2">
+          <Label htmlFor="maxAlternatives">Alternatives Checked per Phrase</Label>
+          <Input
+            id="maxAlternatives"
+            type="number"
+            min={1}
+            max={10}
+            value={maxAlternatives}
+            onChange={(e) => setMaxAlternatives(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+            onBlur={() => updateRecognitionMutation.mutate({ recognitionMaxAlternatives: maxAlternatives })}
+            className="w-24"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The recognizer's other guesses are checked too, so a misheard trigger can still fire. Use 1 on slower mobile devices. Takes effect the next time recognition restarts.
+          </p>
+        </div>
+
         {/* Live Transcript */}
         <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4">
           <div className="flex items-center justify-between mb-2">
@@ -143,6 +341,7 @@ export function VoiceControls() {
             <p className="text-sm text-gray-700 dark:text-gray-300">
               {transcript || (isListening ? "Listening..." : "No speech detected")}
             </p>
+            <TriggerMatchSummary match={lastMatch} />
           </div>
         </div>
         
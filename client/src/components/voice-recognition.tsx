@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Mic, MicOff, Activity, Smartphone } from "lucide-react";
 import { useVoiceRecognition } from "@/hooks/use-voice-recognition";
 import AudioVisualizer from "@/components/audio-visualizer";
+import { TriggerMatchSummary } from "@/components/trigger-match-summary";
 
 export default function VoiceRecognition() {
   const {
@@ -15,7 +16,8 @@ export default function VoiceRecognition() {
     clearTranscript,
     isSupported,
     audioLevel,
-    errorMessage
+    errorMessage,
+    lastMatch
   } = useVoiceRecognition();
 
   const [status, setStatus] = useState("Ready to Listen");
@@ -130,6 +132,7 @@ export default function VoiceRecognition() {
             <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
               {transcript}
             </p>
+            <TriggerMatchSummary match={lastMatch} />
           </div>
         )}
         
@@ -1,52 +1,48 @@
-import { useState, useRef, useCallback } from "react";
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { setMasterVolume } from "@/lib/audio-engine";
+import { getPlayingClipIds, play, setMaxVoices, stopAll, stopClip, subscribe } from "@/lib/playback-manager";
+import type { ClipEdits } from "@shared/clip-edits";
+import type { OverlapPolicy, Settings } from "@shared/schema";
+
+export interface PlaySoundOptions {
+  volume?: number;
+  edits?: ClipEdits;
+  overlapPolicy?: OverlapPolicy | null; // defaults to interrupt
+}
 
 export function useAudioPlayer() {
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<number | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-
-  const playSound = useCallback((url: string, id: number, volume: number = 1) => {
-    // Stop any currently playing sound
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
+  // Every voice sounding anywhere in the app, not just ones started by this component
+  const currentlyPlaying = useSyncExternalStore(subscribe, getPlayingClipIds);
+
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Keep the shared engine in line with the persisted settings
+  useEffect(() => {
+    if (settings) {
+      setMasterVolume(settings.masterVolume ?? 0.8);
+      setMaxVoices(settings.maxVoices ?? 4);
     }
+  }, [settings?.masterVolume, settings?.maxVoices]);
 
-    // Create new audio element
-    const audio = new Audio(url);
-    audio.volume = Math.max(0, Math.min(1, volume));
-    
-    audio.addEventListener('ended', () => {
-      setCurrentlyPlaying(null);
-      audioRef.current = null;
-    });
-
-    audio.addEventListener('error', (e) => {
-      console.error('Audio playback error:', e);
-      setCurrentlyPlaying(null);
-      audioRef.current = null;
-    });
-
-    // Play the audio
-    audio.play().then(() => {
-      audioRef.current = audio;
-      setCurrentlyPlaying(id);
-    }).catch((error) => {
-      console.error('Failed to play sound:', error);
-    });
+  const playSound = useCallback((url: string, id: number, options: PlaySoundOptions = {}) => {
+    play({ url, clipId: id, ...options });
   }, []);
 
-  const stopSound = useCallback(() => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-      audioRef.current = null;
+  // Stop one clip, or everything when no id is given
+  const stopSound = useCallback((id?: number) => {
+    if (id === undefined) {
+      stopAll();
+    } else {
+      stopClip(id);
     }
-    setCurrentlyPlaying(null);
   }, []);
 
   const stopAllSounds = useCallback(() => {
-    stopSound();
-  }, [stopSound]);
+    stopAll();
+  }, []);
 
   return {
     currentlyPlaying,
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAudioPlayer } from "./use-audio-player";
+import { enableMidi, subscribeBindingInput } from "@/lib/binding-input";
+import { clientId } from "@/lib/live-events";
+import { bindingMatches, describeBinding } from "@shared/bindings";
+import { CLIENT_ID_HEADER } from "@shared/events";
+import type { Binding, SoundClip, TriggerWord } from "@shared/schema";
+
+// Fires clips and triggers from keyboard shortcuts and MIDI controls. Mounted once, at the app
+// root. Clip bindings play the clip straight away, like its play button; trigger bindings go
+// through the server so the trigger's cycling, cooldowns and the rate limit apply.
+export function useBindings() {
+  const { playSound } = useAudioPlayer();
+
+  const { data: bindings = [] } = useQuery<Binding[]>({
+    queryKey: ["/api/bindings"],
+  });
+
+  const { data: soundClips = [] } = useQuery<SoundClip[]>({
+    queryKey: ["/api/sound-clips"],
+  });
+
+  const { data: triggerWords = [] } = useQuery<TriggerWord[]>({
+    queryKey: ["/api/trigger-words"],
+  });
+
+  // The input listener is registered once and reads the latest data through this ref
+  const dataRef = useRef({ bindings, soundClips, triggerWords });
+  useEffect(() => {
+    dataRef.current = { bindings, soundClips, triggerWords };
+  }, [bindings, soundClips, triggerWords]);
+
+  // Only ask for MIDI access once a MIDI binding exists; browsers may prompt for it
+  const usesMidi = bindings.some(binding => binding.enabled && binding.input !== "keyboard");
+  useEffect(() => {
+    if (usesMidi) {
+      void enableMidi();
+    }
+  }, [usesMidi]);
+
+  useEffect(() => {
+    const playClip = (soundClip: SoundClip, overlapPolicy = soundClip.overlapPolicy) => {
+      playSound(soundClip.url, soundClip.id, { edits: soundClip, overlapPolicy });
+    };
+
+    const fire = (binding: Binding) => {
+      const { soundClips, triggerWords } = dataRef.current;
+      if (binding.targetType === "clip") {
+        const soundClip = soundClips.find(clip => clip.id === binding.targetId);
+        if (soundClip) {
+          console.log("🎹 Binding fired:", describeBinding(binding), "-> Playing:", soundClip.name);
+          playClip(soundClip);
+        }
+        return;
+      }
+
+      const trigger = triggerWords.find(t => t.id === binding.targetId);
+      if (!trigger) return;
+      fetch(`/api/trigger-words/${trigger.id}/next-sound-clip`, { headers: { [CLIENT_ID_HEADER]: clientId } })
+        .then(response => response.json())
+        .then(data => {
+          const soundClip = soundClips.find(clip => clip.id === data.soundClipId);
+          if (soundClip) {
+            console.log("🎹 Binding fired:", describeBinding(binding), "-> Trigger", trigger.phrase, "->", soundClip.name);
+            playClip(soundClip, soundClip.overlapPolicy ?? trigger.overlapPolicy);
+          } else if (data.message) {
+            console.log("⏸️ Binding held back:", trigger.phrase, `(${data.message})`);
+          }
+        })
+        .catch(error => {
+          console.error("Error firing trigger from binding:", error);
+        });
+    };
+
+    return subscribeBindingInput((event) => {
+      const matched = dataRef.current.bindings.filter(binding => bindingMatches(binding, event));
+      matched.forEach(fire);
+      return matched.length > 0;
+    });
+  }, [playSound]);
+}
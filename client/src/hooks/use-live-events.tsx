@@ -0,0 +1,62 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { play } from "@/lib/playback-manager";
+import {
+  clientId,
+  getConnectionState,
+  getDeviceName,
+  getLiveRole,
+  isRemoteSpeaker,
+  setDeviceName,
+  setRemoteSpeaker,
+  subscribeConnectionState,
+  subscribeLiveEvents,
+} from "@/lib/live-events";
+import type { OverlapPolicy, SoundClip } from "@shared/schema";
+
+// Keeps this tab in step with the others: refetches whatever another tab changed, plays clips
+// pads send to it, and in remote speaker mode plays every clip fired anywhere else. Mounted once,
+// at the app root.
+export function useLiveEvents() {
+  useEffect(() => {
+    return subscribeLiveEvents(async (event) => {
+      if (event.type === "changed") {
+        event.resources.forEach(resource => {
+          queryClient.invalidateQueries({ queryKey: [`/api/${resource}`] });
+        });
+        return;
+      }
+
+      // Without an explicit overlap policy the clip's own applies
+      const playClip = async (soundClipId: number, reason: string, overlapPolicy?: OverlapPolicy | null) => {
+        const soundClips = await queryClient.fetchQuery<SoundClip[]>({ queryKey: ["/api/sound-clips"] });
+        const soundClip = soundClips.find(clip => clip.id === soundClipId);
+        if (soundClip) {
+          console.log(`🔊 ${reason}:`, soundClip.name);
+          play({
+            url: soundClip.url,
+            clipId: soundClip.id,
+            edits: soundClip,
+            overlapPolicy: overlapPolicy === undefined ? soundClip.overlapPolicy : overlapPolicy,
+          });
+        }
+      };
+
+      // The tab that fired a clip has already played it
+      if (event.type === "clip-played" && isRemoteSpeaker() && event.origin !== clientId) {
+        await playClip(event.soundClipId, "Remote speaker playing", event.overlapPolicy);
+      }
+
+      if (event.type === "play-request" && getLiveRole() === "host" && (event.target === null || event.target === clientId)) {
+        await playClip(event.soundClipId, "Playing clip from pad");
+      }
+    });
+  }, []);
+}
+
+export function useRemoteSpeaker() {
+  const connection = useSyncExternalStore(subscribeConnectionState, getConnectionState);
+  const enabled = useSyncExternalStore(subscribeConnectionState, isRemoteSpeaker);
+  const deviceName = useSyncExternalStore(subscribeConnectionState, getDeviceName);
+  return { enabled, setEnabled: setRemoteSpeaker, connection, deviceName, setDeviceName };
+}
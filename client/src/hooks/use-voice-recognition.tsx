@@ -1,45 +1,55 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAudioPlayer } from "./use-audio-player";
-import type { TriggerWord, SoundClip, Settings } from "@shared/schema";
-
-interface SpeechRecognitionEvent {
-  results: SpeechRecognitionResultList;
-  resultIndex: number;
-}
-
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  maxAlternatives?: number;
-  start(): void;
-  stop(): void;
-  onstart?: () => void;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: any) => void;
-  onend: () => void;
+import type { TriggerWord, SoundClip, Settings, TranscriptEvaluation, TranscriptInput } from "@shared/schema";
+import { matchTranscript, type RecognitionAlternative } from "@shared/trigger-matching";
+import { DEFAULT_RECOGNITION_LANGUAGE, recognitionLanguageCycle } from "@shared/recognition-language";
+import { createRecognitionEngine, type RecognitionEngine, type RecognitionUpdate } from "@/lib/recognition-engine";
+import { clientId } from "@/lib/live-events";
+import { CLIENT_ID_HEADER } from "@shared/events";
+
+// The reading that fired the most recent trigger, for display next to the transcript
+export interface TriggerMatchInfo {
+  phrase: string;
+  transcript: string;
+  confidence: number;
+  alternativeIndex: number; // 0 = the recognizer's top guess
 }
 
-declare global {
-  interface Window {
-    SpeechRecognition: new () => SpeechRecognition;
-    webkitSpeechRecognition: new () => SpeechRecognition;
-  }
+export interface UseVoiceRecognitionOptions {
+  // Use this engine instead of the one chosen in settings (e.g. a FakeRecognitionEngine in tests)
+  engine?: RecognitionEngine;
 }
 
-export function useVoiceRecognition() {
+export function useVoiceRecognition(options: UseVoiceRecognitionOptions = {}) {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState("");
   const [audioLevel, setAudioLevel] = useState(-42);
   const [isSupported, setIsSupported] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const [currentLanguage, setCurrentLanguage] = useState(DEFAULT_RECOGNITION_LANGUAGE);
+  const [lastMatch, setLastMatch] = useState<TriggerMatchInfo | null>(null);
+  // Engine of the current listening session; null when stopped
+  const engineRef = useRef<RecognitionEngine | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const triggerCooldownRef = useRef<Set<string>>(new Set());
-  const wordCountRef = useRef<number>(0);
+  // Pending default response, waiting out the silence window after the last final transcript
+  const defaultResponseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Recognition handlers outlive renders, so they read settings, triggers and clips through refs
+  // rather than a stale closure
+  const settingsRef = useRef<Settings | undefined>(undefined);
+  const triggerWordsRef = useRef<TriggerWord[]>([]);
+  const soundClipsRef = useRef<SoundClip[]>([]);
+  // Handlers are created once per startListening, so they check these refs instead of state
+  const listeningRef = useRef(false);
+  const currentLanguageRef = useRef(DEFAULT_RECOGNITION_LANGUAGE);
+  const languageIndexRef = useRef(0);
+  const rotateTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Early fire: per utterance id, the evaluations so far resolving to the triggers they matched.
+  // Each result of an utterance waits for the previous one, so the final result knows which
+  // triggers its interim results already fired and doesn't fire them again.
+  const utteranceChainRef = useRef<Map<string, Promise<Set<number>>>>(new Map());
   const { playSound } = useAudioPlayer();
 
   const { data: triggerWords = [] } = useQuery<TriggerWord[]>({
@@ -50,13 +60,60 @@ export function useVoiceRecognition() {
     queryKey: ["/api/sound-clips"],
   });
 
-  const { data: settings } = useQuery({
+  const { data: settings } = useQuery<Settings>({
     queryKey: ["/api/settings"],
   });
 
   useEffect(() => {
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    const supported = !!SpeechRecognition;
+    settingsRef.current = settings;
+  }, [settings]);
+
+  useEffect(() => {
+    triggerWordsRef.current = triggerWords;
+    soundClipsRef.current = soundClips;
+  }, [triggerWords, soundClips]);
+
+  const engineId = settings?.recognitionEngine ?? "web-speech";
+  const engine = useMemo(() => options.engine ?? createRecognitionEngine(engineId), [options.engine, engineId]);
+
+  const applyLanguage = useCallback((language: string) => {
+    currentLanguageRef.current = language;
+    setCurrentLanguage(language);
+    return language;
+  }, []);
+
+  // Move to the next language in the rotation. Reads the settings each time so a change made
+  // while listening applies at the next rotation.
+  const advanceLanguage = useCallback(() => {
+    const cycle = recognitionLanguageCycle(settingsRef.current);
+    languageIndexRef.current = (languageIndexRef.current + 1) % cycle.length;
+    return applyLanguage(cycle[languageIndexRef.current]);
+  }, [applyLanguage]);
+
+  const stopRotation = useCallback(() => {
+    if (rotateTimerRef.current) {
+      clearInterval(rotateTimerRef.current);
+      rotateTimerRef.current = null;
+    }
+  }, []);
+
+  const cancelPendingDefaultResponse = useCallback(() => {
+    if (defaultResponseTimerRef.current) {
+      clearTimeout(defaultResponseTimerRef.current);
+      defaultResponseTimerRef.current = null;
+    }
+  }, []);
+
+  // Fatal engine errors only flip the state; keep the ref and the rotation timer in step
+  useEffect(() => {
+    if (!isListening) {
+      listeningRef.current = false;
+      stopRotation();
+    }
+  }, [isListening, stopRotation]);
+
+  useEffect(() => {
+    const supported = engine.isSupported();
     
     // Detect mobile devices
     const isMobile = /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -65,24 +122,26 @@ export function useVoiceRecognition() {
     setIsSupported(supported);
     
     if (!supported) {
-      if (isMobile) {
+      if (engine.id === "local") {
+        setErrorMessage("This browser cannot stream microphone audio to the local recognizer.");
+      } else if (isMobile) {
         setErrorMessage("Voice recognition has limited support on mobile devices. Works best on desktop Chrome or Edge.");
       } else {
-        setErrorMessage("Speech recognition not supported in this browser. Use Chrome or Edge for best results.");
+        setErrorMessage("Speech recognition not supported in this browser. Use Chrome or Edge, or switch to the local recognizer in Settings.");
       }
     } else if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
       setErrorMessage("Microphone access not available. Please check browser permissions.");
-    } else if (isAndroid) {
+    } else if (isAndroid && engine.id === "web-speech") {
       setErrorMessage("Voice recognition may have limited functionality on Android. For best results, use desktop Chrome or Edge.");
     } else {
       setErrorMessage("");
     }
     
-    console.log("Voice recognition support:", supported);
+    console.log("Voice recognition engine:", engine.id, "supported:", supported);
     console.log("Is mobile device:", isMobile);
     console.log("Is Android:", isAndroid);
     console.log("User agent:", navigator.userAgent);
-  }, []);
+  }, [engine]);
 
   const initializeAudioAnalyzer = useCallback(async () => {
     try {
@@ -159,74 +218,122 @@ export function useVoiceRecognition() {
     }
   }, [isListening]);
 
-  const checkForTriggerWords = useCallback((text: string) => {
-    const lowerText = text.toLowerCase();
-    let triggerMatched = false;
-    
-    triggerWords.forEach((trigger) => {
-      if (!trigger.enabled) return;
-      
-      const phrase = trigger.caseSensitive ? trigger.phrase : trigger.phrase.toLowerCase();
-      const searchText = trigger.caseSensitive ? text : lowerText;
-      
-      if (searchText.includes(phrase)) {
-        triggerMatched = true;
-        
-        // Implement cooldown to prevent rapid repeated triggers
-        const cooldownKey = `${trigger.id}-${phrase}`;
-        if (triggerCooldownRef.current.has(cooldownKey)) return;
-        
-        triggerCooldownRef.current.add(cooldownKey);
-        setTimeout(() => {
-          triggerCooldownRef.current.delete(cooldownKey);
-        }, 2000); // 2 second cooldown
-        
-        // Get the next sound clip for this trigger (handles cycling through multiple clips)
-        fetch(`/api/trigger-words/${trigger.id}/next-sound-clip`)
+  // When the server can't be reached, match locally and play each trigger's first clip. Cooldowns,
+  // rate limits and clip cycling live on the server, so they don't apply here.
+  const evaluateLocally = useCallback((input: TranscriptInput): TranscriptEvaluation => {
+    const alternatives = input.alternatives || [];
+    const alreadyFired = new Set(input.alreadyFired || []);
+    const found = matchTranscript(alternatives, triggerWordsRef.current, { language: input.language, interim: input.interim });
+    const evaluation: TranscriptEvaluation = { matches: [], play: [], defaultResponseEligible: false };
+    for (const { trigger, alternative, index, matchedText } of found) {
+      const fired = alreadyFired.has(trigger.id);
+      const soundClipId = !fired && trigger.soundClipIds?.length ? trigger.soundClipIds[0] : null;
+      evaluation.matches.push({
+        triggerId: trigger.id,
+        phrase: trigger.phrase,
+        matchedText,
+        transcript: alternative.transcript,
+        confidence: alternative.confidence,
+        alternativeIndex: index,
+        soundClipId,
+        ...(fired ? { alreadyFired: true } : {}),
+      });
+      if (soundClipId !== null) {
+        evaluation.play.push({ soundClipId, triggerId: trigger.id, overlapPolicy: trigger.overlapPolicy });
+      }
+    }
+    return evaluation;
+  }, []);
+
+  // Alternatives are the recognizer's readings of one utterance, best first. The server matches
+  // them against the triggers, applies cooldowns and the rate limit, advances clip cycling and
+  // answers with the clips to play. Interim checks only consider early-fire triggers and never
+  // schedule the default response. Triggers in alreadyFired count as matched but are not fired
+  // again. Resolves to the ids of the triggers that matched.
+  const checkForTriggerWords = useCallback(async (
+    alternatives: RecognitionAlternative[],
+    { interim = false, alreadyFired = new Set<number>() }: { interim?: boolean; alreadyFired?: Set<number> } = {},
+  ): Promise<number[]> => {
+    const input: TranscriptInput = {
+      transcript: alternatives[0]?.transcript || "",
+      alternatives,
+      language: currentLanguageRef.current,
+      interim,
+      alreadyFired: Array.from(alreadyFired),
+    };
+
+    let response: Response | null = null;
+    try {
+      response = await fetch("/api/transcripts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", [CLIENT_ID_HEADER]: clientId },
+        body: JSON.stringify(input),
+      });
+    } catch (error) {
+      console.error("Error evaluating transcript:", error);
+    }
+
+    let evaluation: TranscriptEvaluation;
+    if (!response) {
+      evaluation = evaluateLocally(input);
+    } else if (!response.ok) {
+      // The server answered but refused (bad input, rate limited). Matching locally would get
+      // around its limits, so nothing plays.
+      console.warn(`Transcript not evaluated: ${response.status} ${response.statusText}`);
+      return [];
+    } else {
+      evaluation = await response.json();
+    }
+
+    const fresh = evaluation.matches.find(match => !match.alreadyFired);
+    if (fresh) {
+      setLastMatch({
+        phrase: fresh.phrase,
+        transcript: fresh.transcript,
+        confidence: fresh.confidence,
+        alternativeIndex: fresh.alternativeIndex,
+      });
+    }
+    for (const match of evaluation.matches) {
+      if (match.blocked) {
+        console.log("⏸️ Trigger matched but held back:", match.phrase, `(${match.blocked.reason}, retry in ${match.blocked.retryAfterMs}ms)`);
+      }
+    }
+
+    for (const entry of evaluation.play) {
+      const soundClip = soundClipsRef.current.find(clip => clip.id === entry.soundClipId);
+      const match = evaluation.matches.find(m => m.triggerId === entry.triggerId);
+      if (soundClip) {
+        console.log("🎯 Trigger matched:", match?.phrase, `("${match?.matchedText}")`, "-> Playing cycling sound:", soundClip.name);
+        playSound(soundClip.url, soundClip.id, { edits: soundClip, overlapPolicy: entry.overlapPolicy });
+      }
+    }
+
+    // No trigger matched: schedule the default response once the speaker has been quiet for the
+    // configured delay. Any new speech before then cancels it (see onresult).
+    if (evaluation.defaultResponseEligible) {
+      cancelPendingDefaultResponse();
+      defaultResponseTimerRef.current = setTimeout(() => {
+        defaultResponseTimerRef.current = null;
+
+        // Let the server pick the default clip so its playback order (sequential, shuffle, ...) is honored
+        fetch("/api/settings/next-default-response", { headers: { [CLIENT_ID_HEADER]: clientId } })
           .then(response => response.json())
           .then(data => {
-            if (data.soundClipId) {
-              const soundClip = soundClips.find(clip => clip.id === data.soundClipId);
-              if (soundClip) {
-                console.log("🎯 Trigger matched:", phrase, "-> Playing cycling sound:", soundClip.name);
-                playSound(soundClip.url, soundClip.id, 0.75);
-              }
+            const defaultClip = soundClipsRef.current.find(clip => clip.id === data.soundClipId);
+            if (defaultClip) {
+              console.log("🔄 No trigger matched, playing default clip:", defaultClip.name);
+              playSound(defaultClip.url, defaultClip.id, { edits: defaultClip, overlapPolicy: defaultClip.overlapPolicy });
             }
           })
           .catch(error => {
-            console.error("Error getting next sound clip:", error);
-            // Fallback: use first sound clip from soundClipIds array if API fails
-            if (trigger.soundClipIds && trigger.soundClipIds.length > 0) {
-              const soundClip = soundClips.find(clip => clip.id === trigger.soundClipIds[0]);
-              if (soundClip) {
-                console.log("🎯 Trigger matched:", phrase, "-> Playing fallback sound:", soundClip.name);
-                playSound(soundClip.url, soundClip.id, 0.75);
-              }
-            }
+            console.error("Error getting next default response:", error);
           });
-      }
-    });
-
-    // Check for default clips response if no triggers matched and speech was detected
-    if (!triggerMatched && text.trim().length > 0) {
-      const defaultClips = soundClips.filter(clip => clip.isDefault);
-      
-      if (defaultClips.length > 0) {
-        const cooldownKey = "default-clips-response";
-        if (!triggerCooldownRef.current.has(cooldownKey)) {
-          triggerCooldownRef.current.add(cooldownKey);
-          setTimeout(() => {
-            triggerCooldownRef.current.delete(cooldownKey);
-          }, 1000); // 1 second cooldown for faster responses
-
-          // Play random default clip immediately
-          const randomClip = defaultClips[Math.floor(Math.random() * defaultClips.length)];
-          console.log("🔄 No trigger matched, playing random default clip:", randomClip.name);
-          playSound(randomClip.url, randomClip.id, 0.75);
-        }
-      }
+      }, settingsRef.current?.defaultResponseDelay ?? 2000);
     }
-  }, [triggerWords, soundClips, playSound, settings]);
+
+    return evaluation.matches.map(match => match.triggerId);
+  }, [playSound, cancelPendingDefaultResponse, evaluateLocally]);
 
   const startListening = useCallback(async (): Promise<boolean> => {
     if (!isSupported) {
@@ -236,45 +343,22 @@ export function useVoiceRecognition() {
 
     try {
       console.log("Starting voice recognition...");
-      await initializeAudioAnalyzer();
+      // The scripted engine needs no microphone (and tests have none)
+      if (engine.id !== "fake") {
+        await initializeAudioAnalyzer();
+      }
 
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      const recognition = new SpeechRecognition();
-      
-      // Detect mobile for optimized speech recognition settings
+      // Detect mobile for haptic feedback on trigger matches
       const isMobile = /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-      const isAndroid = /Android/i.test(navigator.userAgent);
-      
-      // Mobile-optimized settings
-      recognition.continuous = !isMobile; // Use non-continuous on mobile for better stability
-      recognition.interimResults = true;
-      recognition.lang = "en-US";
-      
-      // Android-specific optimizations
-      if (isAndroid) {
-        recognition.maxAlternatives = 1; // Reduce alternatives for better performance
-        console.log("Applied Android-specific optimizations");
-      }
-      
-      console.log("Speech recognition settings - Mobile:", isMobile, "Continuous:", recognition.continuous);
 
-      recognition.onstart = () => {
-        console.log("Speech recognition started");
-        setErrorMessage("");
-      };
+      const handleResults = (updates: RecognitionUpdate[]) => {
+        // The speaker is still talking, so the silence window for a default response starts over
+        cancelPendingDefaultResponse();
 
-      recognition.onresult = (event: SpeechRecognitionEvent) => {
-        let finalTranscript = "";
-        let interimTranscript = "";
-
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const transcript = event.results[i][0].transcript;
-          if (event.results[i].isFinal) {
-            finalTranscript += transcript;
-          } else {
-            interimTranscript += transcript;
-          }
-        }
+        const finals = updates.filter(update => update.isFinal);
+        const interims = updates.filter(update => !update.isFinal);
+        const finalTranscript = finals.map(update => update.alternatives[0]?.transcript || "").join("");
+        const interimTranscript = interims.map(update => update.alternatives[0]?.transcript || "").join("");
 
         const fullTranscript = finalTranscript || interimTranscript;
         setTranscript(fullTranscript);
@@ -282,171 +366,74 @@ export function useVoiceRecognition() {
         console.log("📝 Final transcript:", finalTranscript);
         console.log("⏳ Interim transcript:", interimTranscript);
 
-        if (finalTranscript) {
-          console.log("🔍 Checking for trigger words in:", finalTranscript);
-          checkForTriggerWords(finalTranscript);
-          
-          // Count words and restart every 20 words to prevent timeout
-          const words = finalTranscript.trim().split(/\s+/).filter(word => word.length > 0);
-          wordCountRef.current += words.length;
-          console.log(`📊 Word count: ${wordCountRef.current} (added ${words.length} words)`);
-          
-          // Restart recognition every 10 words to prevent stopping
-          if (wordCountRef.current >= 10) {
-            console.log("🔄 Restarting voice recognition after 10 words to prevent timeout");
-            wordCountRef.current = 0; // Reset word count
-            
-            // Stop and restart recognition with a brief delay
-            setTimeout(() => {
-              if (isListening && recognitionRef.current === recognition) {
-                try {
-                  recognition.stop();
-                  // The onend handler will automatically restart it
-                } catch (e) {
-                  console.error("Failed to restart recognition:", e);
-                }
-              }
-            }, 100);
+        // Queue an evaluation behind the earlier ones of the same utterance
+        const evaluateInOrder = (update: RecognitionUpdate, interim: boolean) => {
+          const chain = utteranceChainRef.current;
+          const previous = chain.get(update.utteranceId) || Promise.resolve(new Set<number>());
+          const next = previous.then(async (fired) => {
+            const matched = await checkForTriggerWords(update.alternatives, { interim, alreadyFired: fired });
+            return new Set([...Array.from(fired), ...matched]);
+          });
+          if (interim) {
+            chain.set(update.utteranceId, next);
+          } else {
+            chain.delete(update.utteranceId);
           }
-          
-          // Mobile optimization: provide haptic feedback when trigger words are detected
-          if (isMobile && navigator.vibrate) {
-            // Check if any trigger word was matched (simplified check)
-            const lowerText = finalTranscript.toLowerCase();
-            const hasMatch = triggerWords.some(trigger => 
-              trigger.enabled && lowerText.includes(trigger.caseSensitive ? trigger.phrase : trigger.phrase.toLowerCase())
-            );
-            if (hasMatch) {
-              navigator.vibrate(200); // Trigger detected vibration
-            }
+          return next;
+        };
+
+        // Early fire: check interim results of each pending utterance, but only when some
+        // trigger could fire from them
+        if (triggerWordsRef.current.some(trigger => trigger.enabled && trigger.earlyFire)) {
+          for (const update of interims) {
+            evaluateInOrder(update, true);
           }
         }
-      };
 
-      recognition.onerror = (event) => {
-        console.error("Speech recognition error:", event.error, event);
-        switch (event.error) {
-          case "not-allowed":
-            setErrorMessage("Microphone permission denied. Please allow microphone access.");
-            setIsListening(false);
-            break;
-          case "no-speech":
-            console.log("No speech detected, continuing to listen...");
-            // Don't stop listening for no-speech, it's normal
-            break;
-          case "audio-capture":
-            setErrorMessage("Audio capture failed. Check your microphone.");
-            setIsListening(false);
-            break;
-          case "network":
-            setErrorMessage("Network error. Check your internet connection.");
-            setIsListening(false);
-            break;
-          case "aborted":
-            console.log("Speech recognition was aborted, attempting to restart...");
-            // Try to restart after a brief delay
-            setTimeout(() => {
-              if (isListening) {
-                try {
-                  recognition.start();
-                  wordCountRef.current = 0; // Reset word count on abort restart
-                } catch (e) {
-                  console.error("Failed to restart after abort:", e);
-                  setErrorMessage("Speech recognition stopped. If it stops responding, click Stop and Start again.");
-                  setIsListening(false);
-                }
-              }
-            }, 500);
-            break;
-          default:
-            console.log(`Speech recognition error: ${event.error}, attempting to continue...`);
-            // For other errors, try to continue unless critical
-            if (event.error === "service-not-allowed" || event.error === "language-not-supported") {
-              setErrorMessage(`Speech recognition error: ${event.error}`);
-              setIsListening(false);
+        for (const update of finals) {
+          console.log("🔍 Checking for trigger words in:", update.alternatives);
+          evaluateInOrder(update, false).then((matched) => {
+            // Mobile optimization: provide haptic feedback when trigger words are detected
+            if (isMobile && navigator.vibrate && matched.size > 0) {
+              navigator.vibrate(200); // Trigger detected vibration
             }
+          });
         }
       };
 
-      recognition.onend = () => {
-        console.log("Speech recognition ended");
-        
-        // Only restart if we're still supposed to be listening and haven't been manually stopped
-        if (isListening && recognitionRef.current === recognition) {
-          console.log("Automatically restarting speech recognition to maintain continuous listening...");
-          
-          // Different restart strategies for mobile vs desktop
-          const restartDelay = isMobile ? 300 : 100; // Minimal delay for fastest restart
-          
-          setTimeout(() => {
-            // Double-check we should still be listening
-            if (isListening && recognitionRef.current === recognition) {
-              try {
-                // Create new recognition instance to avoid any state issues
-                const newRecognition = new SpeechRecognition();
-                newRecognition.continuous = !isMobile;
-                newRecognition.interimResults = true;
-                newRecognition.lang = "en-US";
-                
-                if (isAndroid) {
-                  newRecognition.maxAlternatives = 1;
-                }
-                
-                // Copy all the event handlers
-                newRecognition.onstart = recognition.onstart;
-                newRecognition.onresult = recognition.onresult;
-                newRecognition.onerror = recognition.onerror;
-                newRecognition.onend = recognition.onend;
-                
-                newRecognition.start();
-                recognitionRef.current = newRecognition;
-                wordCountRef.current = 0; // Reset word count on restart
-                console.log("Successfully restarted speech recognition");
-              } catch (e) {
-                console.error("Failed to restart recognition:", e);
-                
-                // Fallback retry with minimal delay
-                const fallbackDelay = isMobile ? 500 : 200;
-                setTimeout(() => {
-                  if (isListening && recognitionRef.current === recognition) {
-                    try {
-                      const fallbackRecognition = new SpeechRecognition();
-                      fallbackRecognition.continuous = !isMobile;
-                      fallbackRecognition.interimResults = true;
-                      fallbackRecognition.lang = "en-US";
-                      
-                      // Copy handlers again
-                      fallbackRecognition.onstart = recognition.onstart;
-                      fallbackRecognition.onresult = recognition.onresult;
-                      fallbackRecognition.onerror = recognition.onerror;
-                      fallbackRecognition.onend = recognition.onend;
-                      
-                      fallbackRecognition.start();
-                      recognitionRef.current = fallbackRecognition;
-                      wordCountRef.current = 0; // Reset word count on fallback restart
-                      console.log("Fallback restart successful");
-                    } catch (e2) {
-                      console.error("Failed fallback restart:", e2);
-                      setErrorMessage(isMobile 
-                        ? "Voice recognition stopped. If it stops responding, tap Stop and Start again." 
-                        : "Voice recognition stopped. If it stops responding, click Stop and Start again."
-                      );
-                      setIsListening(false);
-                    }
-                  }
-                }, fallbackDelay);
-              }
+      languageIndexRef.current = 0;
+      utteranceChainRef.current.clear();
+      await engine.start(
+        {
+          language: applyLanguage(recognitionLanguageCycle(settingsRef.current)[0]),
+          // Extra readings let a trigger fire when the top guess mishears it (1 is lightest on mobile)
+          maxAlternatives: settingsRef.current?.recognitionMaxAlternatives ?? 3,
+          stream: streamRef.current,
+        },
+        {
+          onStart: () => setErrorMessage(""),
+          onResult: handleResults,
+          onError: ({ message, fatal }) => {
+            if (fatal) {
+              engineRef.current = null;
+              setErrorMessage(message);
+              setIsListening(false);
             }
-          }, restartDelay);
-        } else {
-          console.log("Speech recognition ended - not restarting (manually stopped or different instance)");
-        }
-      };
-
-      recognition.start();
-      recognitionRef.current = recognition;
-      wordCountRef.current = 0; // Reset word count when starting
+          },
+        },
+      );
+      engineRef.current = engine;
+      listeningRef.current = true;
       setIsListening(true);
+
+      // Rotating languages: switch the engine to the next language every few seconds
+      stopRotation();
+      const rotateSeconds = settingsRef.current?.recognitionRotateSeconds ?? 8;
+      rotateTimerRef.current = setInterval(() => {
+        if (recognitionLanguageCycle(settingsRef.current).length > 1 && engineRef.current) {
+          engineRef.current.setLanguage(advanceLanguage());
+        }
+      }, rotateSeconds * 1000);
       console.log("Voice recognition initialized successfully");
       return true;
     } catch (error: any) {
@@ -455,19 +442,18 @@ export function useVoiceRecognition() {
       setIsListening(false);
       return false;
     }
-  }, [isSupported, initializeAudioAnalyzer, checkForTriggerWords, isListening]);
+  }, [isSupported, engine, initializeAudioAnalyzer, checkForTriggerWords, cancelPendingDefaultResponse, applyLanguage, advanceLanguage, stopRotation]);
 
   const stopListening = useCallback(() => {
     console.log("Stopping voice recognition...");
+    cancelPendingDefaultResponse();
+    stopRotation();
+    listeningRef.current = false;
     
     // Stop speech recognition first
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.stop();
-      } catch (e) {
-        console.log("Recognition already stopped");
-      }
-      recognitionRef.current = null;
+    if (engineRef.current) {
+      engineRef.current.stop();
+      engineRef.current = null;
     }
 
     // Clean up audio resources
@@ -495,10 +481,11 @@ export function useVoiceRecognition() {
     setAudioLevel(-42);
     setErrorMessage("");
     console.log("Voice recognition stopped and cleaned up");
-  }, []);
+  }, [cancelPendingDefaultResponse, stopRotation]);
 
   const clearTranscript = useCallback(() => {
     setTranscript("");
+    setLastMatch(null);
   }, []);
 
 
@@ -516,6 +503,8 @@ export function useVoiceRecognition() {
     audioLevel,
     isSupported,
     errorMessage,
+    currentLanguage,
+    lastMatch,
     startListening,
     stopListening,
     clearTranscript,
@@ -0,0 +1,164 @@
+import { resolveClipEdits, type ClipEdits } from "@shared/clip-edits";
+
+// Shared Web Audio engine every playback path goes through:
+//   clip sources -> per-clip gain -> master gain -> limiter -> output
+// One context means master volume and the output device apply to every sound, including
+// ones started after the setting changed. Decoded buffers are cached by URL so repeat
+// triggers start without refetching.
+
+const OUTPUT_DEVICE_KEY = "audioOutputDeviceId";
+
+interface Engine {
+  context: AudioContext;
+  masterGain: GainNode;
+  limiter: DynamicsCompressorNode;
+  // Fallback route for browsers without AudioContext.setSinkId: stream into an <audio> element
+  sinkElement: HTMLAudioElement | null;
+}
+
+// Chrome 110+ can route a whole AudioContext; not yet in the TypeScript DOM typings
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+let engine: Engine | null = null;
+let masterVolume = 1;
+const bufferCache = new Map<string, Promise<AudioBuffer>>();
+
+function getEngine(): Engine {
+  if (!engine) {
+    const context = new AudioContext();
+    const masterGain = context.createGain();
+    masterGain.gain.value = masterVolume;
+
+    // Brick-wall style limiter so stacked gain edits and normalization can't clip the output
+    const limiter = context.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.003;
+    limiter.release.value = 0.1;
+
+    masterGain.connect(limiter).connect(context.destination);
+    engine = { context, masterGain, limiter, sinkElement: null };
+
+    const savedDevice = getOutputDeviceId();
+    if (savedDevice) {
+      setOutputDevice(savedDevice).catch((error) => {
+        console.warn("Could not restore audio output device, using the default:", error);
+      });
+    }
+  }
+  return engine;
+}
+
+export function getAudioContext(): AudioContext {
+  const { context } = getEngine();
+  // Browsers start the context suspended until a user gesture; resume on every use
+  if (context.state === "suspended") {
+    context.resume().catch(() => {});
+  }
+  return context;
+}
+
+export function getMasterVolume(): number {
+  return masterVolume;
+}
+
+// 0..1, applied to everything currently playing as well as future sounds
+export function setMasterVolume(volume: number) {
+  masterVolume = Math.max(0, Math.min(1, volume));
+  if (engine) {
+    engine.masterGain.gain.setTargetAtTime(masterVolume, engine.context.currentTime, 0.02);
+  }
+}
+
+// Output device IDs are specific to this browser and machine, so they live in localStorage
+// rather than the shared settings record
+export function getOutputDeviceId(): string {
+  return localStorage.getItem(OUTPUT_DEVICE_KEY) || "";
+}
+
+export async function setOutputDevice(deviceId: string): Promise<void> {
+  const current = getEngine();
+  const context = current.context as SinkableAudioContext;
+
+  if (typeof context.setSinkId === "function") {
+    await context.setSinkId(deviceId);
+  } else if (deviceId) {
+    if (typeof HTMLMediaElement.prototype.setSinkId !== "function") {
+      throw new Error("This browser does not support choosing an audio output device");
+    }
+    if (!current.sinkElement) {
+      const streamDestination = current.context.createMediaStreamDestination();
+      current.limiter.disconnect();
+      current.limiter.connect(streamDestination);
+      current.sinkElement = new Audio();
+      current.sinkElement.srcObject = streamDestination.stream;
+    }
+    await current.sinkElement.setSinkId(deviceId);
+    await current.sinkElement.play();
+  } else if (current.sinkElement) {
+    // Back to the default device: drop the element route
+    current.sinkElement.pause();
+    current.sinkElement = null;
+    current.limiter.disconnect();
+    current.limiter.connect(current.context.destination);
+  }
+
+  if (deviceId) {
+    localStorage.setItem(OUTPUT_DEVICE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(OUTPUT_DEVICE_KEY);
+  }
+}
+
+export async function listOutputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === "audiooutput" && device.deviceId !== "default");
+}
+
+export function loadAudioBuffer(url: string): Promise<AudioBuffer> {
+  let buffer = bufferCache.get(url);
+  if (!buffer) {
+    buffer = fetch(url)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load audio: ${response.status}`);
+        }
+        return response.arrayBuffer();
+      })
+      .then((data) => getAudioContext().decodeAudioData(data));
+    // Don't cache failures, so a later attempt can retry
+    buffer.catch(() => bufferCache.delete(url));
+    bufferCache.set(url, buffer);
+  }
+  return buffer;
+}
+
+// Schedule a buffer to play now with the given edits. Returns the source so the caller can stop it.
+export function playBuffer(buffer: AudioBuffer, edits: ClipEdits = {}, volume: number = 1): AudioBufferSourceNode {
+  const context = getAudioContext();
+  const { masterGain } = getEngine();
+  const { start, length, fadeIn, fadeOut, gain } = resolveClipEdits(edits, buffer.duration);
+  const level = Math.max(0, volume) * gain;
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const gainNode = context.createGain();
+  source.connect(gainNode).connect(masterGain);
+
+  const now = context.currentTime;
+  gainNode.gain.setValueAtTime(fadeIn > 0 ? 0 : level, now);
+  if (fadeIn > 0) {
+    gainNode.gain.linearRampToValueAtTime(level, now + fadeIn);
+  }
+  if (fadeOut > 0) {
+    gainNode.gain.setValueAtTime(level, now + length - fadeOut);
+    gainNode.gain.linearRampToValueAtTime(0, now + length);
+  }
+
+  source.start(now, start, length);
+  return source;
+}
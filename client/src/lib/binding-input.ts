@@ -0,0 +1,122 @@
+import { parseMidiMessage, SHORTCUT_MODIFIERS, type BindingEvent } from "@shared/bindings";
+
+// Turns key presses and Web MIDI messages into BindingEvents for the whole tab. In learn mode the
+// next input goes to the learner instead of firing bindings. Module-level so there is one
+// keydown listener and one MIDI connection however many components care.
+
+// Return true when the event fired something, so the browser's default for the key is suppressed
+export type BindingInputListener = (event: BindingEvent) => boolean;
+
+export type MidiState = "unsupported" | "off" | "requesting" | "on" | "denied";
+
+const listeners = new Set<BindingInputListener>();
+const midiStateListeners = new Set<() => void>();
+// Called with the learned input, or null when learning is cancelled with Escape
+let learner: ((event: BindingEvent | null) => void) | null = null;
+let midiState: MidiState = typeof navigator !== "undefined" && "requestMIDIAccess" in navigator ? "off" : "unsupported";
+
+const MODIFIER_CODES = /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/;
+
+// "Ctrl+Shift+KeyA"; null while only modifiers are held
+export function shortcutFromKeyboardEvent(event: KeyboardEvent): string | null {
+  if (!event.code || MODIFIER_CODES.test(event.code)) return null;
+  const held = [event.ctrlKey, event.altKey, event.shiftKey, event.metaKey];
+  const modifiers = SHORTCUT_MODIFIERS.filter((_, index) => held[index]);
+  return [...modifiers, event.code].join("+");
+}
+
+// Typing in a form must not fire clips
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function dispatch(event: BindingEvent): boolean {
+  if (learner) {
+    const learn = learner;
+    learner = null;
+    learn(event);
+    return true;
+  }
+  let handled = false;
+  listeners.forEach(listener => {
+    handled = listener(event) || handled;
+  });
+  return handled;
+}
+
+function handleKeyDown(event: KeyboardEvent) {
+  if (event.repeat || (!learner && isTypingTarget(event.target))) return;
+  // Escape cancels learning rather than being learned
+  if (learner && event.code === "Escape") {
+    const learn = learner;
+    learner = null;
+    learn(null);
+    event.preventDefault();
+    return;
+  }
+  const shortcut = shortcutFromKeyboardEvent(event);
+  if (shortcut && dispatch({ input: "keyboard", shortcut })) {
+    event.preventDefault();
+  }
+}
+
+function handleMidiMessage(message: MIDIMessageEvent) {
+  const event = message.data ? parseMidiMessage(message.data) : null;
+  if (event) dispatch(event);
+}
+
+function setMidiState(next: MidiState) {
+  midiState = next;
+  midiStateListeners.forEach(listener => listener());
+}
+
+// Ask for MIDI access once; devices plugged in later are picked up as they connect
+export async function enableMidi(): Promise<void> {
+  if (midiState !== "off") return;
+  setMidiState("requesting");
+  try {
+    const access = await navigator.requestMIDIAccess();
+    const attach = () => access.inputs.forEach(input => {
+      input.onmidimessage = handleMidiMessage;
+    });
+    attach();
+    access.onstatechange = attach;
+    setMidiState("on");
+  } catch (error) {
+    console.error("MIDI access denied:", error);
+    setMidiState("denied");
+  }
+}
+
+export function subscribeBindingInput(listener: BindingInputListener): () => void {
+  if (listeners.size === 0) {
+    window.addEventListener("keydown", handleKeyDown);
+  }
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      window.removeEventListener("keydown", handleKeyDown);
+    }
+  };
+}
+
+// Hand the next key press or MIDI control to callback instead of firing bindings. Escape
+// cancels and calls back with null. Returns a function that cancels learning silently.
+export function learnNextInput(callback: (event: BindingEvent | null) => void): () => void {
+  learner = callback;
+  void enableMidi();
+  return () => {
+    if (learner === callback) learner = null;
+  };
+}
+
+export function subscribeMidiState(listener: () => void): () => void {
+  midiStateListeners.add(listener);
+  return () => midiStateListeners.delete(listener);
+}
+
+export function getMidiState(): MidiState {
+  return midiState;
+}
@@ -0,0 +1,84 @@
+import type { RecognitionAlternative } from "@shared/trigger-matching";
+import type {
+  RecognitionEngine,
+  RecognitionEngineHandlers,
+  RecognitionStartOptions,
+  RecognitionUpdate,
+} from "@/lib/recognition-engine";
+
+// Scripted engine for tests and demos: plays back a list of utterances on timers, or lets the
+// caller push results by hand with say()/fail(). Needs no microphone and no network.
+//
+//   const engine = new FakeRecognitionEngine([
+//     { interim: ["air"], text: "air horn", delayMs: 100 },
+//     { text: [{ transcript: "bad joke", confidence: 0.4 }, { transcript: "dad joke", confidence: 0.3 }] },
+//   ]);
+//   useVoiceRecognition({ engine });
+
+export interface ScriptedUtterance {
+  text: string | RecognitionAlternative[]; // final reading(s); a plain string gets confidence 1
+  interim?: string[]; // interim transcripts sent before the final one
+  delayMs?: number; // wait before this utterance starts, default 0
+}
+
+export class FakeRecognitionEngine implements RecognitionEngine {
+  readonly id = "fake";
+  // Every language the engine was started in or switched to, in order
+  readonly languages: string[] = [];
+  private handlers: RecognitionEngineHandlers | null = null;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private utterance = 0;
+
+  constructor(private script: ScriptedUtterance[] = []) {}
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  get isRunning(): boolean {
+    return this.handlers !== null;
+  }
+
+  async start(options: RecognitionStartOptions, handlers: RecognitionEngineHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.languages.push(options.language);
+    handlers.onStart?.();
+
+    let at = 0;
+    for (const utterance of this.script) {
+      at += utterance.delayMs ?? 0;
+      this.timers.push(setTimeout(() => this.say(utterance), at));
+    }
+  }
+
+  setLanguage(language: string) {
+    this.languages.push(language);
+  }
+
+  stop() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    this.handlers = null;
+  }
+
+  // Deliver one utterance immediately: its interim transcripts, then the final result
+  say(utterance: ScriptedUtterance | string) {
+    const { text, interim = [] } = typeof utterance === "string" ? { text: utterance } : utterance;
+    const utteranceId = `fake:${++this.utterance}`;
+    for (const transcript of interim) {
+      this.emit({ utteranceId, isFinal: false, alternatives: [{ transcript, confidence: 0 }] });
+    }
+    const alternatives = typeof text === "string" ? [{ transcript: text, confidence: 1 }] : text;
+    this.emit({ utteranceId, isFinal: true, alternatives });
+  }
+
+  emit(update: RecognitionUpdate) {
+    this.handlers?.onResult([update]);
+  }
+
+  fail(message: string, fatal: boolean = true) {
+    const handlers = this.handlers;
+    if (fatal) this.stop();
+    handlers?.onError({ message, fatal });
+  }
+}
@@ -0,0 +1,151 @@
+import { EVENTS_PATH, type LiveClientMessage, type LiveEvent, type LiveRole } from "@shared/events";
+
+// One shared WebSocket to the server's event bus (server/event-bus.ts) for the whole tab. It
+// reconnects with backoff after drops, since phones and laptops lose the connection when they sleep.
+
+export type LiveConnectionState = "connecting" | "open" | "closed";
+
+// Identifies this tab in play events and the device list. Not a secret, and crypto.randomUUID needs a secure
+// context, which a LAN address over plain http is not.
+export const clientId = Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+const REMOTE_SPEAKER_KEY = "remoteSpeaker";
+const DEVICE_NAME_KEY = "deviceName";
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+let socket: WebSocket | null = null;
+let state: LiveConnectionState = "closed";
+let reconnectDelay = 1000;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let role: LiveRole = "host";
+const eventListeners = new Set<(event: LiveEvent) => void>();
+const stateListeners = new Set<() => void>();
+
+function setState(next: LiveConnectionState) {
+  state = next;
+  stateListeners.forEach(listener => listener());
+}
+
+// A readable default, e.g. "Android Chrome"; the user can rename the device in the audio settings
+function defaultDeviceName(): string {
+  const agent = navigator.userAgent;
+  const platform = /Android/i.test(agent) ? "Android"
+    : /iPhone|iPad|iPod/i.test(agent) ? "iOS"
+    : /Mac/i.test(agent) ? "Mac"
+    : /Windows/i.test(agent) ? "Windows"
+    : /Linux/i.test(agent) ? "Linux"
+    : "Device";
+  const browser = /Edg\//.test(agent) ? "Edge"
+    : /Firefox\//.test(agent) ? "Firefox"
+    : /Chrome\//.test(agent) ? "Chrome"
+    : /Safari\//.test(agent) ? "Safari"
+    : "Browser";
+  return `${platform} ${browser}`;
+}
+
+export function getDeviceName(): string {
+  return localStorage.getItem(DEVICE_NAME_KEY) || defaultDeviceName();
+}
+
+function sendHello() {
+  if (socket?.readyState === WebSocket.OPEN) {
+    const message: LiveClientMessage = { type: "hello", clientId, name: getDeviceName(), role };
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function connect() {
+  const url = new URL(EVENTS_PATH, window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  socket = new WebSocket(url);
+  setState("connecting");
+
+  socket.onopen = () => {
+    reconnectDelay = 1000;
+    sendHello();
+    setState("open");
+  };
+  socket.onmessage = (message) => {
+    let event: LiveEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch {
+      return;
+    }
+    eventListeners.forEach(listener => listener(event));
+  };
+  socket.onclose = () => {
+    socket = null;
+    setState("closed");
+    if (eventListeners.size > 0) {
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    }
+  };
+}
+
+function disconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    socket.onclose = null;
+    socket.close();
+    socket = null;
+  }
+  setState("closed");
+}
+
+// The connection stays open while anything is listening
+export function subscribeLiveEvents(listener: (event: LiveEvent) => void): () => void {
+  eventListeners.add(listener);
+  if (!socket && !reconnectTimer) {
+    connect();
+  }
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0) {
+      disconnect();
+    }
+  };
+}
+
+export function subscribeConnectionState(listener: () => void): () => void {
+  stateListeners.add(listener);
+  return () => stateListeners.delete(listener);
+}
+
+export function getConnectionState(): LiveConnectionState {
+  return state;
+}
+
+// Remote speaker mode is per device, so it lives in localStorage rather than the shared settings
+export function isRemoteSpeaker(): boolean {
+  return localStorage.getItem(REMOTE_SPEAKER_KEY) === "true";
+}
+
+export function setRemoteSpeaker(enabled: boolean) {
+  localStorage.setItem(REMOTE_SPEAKER_KEY, String(enabled));
+  stateListeners.forEach(listener => listener());
+}
+
+export function setDeviceName(name: string) {
+  localStorage.setItem(DEVICE_NAME_KEY, name.trim());
+  sendHello();
+  stateListeners.forEach(listener => listener());
+}
+
+export function getLiveRole(): LiveRole {
+  return role;
+}
+
+// The pad page switches this tab to "pad" while it is open, so it isn't offered as a host
+export function setLiveRole(next: LiveRole) {
+  if (role === next) return;
+  role = next;
+  sendHello();
+}
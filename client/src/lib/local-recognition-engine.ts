@@ -0,0 +1,169 @@
+import type {
+  RecognitionEngine,
+  RecognitionEngineHandlers,
+  RecognitionStartOptions,
+} from "@/lib/recognition-engine";
+
+// Streams microphone audio to the server's local recognizer (server/local-recognizer.ts) over
+// WebSocket. Works offline and in browsers without the Web Speech API, such as Firefox.
+// Audio is sent as 16 kHz mono 16-bit PCM in binary messages; results come back as JSON.
+
+const TARGET_SAMPLE_RATE = 16000;
+
+// Hands each 128-frame block of the first input channel to the main thread
+const CAPTURE_WORKLET = `
+class PcmCapture extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor("pcm-capture", PcmCapture);
+`;
+
+// Box-filter downsampler from the context rate to 16 kHz. Leftover samples carry over to the next block.
+function createDownsampler(fromRate: number) {
+  const ratio = fromRate / TARGET_SAMPLE_RATE;
+  let pending = new Float32Array(0);
+  return (input: Float32Array): Int16Array => {
+    const samples = new Float32Array(pending.length + input.length);
+    samples.set(pending);
+    samples.set(input, pending.length);
+
+    const count = Math.floor(samples.length / ratio);
+    const output = new Int16Array(count);
+    for (let j = 0; j < count; j++) {
+      const start = Math.floor(j * ratio);
+      const end = Math.max(start + 1, Math.floor((j + 1) * ratio));
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += samples[i];
+      const value = Math.max(-1, Math.min(1, sum / (end - start)));
+      output[j] = value * 0x7fff;
+    }
+    pending = samples.slice(Math.floor(count * ratio));
+    return output;
+  };
+}
+
+export class LocalRecognitionEngine implements RecognitionEngine {
+  readonly id = "local";
+  private socket: WebSocket | null = null;
+  private context: AudioContext | null = null;
+  private ownStream: MediaStream | null = null;
+  private handlers: RecognitionEngineHandlers | null = null;
+  private active = false;
+
+  isSupported(): boolean {
+    return typeof WebSocket !== "undefined" &&
+      typeof AudioWorkletNode !== "undefined" &&
+      !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  async start(options: RecognitionStartOptions, handlers: RecognitionEngineHandlers): Promise<void> {
+    this.handlers = handlers;
+    this.active = true;
+
+    try {
+      const stream = options.stream ?? (this.ownStream = await navigator.mediaDevices.getUserMedia({ audio: true }));
+      await this.connect(options);
+      await this.captureAudio(stream);
+      handlers.onStart?.();
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  setLanguage(language: string) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: "language", language }));
+    }
+  }
+
+  stop() {
+    this.active = false;
+    this.handlers = null;
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    if (this.context && this.context.state !== "closed") {
+      this.context.close().catch(() => {});
+    }
+    this.context = null;
+    this.ownStream?.getTracks().forEach(track => track.stop());
+    this.ownStream = null;
+  }
+
+  private connect(options: RecognitionStartOptions): Promise<void> {
+    const url = new URL("/api/recognition", window.location.href);
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    url.searchParams.set("language", options.language);
+    url.searchParams.set("maxAlternatives", String(options.maxAlternatives));
+
+    const socket = new WebSocket(url);
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.onmessage = (event) => {
+      let message: any;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message.type === "result") {
+        this.handlers?.onResult([{
+          utteranceId: message.utteranceId,
+          isFinal: !!message.isFinal,
+          alternatives: message.alternatives || [],
+        }]);
+      } else if (message.type === "error") {
+        console.error("Local recognizer error:", message.message);
+        if (message.fatal) {
+          this.fail(message.message);
+        }
+      }
+    };
+
+    return new Promise((resolve, reject) => {
+      socket.onopen = () => {
+        socket.onclose = () => this.fail("Lost connection to the local recognizer");
+        resolve();
+      };
+      socket.onerror = () => reject(new Error("Could not connect to the local recognizer"));
+    });
+  }
+
+  private async captureAudio(stream: MediaStream) {
+    const context = new AudioContext();
+    this.context = context;
+
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: "application/javascript" }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const downsample = createDownsampler(context.sampleRate);
+    // No outputs: the node is a sink that still gets processed without reaching the speakers
+    const capture = new AudioWorkletNode(context, "pcm-capture", { numberOfOutputs: 0 });
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        // Int16Array is little-endian on every platform browsers run on, matching what the server expects
+        this.socket.send(downsample(event.data).buffer);
+      }
+    };
+    context.createMediaStreamSource(stream).connect(capture);
+  }
+
+  private fail(message: string) {
+    if (!this.active) return;
+    const handlers = this.handlers;
+    this.stop();
+    handlers?.onError({ message, fatal: true });
+  }
+}
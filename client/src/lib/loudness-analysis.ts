@@ -0,0 +1,62 @@
+import { measureLoudness, type LoudnessMeasurement } from "@shared/loudness";
+import type { SoundClip } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { getAudioContext, loadAudioBuffer } from "@/lib/audio-engine";
+
+// Browser-side loudness measurement. The server only decodes WAV, so MP3/OGG/WebM clips are
+// decoded with Web Audio here and the measurement is sent back to the server.
+
+function measureBuffer(buffer: AudioBuffer): LoudnessMeasurement {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return measureLoudness(channels, buffer.sampleRate);
+}
+
+// Measure a file before upload; resolves to null when the browser cannot decode it
+export async function measureAudioBlob(blob: Blob): Promise<LoudnessMeasurement | null> {
+  try {
+    const buffer = await getAudioContext().decodeAudioData(await blob.arrayBuffer());
+    return measureBuffer(buffer);
+  } catch (error) {
+    console.warn("Could not measure loudness before upload:", error);
+    return null;
+  }
+}
+
+// Ask the server to re-analyze clips, then measure the ones it could not decode.
+// Returns how many clips ended up with a fresh measurement.
+export async function reanalyzeSoundClips(ids?: number[]): Promise<number> {
+  const response = await apiRequest("/api/sound-clips/reanalyze", {
+    method: "POST",
+    body: JSON.stringify(ids ? { ids } : {}),
+  });
+  const { analyzed, needsClientAnalysis }: { analyzed: number[]; needsClientAnalysis: number[] } = await response.json();
+
+  if (needsClientAnalysis.length === 0) {
+    return analyzed.length;
+  }
+
+  const clips: SoundClip[] = await (await apiRequest("/api/sound-clips")).json();
+  let measured = 0;
+  for (const clip of clips.filter(c => needsClientAnalysis.includes(c.id))) {
+    try {
+      const measurement = measureBuffer(await loadAudioBuffer(clip.url));
+      await apiRequest(`/api/sound-clips/${clip.id}/loudness`, {
+        method: "PUT",
+        body: JSON.stringify(measurement),
+      });
+      measured++;
+    } catch (error) {
+      console.warn(`Could not measure loudness of ${clip.name}:`, error);
+    }
+  }
+  return analyzed.length + measured;
+}
+
+// Measure any clips that arrived without loudness data (e.g. imported from an older profile)
+export async function analyzeUnmeasuredClips(): Promise<void> {
+  const clips: SoundClip[] = await (await apiRequest("/api/sound-clips")).json();
+  const unmeasured = clips.filter(clip => clip.loudnessLufs === null).map(clip => clip.id);
+  if (unmeasured.length > 0) {
+    await reanalyzeSoundClips(unmeasured);
+  }
+}
@@ -0,0 +1,140 @@
+import type { ClipEdits } from "@shared/clip-edits";
+import type { OverlapPolicy } from "@shared/schema";
+import { loadAudioBuffer, playBuffer } from "@/lib/audio-engine";
+
+// Tracks every sound currently playing through the audio engine. Module-level so the voice
+// recognition hook, the sound library and anything else using useAudioPlayer share one set of
+// voices, one queue and one max-voices limit.
+
+export interface PlayRequest {
+  url: string;
+  clipId: number;
+  volume?: number;
+  edits?: ClipEdits;
+  overlapPolicy?: OverlapPolicy | null;
+}
+
+interface Voice {
+  clipId: number;
+  source: AudioBufferSourceNode;
+}
+
+let voices: Voice[] = [];
+let queue: PlayRequest[] = [];
+let maxVoices = 4;
+// Bumped by interrupt/stopAll so decodes that were in flight don't start afterwards
+let generation = 0;
+let pendingStarts = 0;
+let playingClipIds: ReadonlySet<number> = new Set();
+const listeners = new Set<() => void>();
+
+function notify() {
+  playingClipIds = new Set(voices.map(voice => voice.clipId));
+  listeners.forEach(listener => listener());
+}
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+// Stable between changes so it can back useSyncExternalStore
+export function getPlayingClipIds(): ReadonlySet<number> {
+  return playingClipIds;
+}
+
+export function setMaxVoices(limit: number) {
+  maxVoices = Math.max(1, Math.floor(limit));
+}
+
+function isBusy(): boolean {
+  return voices.length > 0 || pendingStarts > 0;
+}
+
+function stopVoice(voice: Voice) {
+  voice.source.onended = null;
+  try {
+    voice.source.stop();
+  } catch {
+    // Already stopped
+  }
+}
+
+function playNextQueued() {
+  if (!isBusy() && queue.length > 0) {
+    start(queue.shift()!);
+  }
+}
+
+function start(request: PlayRequest) {
+  const startGeneration = generation;
+  pendingStarts++;
+
+  loadAudioBuffer(request.url)
+    .then((buffer) => {
+      if (startGeneration !== generation) return;
+      pendingStarts--;
+
+      // Voice stealing: make room by stopping the oldest sounds
+      while (voices.length >= maxVoices) {
+        stopVoice(voices.shift()!);
+      }
+
+      const voice: Voice = { clipId: request.clipId, source: playBuffer(buffer, request.edits, request.volume) };
+      voice.source.onended = () => {
+        voices = voices.filter(v => v !== voice);
+        notify();
+        playNextQueued();
+      };
+      voices.push(voice);
+      notify();
+    })
+    .catch((error) => {
+      console.error("Failed to play sound:", error);
+      if (startGeneration !== generation) return;
+      pendingStarts--;
+      playNextQueued();
+    });
+}
+
+export function play(request: PlayRequest) {
+  switch (request.overlapPolicy || "interrupt") {
+    case "interrupt":
+      stopAll();
+      start(request);
+      break;
+    case "layer":
+      start(request);
+      break;
+    case "queue":
+      if (isBusy()) {
+        queue.push(request);
+      } else {
+        start(request);
+      }
+      break;
+    case "ignore-if-playing":
+      if (!isBusy()) {
+        start(request);
+      }
+      break;
+  }
+}
+
+// Stop every voice of one clip
+export function stopClip(clipId: number) {
+  voices.filter(v => v.clipId === clipId).forEach(stopVoice);
+  voices = voices.filter(v => v.clipId !== clipId);
+  notify();
+  playNextQueued();
+}
+
+// Stop everything, including queued sounds and ones still decoding
+export function stopAll() {
+  generation++;
+  pendingStarts = 0;
+  queue = [];
+  voices.forEach(stopVoice);
+  voices = [];
+  notify();
+}
@@ -0,0 +1,51 @@
+import type { RecognitionAlternative } from "@shared/trigger-matching";
+import type { RecognitionEngineId } from "@shared/schema";
+import { WebSpeechEngine } from "@/lib/web-speech-engine";
+import { LocalRecognitionEngine } from "@/lib/local-recognition-engine";
+
+// Speech recognition behind one interface, so the voice recognition hook doesn't care whether
+// transcripts come from the browser's Web Speech API, the local recognizer on the server, or a
+// scripted fake (see fake-recognition-engine.ts). Engines own their restart/reconnect logic and
+// only surface errors they cannot recover from as fatal.
+
+export interface RecognitionUpdate {
+  utteranceId: string; // stays the same while an utterance goes from interim to final
+  isFinal: boolean;
+  alternatives: RecognitionAlternative[]; // best first
+}
+
+export interface RecognitionEngineError {
+  message: string;
+  fatal: boolean; // the engine has stopped and will not restart by itself
+}
+
+export interface RecognitionEngineHandlers {
+  onStart?: () => void;
+  onResult: (updates: RecognitionUpdate[]) => void;
+  onError: (error: RecognitionEngineError) => void;
+}
+
+export interface RecognitionStartOptions {
+  language: string;
+  maxAlternatives: number;
+  stream: MediaStream | null; // microphone stream the caller already opened, for engines that need raw audio
+}
+
+export interface RecognitionEngine {
+  readonly id: RecognitionEngineId | "fake";
+  isSupported(): boolean;
+  start(options: RecognitionStartOptions, handlers: RecognitionEngineHandlers): Promise<void>;
+  // Switch language while listening; takes effect from the next utterance
+  setLanguage(language: string): void;
+  stop(): void;
+}
+
+export function createRecognitionEngine(id: RecognitionEngineId): RecognitionEngine {
+  switch (id) {
+    case "local":
+      return new LocalRecognitionEngine();
+    case "web-speech":
+    default:
+      return new WebSpeechEngine();
+  }
+}
@@ -0,0 +1,212 @@
+import type {
+  RecognitionEngine,
+  RecognitionEngineHandlers,
+  RecognitionStartOptions,
+  RecognitionUpdate,
+} from "@/lib/recognition-engine";
+
+// The browser's Web Speech API (Chrome, Edge, Safari). Audio goes to the browser vendor's cloud
+// service. Sessions end on their own after silence or a while of speech, so the engine keeps
+// restarting them until stop() is called.
+
+interface SpeechRecognitionEvent {
+  results: SpeechRecognitionResultList;
+  resultIndex: number;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives?: number;
+  start(): void;
+  stop(): void;
+  onstart?: () => void;
+  onresult: (event: SpeechRecognitionEvent) => void;
+  onerror: (event: any) => void;
+  onend: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => SpeechRecognition;
+    webkitSpeechRecognition: new () => SpeechRecognition;
+  }
+}
+
+// Restarting every few words keeps long sessions from silently timing out
+const RESTART_AFTER_WORDS = 10;
+
+function isMobileDevice(): boolean {
+  return /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+}
+
+export class WebSpeechEngine implements RecognitionEngine {
+  readonly id = "web-speech";
+  private recognition: SpeechRecognition | null = null;
+  private handlers: RecognitionEngineHandlers | null = null;
+  private options: RecognitionStartOptions | null = null;
+  private active = false;
+  // Result indices restart with every session, so utterance ids are prefixed with the session
+  private session = 0;
+  private wordCount = 0;
+
+  isSupported(): boolean {
+    return typeof window !== "undefined" && !!(window.SpeechRecognition || window.webkitSpeechRecognition);
+  }
+
+  async start(options: RecognitionStartOptions, handlers: RecognitionEngineHandlers): Promise<void> {
+    this.options = options;
+    this.handlers = handlers;
+    this.active = true;
+    this.wordCount = 0;
+    const recognition = this.createSession();
+    console.log("Speech recognition settings - Mobile:", isMobileDevice(), "Continuous:", recognition.continuous, "Language:", recognition.lang);
+    recognition.start();
+    this.recognition = recognition;
+  }
+
+  setLanguage(language: string) {
+    if (!this.options || this.options.language === language) return;
+    this.options = { ...this.options, language };
+    // A session listens in one language; ending it makes the automatic restart pick up the new one
+    this.restartSoon(0);
+  }
+
+  stop() {
+    this.active = false;
+    const recognition = this.recognition;
+    this.recognition = null;
+    this.handlers = null;
+    if (recognition) {
+      try {
+        recognition.stop();
+      } catch (e) {
+        console.log("Recognition already stopped");
+      }
+    }
+  }
+
+  private createSession(): SpeechRecognition {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    const instance = new SpeechRecognition();
+    const session = ++this.session;
+    instance.continuous = !isMobileDevice(); // Use non-continuous on mobile for better stability
+    instance.interimResults = true;
+    instance.lang = this.options!.language;
+    instance.maxAlternatives = this.options!.maxAlternatives;
+    instance.onstart = () => {
+      console.log("Speech recognition started");
+      this.handlers?.onStart?.();
+    };
+    instance.onresult = (event) => this.handleResult(session, event);
+    instance.onerror = (event) => this.handleError(event);
+    instance.onend = () => this.handleEnd(instance);
+    return instance;
+  }
+
+  private handleResult(session: number, event: SpeechRecognitionEvent) {
+    const updates: RecognitionUpdate[] = [];
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      updates.push({
+        utteranceId: `${session}:${i}`,
+        isFinal: result.isFinal,
+        alternatives: Array.from({ length: result.length }, (_, k) => ({
+          transcript: result[k].transcript,
+          confidence: result[k].confidence,
+        })),
+      });
+    }
+    this.handlers?.onResult(updates);
+
+    for (const update of updates.filter(u => u.isFinal)) {
+      this.wordCount += update.alternatives[0].transcript.trim().split(/\s+/).filter(word => word.length > 0).length;
+    }
+    if (this.wordCount >= RESTART_AFTER_WORDS) {
+      console.log(`🔄 Restarting voice recognition after ${RESTART_AFTER_WORDS} words to prevent timeout`);
+      this.wordCount = 0;
+      this.restartSoon(100);
+    }
+  }
+
+  // Stop the current session; onend then starts a fresh one
+  private restartSoon(delay: number) {
+    setTimeout(() => {
+      if (this.active && this.recognition) {
+        try {
+          this.recognition.stop();
+        } catch (e) {
+          console.error("Failed to restart recognition:", e);
+        }
+      }
+    }, delay);
+  }
+
+  private fail(message: string) {
+    const handlers = this.handlers;
+    this.stop();
+    handlers?.onError({ message, fatal: true });
+  }
+
+  private handleError(event: any) {
+    console.error("Speech recognition error:", event.error, event);
+    switch (event.error) {
+      case "not-allowed":
+        this.fail("Microphone permission denied. Please allow microphone access.");
+        break;
+      case "no-speech":
+        // Normal during pauses; onend restarts the session
+        console.log("No speech detected, continuing to listen...");
+        break;
+      case "audio-capture":
+        this.fail("Audio capture failed. Check your microphone.");
+        break;
+      case "network":
+        this.fail("Network error. Check your internet connection.");
+        break;
+      case "service-not-allowed":
+      case "language-not-supported":
+        this.fail(`Speech recognition error: ${event.error}`);
+        break;
+      default:
+        // "aborted" and anything else: onend follows and restarts the session
+        console.log(`Speech recognition error: ${event.error}, attempting to continue...`);
+    }
+  }
+
+  private handleEnd(instance: SpeechRecognition) {
+    console.log("Speech recognition ended");
+    // Only restart while listening, and only for the current session
+    if (!this.active || this.recognition !== instance) {
+      console.log("Speech recognition ended - not restarting (manually stopped or different instance)");
+      return;
+    }
+
+    const mobile = isMobileDevice();
+    const restartDelay = mobile ? 300 : 100;
+    const fallbackDelay = mobile ? 500 : 200;
+
+    const restart = (attemptsLeft: number) => {
+      if (!this.active || this.recognition !== instance) return;
+      try {
+        // A new instance for every session avoids stale internal state
+        const next = this.createSession();
+        next.start();
+        this.recognition = next;
+        this.wordCount = 0;
+        console.log("Successfully restarted speech recognition");
+      } catch (e) {
+        console.error("Failed to restart recognition:", e);
+        if (attemptsLeft > 0) {
+          setTimeout(() => restart(attemptsLeft - 1), fallbackDelay);
+        } else {
+          this.fail(mobile
+            ? "Voice recognition stopped. If it stops responding, tap Stop and Start again."
+            : "Voice recognition stopped. If it stops responding, click Stop and Start again.");
+        }
+      }
+    };
+    setTimeout(() => restart(1), restartDelay);
+  }
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Settings, Moon, Info } from "lucide-react";
+import { Settings, Moon, Info, LayoutGrid } from "lucide-react";
 import VoiceRecognition from "@/components/voice-recognition";
 import SoundLibrary from "@/components/sound-library";
 import { ServerProfileLoader } from "@/components/server-profile-loader";
@@ -44,6 +44,16 @@ export default function Home() {
               >
                 <Moon className="h-5 w-5" />
               </Button>
+              <Link href="/pad">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Pad for a phone or tablet"
+                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                >
+                  <LayoutGrid className="h-5 w-5" />
+                </Button>
+              </Link>
               <Link href="/settings">
                 <Button
                   variant="ghost"
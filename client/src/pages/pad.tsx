@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, LayoutGrid, Speaker } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useRemoteSpeaker } from '@/hooks/use-live-events';
+import { apiRequest } from '@/lib/queryClient';
+import { clientId, setLiveRole } from '@/lib/live-events';
+import { CLIENT_ID_HEADER, type LiveDevice } from '@shared/events';
+import type { SoundClip } from '@shared/schema';
+
+// Companion pad: big buttons for every clip, meant for a phone next to the laptop that listens.
+// Taps are relayed through the server to a host tab, which plays the clip; nothing plays here.
+
+const PAD_COLUMNS_KEY = 'padColumns';
+const PAD_TARGET_KEY = 'padTarget';
+const ALL_HOSTS = 'all';
+const columnOptions = [2, 3, 4, 5, 6];
+
+export function PadPage() {
+  const [columns, setColumns] = useState(() => parseInt(localStorage.getItem(PAD_COLUMNS_KEY) || '3', 10) || 3);
+  const [target, setTarget] = useState(() => localStorage.getItem(PAD_TARGET_KEY) || ALL_HOSTS);
+  const [lastPlayedId, setLastPlayedId] = useState<number | null>(null);
+  const { connection } = useRemoteSpeaker();
+  const { toast } = useToast();
+
+  // This tab only sends play requests, so it must not be offered as a host or play them itself
+  useEffect(() => {
+    setLiveRole('pad');
+    return () => setLiveRole('host');
+  }, []);
+
+  const { data: soundClips = [], isLoading } = useQuery<SoundClip[]>({
+    queryKey: ['/api/sound-clips'],
+  });
+
+  const { data: devices = [] } = useQuery<LiveDevice[]>({
+    queryKey: ['/api/devices'],
+  });
+
+  const hosts = devices.filter(device => device.role === 'host' && device.clientId !== clientId);
+  // A host that disconnected falls back to every host until it is back
+  const activeTarget = hosts.some(host => host.clientId === target) ? target : ALL_HOSTS;
+
+  const playMutation = useMutation({
+    mutationFn: async (soundClip: SoundClip) => {
+      const response = await apiRequest(`/api/sound-clips/${soundClip.id}/play`, {
+        method: 'POST',
+        headers: { [CLIENT_ID_HEADER]: clientId },
+        body: JSON.stringify({ target: activeTarget === ALL_HOSTS ? null : activeTarget }),
+      });
+      return response.json();
+    },
+    onSuccess: (_data, soundClip) => {
+      setLastPlayedId(soundClip.id);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Not played",
+        description: error.message?.replace(/^\d+: /, '') || "Failed to reach the host",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleColumnsChange = (value: string) => {
+    const next = parseInt(value, 10);
+    setColumns(next);
+    localStorage.setItem(PAD_COLUMNS_KEY, String(next));
+  };
+
+  const handleTargetChange = (value: string) => {
+    setTarget(value);
+    localStorage.setItem(PAD_TARGET_KEY, value);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-900 dark:text-gray-100 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Link href="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold">Pad</h1>
+        </div>
+        <Badge variant={connection === 'open' ? 'default' : 'secondary'}>
+          {connection === 'open' ? 'Connected' : connection === 'connecting' ? 'Connecting' : 'Offline'}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="flex items-center space-x-2">
+            <Speaker className="h-4 w-4" />
+            <span>Play on</span>
+          </Label>
+          <Select value={activeTarget} onValueChange={handleTargetChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_HOSTS}>Every host ({hosts.length})</SelectItem>
+              {hosts.map(host => (
+                <SelectItem key={host.clientId} value={host.clientId}>
+                  {host.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="flex items-center space-x-2">
+            <LayoutGrid className="h-4 w-4" />
+            <span>Columns</span>
+          </Label>
+          <Select value={String(columns)} onValueChange={handleColumnsChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {columnOptions.map(count => (
+                <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {hosts.length === 0 && (
+        <p className="text-sm text-amber-700 dark:text-amber-300">
+          No host is connected. Open the soundboard on the device that should play the sounds.
+        </p>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-gray-500 py-8">Loading sound clips...</p>
+      ) : soundClips.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No sound clips yet. Upload some on the main page.</p>
+      ) : (
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+          {soundClips.map(soundClip => (
+            <Button
+              key={soundClip.id}
+              variant={lastPlayedId === soundClip.id ? 'default' : 'outline'}
+              className="h-24 sm:h-32 text-base sm:text-lg font-semibold whitespace-normal break-words"
+              disabled={hosts.length === 0}
+              onClick={() => playMutation.mutate(soundClip)}
+            >
+              {soundClip.name}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
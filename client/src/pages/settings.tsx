@@ -2,7 +2,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DefaultResponseSettings } from '@/components/default-response-settings';
 import { VoiceControls } from '@/components/voice-controls';
-import { Settings as SettingsIcon, FileJson, Volume2, Mic } from 'lucide-react';
+import { BindingsManager } from '@/components/bindings-manager';
+import { Settings as SettingsIcon, FileJson, Volume2, Mic, Keyboard } from 'lucide-react';
 
 export function SettingsPage() {
   return (
@@ -18,7 +19,7 @@ export function SettingsPage() {
       </div>
 
       <Tabs defaultValue="voice" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="voice" className="flex items-center gap-2">
             <Mic className="h-4 w-4" />
             Voice
@@ -27,6 +28,10 @@ export function SettingsPage() {
             <Volume2 className="h-4 w-4" />
             Audio
           </TabsTrigger>
+          <TabsTrigger value="bindings" className="flex items-center gap-2">
+            <Keyboard className="h-4 w-4" />
+            Bindings
+          </TabsTrigger>
           <TabsTrigger value="profiles" className="flex items-center gap-2">
             <FileJson className="h-4 w-4" />
             Profiles
@@ -48,6 +53,17 @@ export function SettingsPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="bindings" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Keyboard & MIDI Bindings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <BindingsManager />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="profiles" className="mt-6">
           <Card>
             <CardHeader>
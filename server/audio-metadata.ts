@@ -0,0 +1,496 @@
+// Pure-JS header parsing for the audio formats we accept (MP3, WAV, OGG, WebM).
+// Reads just enough of each container to get duration, sample rate, channels and bitrate,
+// and identifies the real format from the file's magic bytes rather than its name.
+
+export type AudioFormat = "mp3" | "wav" | "ogg" | "webm";
+
+export interface AudioMetadata {
+  format: AudioFormat;
+  duration: number; // seconds, 0 when the container does not say
+  sampleRate: number | null;
+  channels: number | null;
+  bitrate: number | null; // bits per second
+}
+
+export class AudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioFormatError";
+  }
+}
+
+export function detectAudioFormat(buffer: Buffer): AudioFormat | null {
+  if (buffer.length >= 12 && buffer.toString("ascii", 0, 4) === "RIFF" && buffer.toString("ascii", 8, 12) === "WAVE") {
+    return "wav";
+  }
+  if (buffer.length >= 4 && buffer.toString("ascii", 0, 4) === "OggS") {
+    return "ogg";
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return "webm";
+  }
+  if (buffer.length >= 3 && buffer.toString("ascii", 0, 3) === "ID3") {
+    return "mp3";
+  }
+  if (findMp3Frame(buffer, 0) !== -1) {
+    return "mp3";
+  }
+  return null;
+}
+
+// Map an upload's extension or MIME type to the format it claims to be
+export function claimedAudioFormat(extension: string, mimetype: string): AudioFormat | null {
+  const ext = extension.toLowerCase().replace(/^\./, "");
+  if (ext === "mp3") return "mp3";
+  if (ext === "wav") return "wav";
+  if (ext === "ogg" || ext === "oga" || ext === "opus") return "ogg";
+  if (ext === "webm" || ext === "weba") return "webm";
+
+  if (mimetype === "audio/mpeg" || mimetype === "audio/mp3") return "mp3";
+  if (["audio/wav", "audio/wave", "audio/x-wav"].includes(mimetype)) return "wav";
+  if (mimetype === "audio/ogg") return "ogg";
+  if (mimetype === "audio/webm" || mimetype === "video/webm") return "webm";
+  return null;
+}
+
+export function probeAudio(buffer: Buffer): AudioMetadata {
+  const format = detectAudioFormat(buffer);
+  switch (format) {
+    case "wav":
+      return probeWav(buffer);
+    case "mp3":
+      return probeMp3(buffer);
+    case "ogg":
+      return probeOgg(buffer);
+    case "webm":
+      return probeWebm(buffer);
+    default:
+      throw new AudioFormatError("File is not a recognized MP3, WAV, OGG or WebM audio file");
+  }
+}
+
+// ---- WAV ----------------------------------------------------------------
+
+function probeWav(buffer: Buffer): AudioMetadata {
+  let offset = 12;
+  let channels: number | null = null;
+  let sampleRate: number | null = null;
+  let byteRate: number | null = null;
+  let dataSize: number | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt " && chunkStart + 16 <= buffer.length) {
+      channels = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      byteRate = buffer.readUInt32LE(chunkStart + 8);
+    } else if (chunkId === "data") {
+      // Streaming writers leave the size as 0 or 0xFFFFFFFF; fall back to what is actually there
+      const available = buffer.length - chunkStart;
+      dataSize = chunkSize === 0 || chunkSize === 0xffffffff ? available : Math.min(chunkSize, available);
+      break;
+    }
+
+    // Chunks are word aligned
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  if (!sampleRate || !channels || !byteRate) {
+    throw new AudioFormatError("WAV file is missing its format chunk");
+  }
+
+  return {
+    format: "wav",
+    duration: dataSize !== null ? dataSize / byteRate : 0,
+    sampleRate,
+    channels,
+    bitrate: byteRate * 8,
+  };
+}
+
+export interface DecodedPcm {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// Decode a PCM or IEEE float WAV into per-channel samples in [-1, 1]. Compressed formats need a
+// real decoder, so callers fall back to measuring those in the browser.
+export function decodeWav(buffer: Buffer): DecodedPcm {
+  let offset = 12;
+  let fmtOffset = -1;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkId === "fmt ") fmtOffset = offset + 8;
+    if (chunkId === "data") {
+      dataOffset = offset + 8;
+      const available = buffer.length - dataOffset;
+      dataSize = chunkSize === 0 || chunkSize === 0xffffffff ? available : Math.min(chunkSize, available);
+      break;
+    }
+    offset = offset + 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (fmtOffset === -1 || dataOffset === -1) {
+    throw new AudioFormatError("WAV file is missing its format or data chunk");
+  }
+
+  let audioFormat = buffer.readUInt16LE(fmtOffset);
+  const channelCount = buffer.readUInt16LE(fmtOffset + 2);
+  const sampleRate = buffer.readUInt32LE(fmtOffset + 4);
+  const bitsPerSample = buffer.readUInt16LE(fmtOffset + 14);
+  if (audioFormat === 0xfffe) {
+    // WAVE_FORMAT_EXTENSIBLE: the real format code starts the sub-format GUID
+    audioFormat = buffer.readUInt16LE(fmtOffset + 24);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const isFloat = audioFormat === 3 && bitsPerSample === 32;
+  if (!(audioFormat === 1 && [8, 16, 24, 32].includes(bitsPerSample)) && !isFloat) {
+    throw new AudioFormatError(`Unsupported WAV encoding (format ${audioFormat}, ${bitsPerSample}-bit)`);
+  }
+
+  const frameCount = Math.floor(dataSize / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      const position = dataOffset + (frame * channelCount + channel) * bytesPerSample;
+      let value: number;
+      if (isFloat) value = buffer.readFloatLE(position);
+      else if (bitsPerSample === 8) value = (buffer[position] - 128) / 128;
+      else if (bitsPerSample === 16) value = buffer.readInt16LE(position) / 32768;
+      else if (bitsPerSample === 24) value = buffer.readIntLE(position, 3) / 8388608;
+      else value = buffer.readInt32LE(position) / 2147483648;
+      channels[channel][frame] = value;
+    }
+  }
+
+  return { sampleRate, channels };
+}
+
+// ---- MP3 ----------------------------------------------------------------
+
+const MP3_BITRATES: Record<string, number[]> = {
+  // [version][layer] -> kbps by index
+  "1-1": [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  "1-2": [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  "1-3": [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  "2-1": [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  "2-2": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  "2-3": [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<string, number[]> = {
+  "1": [44100, 48000, 32000],
+  "2": [22050, 24000, 16000],
+  "2.5": [11025, 12000, 8000],
+};
+
+interface Mp3Frame {
+  length: number;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samples: number;
+  version: string;
+}
+
+function parseMp3FrameHeader(buffer: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > buffer.length) return null;
+  const header = buffer.readUInt32BE(offset);
+  if ((header & 0xffe00000) >>> 0 !== 0xffe00000) return null;
+
+  const versionBits = (header >> 19) & 0x3;
+  const layerBits = (header >> 17) & 0x3;
+  const bitrateIndex = (header >> 12) & 0xf;
+  const sampleRateIndex = (header >> 10) & 0x3;
+  const padding = (header >> 9) & 0x1;
+  const channelMode = (header >> 6) & 0x3;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? "1" : versionBits === 2 ? "2" : "2.5";
+  const layer = 4 - layerBits;
+  const bitrate = MP3_BITRATES[`${version === "1" ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+
+  let samples: number;
+  let length: number;
+  if (layer === 1) {
+    samples = 384;
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+  } else {
+    samples = layer === 3 && version !== "1" ? 576 : 1152;
+    length = Math.floor(((samples / 8) * bitrate) / sampleRate) + padding;
+  }
+
+  return { length, bitrate, sampleRate, channels: channelMode === 3 ? 1 : 2, samples, version };
+}
+
+// Find a frame header that is followed by another valid header, to avoid false syncs in tag data
+function findMp3Frame(buffer: Buffer, start: number): number {
+  const limit = Math.min(buffer.length - 4, start + 64 * 1024);
+  for (let offset = start; offset < limit; offset++) {
+    if (buffer[offset] !== 0xff) continue;
+    const frame = parseMp3FrameHeader(buffer, offset);
+    if (frame && frame.length > 0) {
+      const next = offset + frame.length;
+      if (next + 4 > buffer.length || parseMp3FrameHeader(buffer, next)) {
+        return offset;
+      }
+    }
+  }
+  return -1;
+}
+
+function probeMp3(buffer: Buffer): AudioMetadata {
+  let start = 0;
+  if (buffer.toString("ascii", 0, 3) === "ID3" && buffer.length >= 10) {
+    // ID3v2 size is a 28-bit syncsafe integer, plus an optional 10-byte footer
+    const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+    start = 10 + size + (buffer[5] & 0x10 ? 10 : 0);
+  }
+
+  const firstOffset = findMp3Frame(buffer, start);
+  if (firstOffset === -1) {
+    throw new AudioFormatError("MP3 file contains no audio frames");
+  }
+  const first = parseMp3FrameHeader(buffer, firstOffset)!;
+
+  // A Xing/Info header in the first frame carries the total frame count for VBR files
+  const sideInfo = first.version === "1" ? (first.channels === 1 ? 17 : 32) : (first.channels === 1 ? 9 : 17);
+  const xingOffset = firstOffset + 4 + sideInfo;
+  const xingTag = buffer.toString("ascii", xingOffset, xingOffset + 4);
+  if ((xingTag === "Xing" || xingTag === "Info") && xingOffset + 12 <= buffer.length) {
+    const flags = buffer.readUInt32BE(xingOffset + 4);
+    if (flags & 0x1) {
+      const frames = buffer.readUInt32BE(xingOffset + 8);
+      const duration = (frames * first.samples) / first.sampleRate;
+      const audioBytes = buffer.length - firstOffset;
+      return {
+        format: "mp3",
+        duration,
+        sampleRate: first.sampleRate,
+        channels: first.channels,
+        bitrate: duration > 0 ? Math.round((audioBytes * 8) / duration) : first.bitrate,
+      };
+    }
+  }
+
+  // No VBR header: walk every frame, which is cheap at our upload size limit
+  let offset = firstOffset;
+  let totalSamples = 0;
+  let totalBytes = 0;
+  while (offset < buffer.length) {
+    const frame = parseMp3FrameHeader(buffer, offset);
+    if (!frame || frame.length <= 0) break;
+    totalSamples += frame.samples;
+    totalBytes += frame.length;
+    offset += frame.length;
+  }
+
+  const duration = totalSamples / first.sampleRate;
+  return {
+    format: "mp3",
+    duration,
+    sampleRate: first.sampleRate,
+    channels: first.channels,
+    bitrate: duration > 0 ? Math.round((totalBytes * 8) / duration) : first.bitrate,
+  };
+}
+
+// ---- OGG (Vorbis / Opus) --------------------------------------------------
+
+function readGranulePosition(buffer: Buffer, pageOffset: number): number {
+  const low = buffer.readUInt32LE(pageOffset + 6);
+  const high = buffer.readInt32LE(pageOffset + 10);
+  return high * 0x100000000 + low;
+}
+
+function probeOgg(buffer: Buffer): AudioMetadata {
+  if (buffer.length < 28) {
+    throw new AudioFormatError("OGG file is truncated");
+  }
+
+  // First page holds the codec identification header right after the segment table
+  const segmentCount = buffer[26];
+  const packetStart = 27 + segmentCount;
+  let sampleRate: number;
+  let channels: number;
+  let granuleRate: number;
+  let preSkip = 0;
+  let nominalBitrate: number | null = null;
+
+  if (buffer.toString("ascii", packetStart + 1, packetStart + 7) === "vorbis") {
+    channels = buffer[packetStart + 11];
+    sampleRate = buffer.readUInt32LE(packetStart + 12);
+    granuleRate = sampleRate;
+    const nominal = buffer.readInt32LE(packetStart + 20);
+    nominalBitrate = nominal > 0 ? nominal : null;
+  } else if (buffer.toString("ascii", packetStart, packetStart + 8) === "OpusHead") {
+    channels = buffer[packetStart + 9];
+    preSkip = buffer.readUInt16LE(packetStart + 10);
+    sampleRate = buffer.readUInt32LE(packetStart + 12) || 48000;
+    // Opus granule positions always count 48 kHz samples regardless of the input rate
+    granuleRate = 48000;
+  } else {
+    throw new AudioFormatError("OGG file does not contain Vorbis or Opus audio");
+  }
+
+  // Duration comes from the granule position of the last page
+  let duration = 0;
+  for (let offset = buffer.length - 27; offset >= 0; offset--) {
+    if (buffer[offset] === 0x4f && buffer.toString("ascii", offset, offset + 4) === "OggS") {
+      const granule = readGranulePosition(buffer, offset);
+      if (granule > 0) {
+        duration = Math.max(0, granule - preSkip) / granuleRate;
+        break;
+      }
+    }
+  }
+
+  return {
+    format: "ogg",
+    duration,
+    sampleRate,
+    channels,
+    bitrate: duration > 0 ? Math.round((buffer.length * 8) / duration) : nominalBitrate,
+  };
+}
+
+// ---- WebM (Matroska / EBML) ---------------------------------------------
+
+const EBML_IDS = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  clusterTimecode: 0xe7,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  simpleBlock: 0xa3,
+};
+
+// Master elements we step into instead of skipping over
+const EBML_CONTAINERS = new Set([
+  EBML_IDS.segment, EBML_IDS.info, EBML_IDS.tracks, EBML_IDS.trackEntry,
+  EBML_IDS.audio, EBML_IDS.cluster, EBML_IDS.blockGroup,
+]);
+
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readEbmlUint(buffer: Buffer, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + buffer[offset + i];
+  return value;
+}
+
+function readEbmlFloat(buffer: Buffer, offset: number, size: number): number {
+  if (size === 4) return buffer.readFloatBE(offset);
+  if (size === 8) return buffer.readDoubleBE(offset);
+  return 0;
+}
+
+function probeWebm(buffer: Buffer): AudioMetadata {
+  let timecodeScale = 1000000; // nanoseconds per timecode tick
+  let declaredDuration: number | null = null;
+  let sampleRate: number | null = null;
+  let channels: number | null = null;
+  let clusterTimecode = 0;
+  let lastTimecode = 0;
+
+  // Walk the element stream linearly, descending into containers. This also copes with the
+  // unknown-size Segment and Cluster elements MediaRecorder writes while recording live.
+  let offset = 0;
+  while (offset < buffer.length) {
+    const id = readVint(buffer, offset, true);
+    if (!id) break;
+    const size = readVint(buffer, offset + id.length, false);
+    if (!size) break;
+    const dataStart = offset + id.length + size.length;
+
+    if (EBML_CONTAINERS.has(id.value)) {
+      offset = dataStart;
+      continue;
+    }
+    if (size.unknown || dataStart + size.value > buffer.length) {
+      break;
+    }
+
+    switch (id.value) {
+      case EBML_IDS.timecodeScale:
+        timecodeScale = readEbmlUint(buffer, dataStart, size.value);
+        break;
+      case EBML_IDS.duration:
+        declaredDuration = readEbmlFloat(buffer, dataStart, size.value);
+        break;
+      case EBML_IDS.samplingFrequency:
+        sampleRate = Math.round(readEbmlFloat(buffer, dataStart, size.value));
+        break;
+      case EBML_IDS.channels:
+        channels = readEbmlUint(buffer, dataStart, size.value);
+        break;
+      case EBML_IDS.clusterTimecode:
+        clusterTimecode = readEbmlUint(buffer, dataStart, size.value);
+        lastTimecode = Math.max(lastTimecode, clusterTimecode);
+        break;
+      case EBML_IDS.simpleBlock:
+      case EBML_IDS.block: {
+        // Block = track number (vint) + signed 16-bit timecode relative to the cluster
+        const track = readVint(buffer, dataStart, false);
+        if (track && dataStart + track.length + 2 <= buffer.length) {
+          const relative = buffer.readInt16BE(dataStart + track.length);
+          lastTimecode = Math.max(lastTimecode, clusterTimecode + relative);
+        }
+        break;
+      }
+    }
+
+    offset = dataStart + size.value;
+  }
+
+  if (sampleRate === null && channels === null && declaredDuration === null && lastTimecode === 0) {
+    throw new AudioFormatError("WebM file contains no audio track");
+  }
+
+  // Without a declared Duration, the start of the last block is close enough (one frame short)
+  const duration = declaredDuration
+    ? (declaredDuration * timecodeScale) / 1e9
+    : (lastTimecode * timecodeScale) / 1e9;
+
+  return {
+    format: "webm",
+    duration,
+    sampleRate,
+    channels,
+    bitrate: duration > 0 ? Math.round((buffer.length * 8) / duration) : null,
+  };
+}
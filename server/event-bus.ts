@@ -0,0 +1,83 @@
+import type { WebSocket } from "ws";
+import type { LiveClientMessage, LiveDevice, LiveEvent } from "@shared/events";
+
+// Fan-out for live events (see shared/events.ts). Routes call broadcast() after a mutation or
+// when they pick a clip to play; every connected tab receives it. Tabs only send a hello saying
+// who they are, which backs the device list pads pick a host from.
+
+const clients = new Map<WebSocket, LiveDevice | null>();
+
+// Dead connections (sleeping laptops, dropped Wi-Fi) never send a close frame, so ping now and then
+const HEARTBEAT_MS = 30000;
+const alive = new WeakSet<WebSocket>();
+
+setInterval(() => {
+  clients.forEach((_device, socket) => {
+    if (!alive.has(socket)) {
+      socket.terminate();
+      removeClient(socket);
+      return;
+    }
+    alive.delete(socket);
+    socket.ping();
+  });
+}, HEARTBEAT_MS).unref();
+
+function removeClient(socket: WebSocket) {
+  const device = clients.get(socket);
+  clients.delete(socket);
+  if (device) {
+    broadcast({ type: "changed", resources: ["devices"] });
+  }
+}
+
+function parseHello(data: unknown): LiveDevice | null {
+  let message: Partial<LiveClientMessage>;
+  try {
+    message = JSON.parse(String(data));
+  } catch {
+    return null;
+  }
+  if (message.type !== "hello" || typeof message.clientId !== "string" || !message.clientId) return null;
+  return {
+    clientId: message.clientId.slice(0, 64),
+    name: typeof message.name === "string" && message.name.trim() ? message.name.trim().slice(0, 64) : "Unnamed device",
+    role: message.role === "pad" ? "pad" : "host",
+  };
+}
+
+export function handleEventConnection(socket: WebSocket) {
+  clients.set(socket, null);
+  alive.add(socket);
+  socket.on("pong", () => alive.add(socket));
+  socket.on("message", (data) => {
+    const device = parseHello(data);
+    if (device) {
+      clients.set(socket, device);
+      broadcast({ type: "changed", resources: ["devices"] });
+    }
+  });
+  socket.on("close", () => removeClient(socket));
+  socket.on("error", (error) => {
+    console.error("Event socket error:", error);
+    removeClient(socket);
+  });
+}
+
+export function broadcast(event: LiveEvent) {
+  const message = JSON.stringify(event);
+  clients.forEach((_device, socket) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(message);
+    }
+  });
+}
+
+// Connected tabs that said hello. A tab open twice under one client id is listed once.
+export function listDevices(): LiveDevice[] {
+  const devices = new Map<string, LiveDevice>();
+  clients.forEach((device) => {
+    if (device) devices.set(device.clientId, device);
+  });
+  return Array.from(devices.values());
+}
@@ -0,0 +1,47 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Uploads live in the working directory, so the tests get one of their own
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-storage-test-"));
+process.chdir(workDir);
+fs.mkdirSync(path.join(workDir, "uploads"));
+
+const { FileStorage } = await import("./storage");
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+describe("FileStorage snapshots", () => {
+  test("records from an old snapshot get the defaults of columns added since", async () => {
+    const dataDir = path.join(workDir, "data");
+    fs.mkdirSync(dataDir);
+    fs.writeFileSync(path.join(workDir, "uploads", "1_horn.mp3"), Buffer.alloc(64));
+    // As written before clip edits, match modes, playback orders and cooldowns existed
+    fs.writeFileSync(path.join(dataDir, "storage.json"), JSON.stringify({
+      currentSoundClipId: 2,
+      currentTriggerWordId: 2,
+      soundClips: [{ id: 1, name: "Horn", filename: "1_horn.mp3", format: "mp3", duration: 1, size: 64, url: "/uploads/1_horn.mp3", isDefault: false }],
+      triggerWords: [{ id: 1, phrase: "hello", soundClipIds: [1], currentIndex: 0, caseSensitive: false, enabled: true }],
+      settings: {},
+    }));
+
+    const storage = new FileStorage(dataDir);
+
+    const [clip] = await storage.getSoundClips();
+    assert.equal(typeof clip.uuid, "string");
+    assert.equal(clip.isDefault, false);
+    assert.deepEqual(
+      [clip.weight, clip.trimStart, clip.trimEnd, clip.gainDb, clip.normalizationGainDb, clip.overlapPolicy, clip.cooldownMs, clip.tags, clip.categoryId],
+      [1, 0, null, 0, 0, null, 0, [], null],
+    );
+    const [trigger] = await storage.getTriggerWords();
+    assert.deepEqual(
+      [trigger.matchMode, trigger.matchType, trigger.playbackOrder, trigger.shuffleBag, trigger.overlapPolicy, trigger.cooldownMs, trigger.minConfidence, trigger.earlyFire],
+      ["exact", "substring", "sequential", [], "interrupt", 2000, 0, false],
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import type { IncomingMessage } from "http";
+import type { WebSocket } from "ws";
+import { z } from "zod";
+import type { RecognitionAlternative } from "@shared/trigger-matching";
+
+// Server side of the "local" recognition engine. The browser streams 16-bit little-endian mono PCM
+// over WebSocket (see client/src/lib/local-recognition-engine.ts) and gets interim and final results
+// back as JSON, so recognition works offline and in browsers without the Web Speech API.
+//
+// The recognizer itself is pluggable. By default it is an external process configured with
+// LOCAL_RECOGNIZER_COMMAND that reads PCM on stdin and prints Vosk-style JSON lines on stdout:
+//   {"partial": "hello wor"}
+//   {"text": "hello world", "result": [{"word": "hello", "conf": 0.98}, ...]}
+//   {"alternatives": [{"text": "hello world", "confidence": 312.5}, ...]}
+// The command may use {language}, {sampleRate} and {maxAlternatives} placeholders, e.g.
+//   LOCAL_RECOGNIZER_COMMAND="python3 vosk_stdin.py --model models/{language} --rate {sampleRate}"
+
+export const RECOGNITION_SAMPLE_RATE = 16000;
+
+export interface RecognizerOptions {
+  language: string;
+  sampleRate: number;
+  maxAlternatives: number;
+}
+
+export interface RecognizerUpdate {
+  utteranceId: string;
+  isFinal: boolean;
+  alternatives: RecognitionAlternative[];
+}
+
+export interface RecognizerCallbacks {
+  onResult: (update: RecognizerUpdate) => void;
+  onError: (message: string, fatal: boolean) => void;
+}
+
+export interface LocalRecognizer {
+  acceptAudio(pcm: Buffer): void;
+  close(): void;
+}
+
+export type RecognizerFactory = (options: RecognizerOptions, callbacks: RecognizerCallbacks) => LocalRecognizer;
+
+// BCP 47-ish tags only, so a language can be substituted into the command safely
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// A Vosk JSON line. Scores that aren't numbers count as 0 and unusable alternatives are dropped.
+const voskScore = z.coerce.number().catch(0);
+const voskAlternativeSchema = z.object({ text: z.string(), confidence: voskScore });
+const voskMessageSchema = z.object({
+  partial: z.string().optional(),
+  alternatives: z.array(voskAlternativeSchema.nullable().catch(null)).optional(),
+  text: z.string().optional(),
+  result: z.array(z.object({ conf: voskScore }).catch({ conf: 0 })).catch([]),
+});
+
+// Turn a Vosk JSON line into an update. Returns null for lines that carry no speech (empty
+// partials, empty finals, other diagnostics).
+export function parseVoskLine(line: string, utteranceId: string): RecognizerUpdate | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  const parsed = voskMessageSchema.safeParse(json);
+  if (!parsed.success) {
+    return null;
+  }
+  const message = parsed.data;
+
+  if (message.partial !== undefined) {
+    const text = message.partial.trim();
+    // Partial results carry no confidence
+    return text ? { utteranceId, isFinal: false, alternatives: [{ transcript: text, confidence: 0 }] } : null;
+  }
+
+  if (message.alternatives) {
+    const alternatives: RecognitionAlternative[] = message.alternatives.flatMap(alternative =>
+      alternative?.text.trim() ? [{ transcript: alternative.text.trim(), confidence: alternative.confidence }] : []);
+    if (alternatives.length === 0) return null;
+    // Vosk reports alternative scores as unbounded likelihoods; scale them so the best reading is 1
+    const top = Math.max(...alternatives.map(alternative => alternative.confidence));
+    if (top > 1) {
+      alternatives.forEach(alternative => { alternative.confidence = Math.max(0, alternative.confidence / top); });
+    }
+    return { utteranceId, isFinal: true, alternatives };
+  }
+
+  if (message.text !== undefined) {
+    const text = message.text.trim();
+    if (!text) return null;
+    const words = message.result;
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + word.conf, 0) / words.length
+      : 1;
+    return { utteranceId, isFinal: true, alternatives: [{ transcript: text, confidence }] };
+  }
+
+  return null;
+}
+
+// Recognizer backed by an external process speaking the Vosk JSON protocol
+function processRecognizerFactory(command: string): RecognizerFactory {
+  return (options, callbacks) => {
+    const [program, ...args] = command.trim().split(/\s+/).map(part => part
+      .replace(/\{language\}/g, options.language)
+      .replace(/\{sampleRate\}/g, String(options.sampleRate))
+      .replace(/\{maxAlternatives\}/g, String(options.maxAlternatives)));
+
+    const child: ChildProcessWithoutNullStreams = spawn(program, args, { stdio: ["pipe", "pipe", "pipe"] });
+    let utterance = 0;
+    let buffered = "";
+    let closed = false;
+
+    child.stdout.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => {
+      buffered += chunk;
+      const lines = buffered.split("\n");
+      buffered = lines.pop() || "";
+      for (const line of lines) {
+        const update = parseVoskLine(line, String(utterance));
+        if (update) {
+          callbacks.onResult(update);
+        }
+        // Any final line (even an empty one) closes the utterance
+        if (/"(text|alternatives)"\s*:/.test(line)) {
+          utterance++;
+        }
+      }
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      console.warn("Local recognizer:", chunk.toString().trim());
+    });
+    child.on("error", (error) => {
+      callbacks.onError(`Could not start the local recognizer: ${error.message}`, true);
+    });
+    child.on("exit", (code) => {
+      if (!closed) {
+        callbacks.onError(`The local recognizer exited unexpectedly (code ${code})`, true);
+      }
+    });
+    // Writes after the process died would otherwise throw EPIPE
+    child.stdin.on("error", () => {});
+
+    return {
+      acceptAudio(pcm) {
+        if (!closed && child.stdin.writable) {
+          child.stdin.write(pcm);
+        }
+      },
+      close() {
+        closed = true;
+        child.stdin.end();
+        child.kill();
+      },
+    };
+  };
+}
+
+let recognizerFactory: RecognizerFactory | null = process.env.LOCAL_RECOGNIZER_COMMAND
+  ? processRecognizerFactory(process.env.LOCAL_RECOGNIZER_COMMAND)
+  : null;
+
+// Swap in a different recognizer (an in-process model, a remote service, a test double)
+export function setRecognizerFactory(factory: RecognizerFactory | null) {
+  recognizerFactory = factory;
+}
+
+export function isLocalRecognitionAvailable(): boolean {
+  return recognizerFactory !== null;
+}
+
+// One WebSocket per listening client. Binary messages are PCM; text messages are JSON commands:
+//   {"type": "language", "language": "es-ES"}  restart the recognizer in another language
+export function handleRecognitionConnection(socket: WebSocket, request: IncomingMessage) {
+  const send = (message: object) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  if (!recognizerFactory) {
+    send({ type: "error", message: "No local recognizer is configured on the server (set LOCAL_RECOGNIZER_COMMAND)", fatal: true });
+    socket.close();
+    return;
+  }
+
+  const params = new URL(request.url || "/", "http://localhost").searchParams;
+  const maxAlternatives = Math.max(1, Math.min(10, parseInt(params.get("maxAlternatives") || "1", 10) || 1));
+  let language = params.get("language") || "en-US";
+  let recognizer: LocalRecognizer | null = null;
+  // Utterance ids restart with each recognizer, so prefix them to keep them unique per connection
+  let generation = 0;
+
+  const startRecognizer = () => {
+    if (!LANGUAGE_PATTERN.test(language)) {
+      send({ type: "error", message: `Unsupported language tag "${language}"`, fatal: true });
+      socket.close();
+      return;
+    }
+    const current = ++generation;
+    recognizer = recognizerFactory!(
+      { language, sampleRate: RECOGNITION_SAMPLE_RATE, maxAlternatives },
+      {
+        onResult: (update) => send({ type: "result", ...update, utteranceId: `${current}:${update.utteranceId}` }),
+        onError: (message, fatal) => {
+          send({ type: "error", message, fatal });
+          if (fatal) socket.close();
+        },
+      },
+    );
+  };
+
+  socket.on("message", (data, isBinary) => {
+    if (isBinary) {
+      recognizer?.acceptAudio(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer));
+      return;
+    }
+    try {
+      const command = JSON.parse(data.toString());
+      if (command.type === "language" && typeof command.language === "string" && command.language !== language) {
+        language = command.language;
+        recognizer?.close();
+        startRecognizer();
+      }
+    } catch {
+      send({ type: "error", message: "Invalid recognition command", fatal: false });
+    }
+  });
+
+  socket.on("close", () => {
+    recognizer?.close();
+    recognizer = null;
+  });
+
+  startRecognizer();
+}
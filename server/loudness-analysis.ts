@@ -0,0 +1,49 @@
+import fs from "fs";
+import { decodeWav, detectAudioFormat } from "./audio-metadata";
+import { DEFAULT_LOUDNESS_TARGET, measureLoudness, normalizationGainDb, type LoudnessMeasurement } from "@shared/loudness";
+import type { Settings } from "@shared/schema";
+
+export type LoudnessSettings = Partial<Pick<Settings, "loudnessNormalization" | "loudnessTarget">>;
+
+export interface ClipLoudnessFields {
+  loudnessLufs: number | null;
+  peakDb: number | null;
+  normalizationGainDb: number;
+}
+
+// Measure a clip file on disk. Returns null when the server cannot decode it: only PCM WAV is
+// decoded here, compressed formats are measured in the browser and reported back.
+export function analyzeAudioFile(filePath: string): LoudnessMeasurement | null {
+  try {
+    const buffer = fs.readFileSync(filePath);
+    if (detectAudioFormat(buffer) !== "wav") {
+      return null;
+    }
+    const { channels, sampleRate } = decodeWav(buffer);
+    return measureLoudness(channels, sampleRate);
+  } catch (error) {
+    console.warn(`Could not analyze loudness of ${filePath}:`, error);
+    return null;
+  }
+}
+
+export function clipGainDb(measurement: Partial<LoudnessMeasurement>, settings: LoudnessSettings): number {
+  if (settings.loudnessNormalization === false) {
+    return 0;
+  }
+  return normalizationGainDb(measurement.loudnessLufs, measurement.peakDb, settings.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET);
+}
+
+// Loudness columns for a clip: measured from the file when possible, otherwise taken from the
+// fallback (a browser measurement sent with the upload, or the values stored in a profile)
+export function clipLoudnessFields(
+  filePath: string,
+  fallback: Partial<LoudnessMeasurement>,
+  settings: LoudnessSettings,
+): ClipLoudnessFields {
+  const measurement = analyzeAudioFile(filePath) ?? {
+    loudnessLufs: fallback.loudnessLufs ?? null,
+    peakDb: fallback.peakDb ?? null,
+  };
+  return { ...measurement, normalizationGainDb: clipGainDb(measurement, settings) };
+}
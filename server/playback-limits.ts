@@ -0,0 +1,54 @@
+import type { Settings, SoundClip, TriggerWord } from "@shared/schema";
+
+// Cooldowns and the global rate limit for triggered sounds. Enforced here on the server so every
+// connected client obeys the same limits. Fire times are runtime state only and reset on restart.
+
+export interface LimitResult {
+  allowed: boolean;
+  reason?: "trigger-cooldown" | "clip-cooldown" | "rate-limit";
+  retryAfterMs?: number;
+}
+
+const ALLOWED: LimitResult = { allowed: true };
+
+export class PlaybackLimiter {
+  private triggerLastFired = new Map<number, number>();
+  private clipLastPlayed = new Map<number, number>();
+  private recentPlays: number[] = [];
+
+  checkTrigger(trigger: Pick<TriggerWord, "id" | "cooldownMs">, now: number = Date.now()): LimitResult {
+    const last = this.triggerLastFired.get(trigger.id);
+    const remaining = last === undefined ? 0 : last + (trigger.cooldownMs || 0) - now;
+    return remaining > 0 ? { allowed: false, reason: "trigger-cooldown", retryAfterMs: remaining } : ALLOWED;
+  }
+
+  checkClip(clip: Pick<SoundClip, "id" | "cooldownMs">, now: number = Date.now()): LimitResult {
+    const last = this.clipLastPlayed.get(clip.id);
+    const remaining = last === undefined ? 0 : last + (clip.cooldownMs || 0) - now;
+    return remaining > 0 ? { allowed: false, reason: "clip-cooldown", retryAfterMs: remaining } : ALLOWED;
+  }
+
+  // At most rateLimitMaxSounds sounds in any rateLimitWindowSeconds window; 0 disables the limit
+  checkRate(settings: Pick<Settings, "rateLimitMaxSounds" | "rateLimitWindowSeconds">, now: number = Date.now()): LimitResult {
+    const max = settings.rateLimitMaxSounds || 0;
+    if (max <= 0) {
+      return ALLOWED;
+    }
+    const windowMs = (settings.rateLimitWindowSeconds || 0) * 1000;
+    this.recentPlays = this.recentPlays.filter(time => time > now - windowMs);
+    if (this.recentPlays.length < max) {
+      return ALLOWED;
+    }
+    return { allowed: false, reason: "rate-limit", retryAfterMs: this.recentPlays[0] + windowMs - now };
+  }
+
+  record(triggerId: number | null, clipId: number, now: number = Date.now()) {
+    if (triggerId !== null) {
+      this.triggerLastFired.set(triggerId, now);
+    }
+    this.clipLastPlayed.set(clipId, now);
+    this.recentPlays.push(now);
+  }
+}
+
+export const playbackLimiter = new PlaybackLimiter();
@@ -0,0 +1,85 @@
+import type { PlaybackOrder } from "@shared/schema";
+
+// Cycling state stored alongside a trigger (or the default response list)
+export interface PlaybackState {
+  currentIndex: number;
+  shuffleBag: number[];
+}
+
+export interface PlaybackPick {
+  soundClipId: number;
+  state: PlaybackState;
+}
+
+function shuffle(ids: number[], random: () => number): number[] {
+  const result = [...ids];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Pick the next clip for a list of clip IDs according to its playback order.
+// Returns the chosen clip and the state to persist for the next pick.
+export function pickNextClip(
+  clipIds: number[],
+  order: PlaybackOrder | null | undefined,
+  state: Partial<PlaybackState>,
+  weights: Map<number, number> = new Map(),
+  random: () => number = Math.random,
+): PlaybackPick | null {
+  if (clipIds.length === 0) {
+    return null;
+  }
+
+  const currentIndex = Math.min(Math.max(state.currentIndex || 0, 0), clipIds.length - 1);
+  const shuffleBag = state.shuffleBag || [];
+
+  switch (order) {
+    case "random": {
+      const soundClipId = clipIds[Math.floor(random() * clipIds.length)];
+      return { soundClipId, state: { currentIndex, shuffleBag: [] } };
+    }
+
+    case "shuffle-bag": {
+      // Drop clips removed since the bag was filled; refill once everything has played
+      let bag = shuffleBag.filter(id => clipIds.includes(id));
+      if (bag.length === 0) {
+        bag = shuffle(clipIds, random);
+        // currentIndex remembers the last clip played so a fresh bag never opens with it
+        if (bag.length > 1 && bag[0] === clipIds[currentIndex]) {
+          [bag[0], bag[bag.length - 1]] = [bag[bag.length - 1], bag[0]];
+        }
+      }
+      const [soundClipId, ...remaining] = bag;
+      return { soundClipId, state: { currentIndex: clipIds.indexOf(soundClipId), shuffleBag: remaining } };
+    }
+
+    case "weighted": {
+      const clipWeights = clipIds.map(id => Math.max(0, weights.get(id) ?? 1));
+      const total = clipWeights.reduce((sum, weight) => sum + weight, 0);
+      if (total === 0) {
+        // Every clip weighted to zero: fall back to a uniform pick rather than never playing
+        const soundClipId = clipIds[Math.floor(random() * clipIds.length)];
+        return { soundClipId, state: { currentIndex, shuffleBag: [] } };
+      }
+
+      let roll = random() * total;
+      for (let i = 0; i < clipIds.length; i++) {
+        roll -= clipWeights[i];
+        if (roll < 0) {
+          return { soundClipId: clipIds[i], state: { currentIndex, shuffleBag: [] } };
+        }
+      }
+      return { soundClipId: clipIds[clipIds.length - 1], state: { currentIndex, shuffleBag: [] } };
+    }
+
+    default: {
+      // Sequential round-robin
+      const soundClipId = clipIds[currentIndex];
+      const nextIndex = (currentIndex + 1) % clipIds.length;
+      return { soundClipId, state: { currentIndex: nextIndex, shuffleBag: [] } };
+    }
+  }
+}
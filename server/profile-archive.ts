@@ -0,0 +1,319 @@
+import fs from "fs";
+import path from "path";
+import { once } from "events";
+import { Readable } from "stream";
+import { finished } from "stream/promises";
+import { profileManifestSchema, type ProfileManifest } from "@shared/schema";
+
+// Profile format v2: a ustar archive holding manifest.json followed by each clip's raw audio
+// file, so a board of any size exports and imports as a stream instead of one base64 JSON
+// document. Written and read here without a tar dependency; only regular files are used, and
+// archives repacked with the tar command line tool read back fine.
+
+export const PROFILE_ARCHIVE_MIME = "application/x-tar";
+export const PROFILE_ARCHIVE_EXTENSION = ".tar";
+
+const MANIFEST_ENTRY = "manifest.json";
+const MAX_MANIFEST_BYTES = 16 * 1024 * 1024;
+const BLOCK = 512;
+
+export class ProfileArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileArchiveError";
+  }
+}
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, "0") + "\0";
+}
+
+function tarHeader(name: string, size: number): Buffer {
+  if (Buffer.byteLength(name) > 100) {
+    throw new ProfileArchiveError(`Archive entry name is too long: ${name}`);
+  }
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, "utf8");
+  header.write(octal(0o644, 8), 100, "ascii"); // mode
+  header.write(octal(0, 8), 108, "ascii"); // uid
+  header.write(octal(0, 8), 116, "ascii"); // gid
+  header.write(octal(size, 12), 124, "ascii");
+  header.write(octal(Math.floor(Date.now() / 1000), 12), 136, "ascii"); // mtime
+  header.write("        ", 148, "ascii"); // the checksum field counts as spaces while summing
+  header.write("0", 156, "ascii"); // regular file
+  header.write("ustar\u000000", 257, "ascii");
+  header.write(octal(headerChecksum(header), 7) + " ", 148, "ascii");
+  return header;
+}
+
+function headerChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function padding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+function readField(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf8");
+}
+
+function parseHeader(header: Buffer): { name: string; size: number; isFile: boolean } {
+  if (parseInt(readField(header, 148, 8).trim(), 8) !== headerChecksum(header)) {
+    throw new ProfileArchiveError("Not a profile archive (damaged or not a tar file)");
+  }
+  const prefix = header.toString("ascii", 257, 262) === "ustar" ? readField(header, 345, 155) : "";
+  const name = readField(header, 0, 100);
+  const type = header[156];
+  return {
+    name: (prefix ? `${prefix}/${name}` : name).replace(/^\.\//, ""),
+    size: parseInt(readField(header, 124, 12).trim() || "0", 8),
+    isFile: type === 0x30 || type === 0, // "0", or NUL from pre-POSIX tar
+  };
+}
+
+// Short and unique, so it always fits the 100-byte name field
+function audioEntryName(index: number, format: string): string {
+  return `audio/${String(index + 1).padStart(4, "0")}.${format.replace(/[^a-z0-9]/gi, "") || "bin"}`;
+}
+
+// Stream the archive for a manifest whose clips name their file in uploadDir (audioFile)
+export function profileArchiveStream(manifest: ProfileManifest, uploadDir: string): Readable {
+  return Readable.from(archiveChunks(manifest, uploadDir));
+}
+
+async function* archiveChunks(manifest: ProfileManifest, uploadDir: string): AsyncGenerator<Buffer> {
+  const files = manifest.soundClips.map((clip, index) => ({
+    entry: audioEntryName(index, clip.format),
+    filePath: path.join(uploadDir, path.basename(clip.audioFile)),
+  }));
+  const manifestJson = Buffer.from(JSON.stringify({
+    ...manifest,
+    soundClips: manifest.soundClips.map((clip, index) => ({ ...clip, audioFile: files[index].entry })),
+  }), "utf8");
+
+  yield tarHeader(MANIFEST_ENTRY, manifestJson.length);
+  yield manifestJson;
+  yield padding(manifestJson.length);
+
+  for (const file of files) {
+    const { size } = await fs.promises.stat(file.filePath);
+    yield tarHeader(file.entry, size);
+    let written = 0;
+    for await (const chunk of fs.createReadStream(file.filePath)) {
+      written += chunk.length;
+      yield chunk;
+    }
+    if (written !== size) {
+      throw new ProfileArchiveError(`${file.filePath} changed while it was being archived`);
+    }
+    yield padding(size);
+  }
+
+  yield Buffer.alloc(BLOCK * 2); // end-of-archive marker
+}
+
+function parseManifest(json: Buffer): ProfileManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(json.toString("utf8"));
+  } catch (error) {
+    throw new ProfileArchiveError("The archive's manifest.json is not valid JSON");
+  }
+  const parsed = profileManifestSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ProfileArchiveError(`Invalid manifest.json: ${issue.path.join(".") || "profile"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+interface ArchiveEntry {
+  name: string;
+  size: number;
+  isFile: boolean;
+  isManifest: boolean;
+  // The entry's contents as they arrive; only readable until the next entry is asked for
+  data(): AsyncGenerator<Buffer>;
+}
+
+// The entries of a profile archive as it streams in, checking that manifest.json comes first.
+// Whatever of an entry isn't read is skipped on the way to the next one.
+async function* archiveEntries(chunks: AsyncIterable<Buffer>): AsyncGenerator<ArchiveEntry> {
+  const source = chunks[Symbol.asyncIterator]();
+  let pending = Buffer.alloc(0);
+  // Read another chunk into pending; false once the input has ended
+  const more = async () => {
+    const next = await source.next();
+    if (next.done) return false;
+    pending = pending.length > 0 ? Buffer.concat([pending, next.value]) : next.value;
+    return true;
+  };
+  const truncated = () => new ProfileArchiveError("The profile archive is truncated");
+  let sawManifest = false;
+
+  try {
+    while (true) {
+      while (pending.length < BLOCK) {
+        if (!(await more())) return;
+      }
+      const header = pending.subarray(0, BLOCK);
+      pending = pending.subarray(BLOCK);
+      if (header.every(byte => byte === 0)) return;
+
+      const { name, size, isFile } = parseHeader(header);
+      const isManifest: boolean = isFile && name === MANIFEST_ENTRY && !sawManifest;
+      if (isManifest && size > MAX_MANIFEST_BYTES) {
+        throw new ProfileArchiveError("The archive's manifest.json is too large");
+      }
+      if (isFile && !isManifest && !sawManifest) {
+        throw new ProfileArchiveError("manifest.json must be the first file in a profile archive");
+      }
+      sawManifest ||= isManifest;
+
+      let remaining = size;
+      yield {
+        name,
+        size,
+        isFile,
+        isManifest,
+        async *data() {
+          while (remaining > 0) {
+            if (pending.length === 0 && !(await more())) throw truncated();
+            const data = pending.subarray(0, Math.min(remaining, pending.length));
+            pending = pending.subarray(data.length);
+            remaining -= data.length;
+            yield data;
+          }
+        },
+      };
+
+      let skip = remaining + padding(size).length;
+      while (skip > 0) {
+        if (pending.length === 0 && !(await more())) throw truncated();
+        const skipped = Math.min(skip, pending.length);
+        pending = pending.subarray(skipped);
+        skip -= skipped;
+      }
+    }
+  } finally {
+    await source.return?.();
+  }
+}
+
+async function readEntry(entry: ArchiveEntry): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const data of entry.data()) {
+    chunks.push(data);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Unpack an archive. manifest.json must be the first file; it is validated as soon as it has
+// arrived, then each audio file it names is streamed into uploadDir. Returns the manifest with
+// audioFile naming the unpacked file in uploadDir; clips whose audio is missing from the archive
+// are dropped. Files unpacked so far are removed again if anything fails.
+export async function extractProfileArchive(input: Readable, uploadDir: string): Promise<ProfileManifest> {
+  let manifest: ProfileManifest | null = null;
+  const unpacked = new Map<string, string>(); // entry name -> filename in uploadDir
+  let wanted = new Set<string>();
+  let sink: fs.WriteStream | null = null;
+
+  try {
+    // Keep the request open on failure so the caller can still answer it
+    for await (const entry of archiveEntries(input.iterator({ destroyOnReturn: false }))) {
+      if (entry.isManifest) {
+        manifest = parseManifest(await readEntry(entry));
+        wanted = new Set(manifest.soundClips.map(clip => clip.audioFile));
+        continue;
+      }
+      if (!entry.isFile || !wanted.has(entry.name) || unpacked.has(entry.name)) {
+        continue;
+      }
+
+      const filename = `${Date.now()}_${path.basename(entry.name)}`;
+      unpacked.set(entry.name, filename);
+      sink = fs.createWriteStream(path.join(uploadDir, filename));
+      sink.on("error", () => {}); // surfaced by the write below or by finished()
+      for await (const data of entry.data()) {
+        if (sink.errored) throw sink.errored;
+        if (!sink.write(data)) await once(sink, "drain");
+      }
+      sink.end();
+      await finished(sink);
+      sink = null;
+    }
+
+    if (!manifest) {
+      throw new ProfileArchiveError("Not a profile archive (no manifest.json)");
+    }
+  } catch (error) {
+    sink?.destroy();
+    for (const filename of Array.from(unpacked.values())) {
+      fs.promises.unlink(path.join(uploadDir, filename)).catch(() => {});
+    }
+    throw error;
+  }
+
+  const soundClips = manifest.soundClips.flatMap(clip => {
+    const filename = unpacked.get(clip.audioFile);
+    if (!filename) {
+      console.warn(`Audio for sound clip ${clip.name} is missing from the profile archive, skipping it`);
+      return [];
+    }
+    return [{ ...clip, audioFile: filename }];
+  });
+  return { ...manifest, soundClips };
+}
+
+// Read an archive without unpacking it, e.g. to check it before importing. Returns the manifest,
+// parsed but not validated; each file after it is handed to onFile whole, one at a time (data is
+// null past maxFileBytes, leaving just its size).
+export async function scanProfileArchive(
+  chunks: AsyncIterable<Buffer>,
+  onFile: (name: string, size: number, data: Buffer | null) => void,
+  maxFileBytes: number,
+): Promise<unknown> {
+  let manifest: unknown = undefined;
+  for await (const entry of archiveEntries(chunks)) {
+    if (entry.isManifest) {
+      const json = await readEntry(entry);
+      try {
+        manifest = JSON.parse(json.toString("utf8"));
+      } catch (error) {
+        throw new ProfileArchiveError("The archive's manifest.json is not valid JSON");
+      }
+    } else if (entry.isFile) {
+      onFile(entry.name, entry.size, entry.size <= maxFileBytes ? await readEntry(entry) : null);
+    }
+  }
+
+  if (manifest === undefined) {
+    throw new ProfileArchiveError("Not a profile archive (no manifest.json)");
+  }
+  return manifest;
+}
+
+// Just the manifest of an archive on disk, unvalidated, e.g. for the metadata saved with it
+export async function readProfileArchiveManifest(filePath: string): Promise<any> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(BLOCK);
+    await handle.read(header, 0, BLOCK, 0);
+    const { name, size } = parseHeader(header);
+    if (name !== MANIFEST_ENTRY || size > MAX_MANIFEST_BYTES) {
+      throw new ProfileArchiveError("Not a profile archive (no manifest.json)");
+    }
+    const json = Buffer.alloc(size);
+    await handle.read(json, 0, size, BLOCK);
+    return JSON.parse(json.toString("utf8"));
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,283 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { categoryPath } from "@shared/clip-library";
+import { normalizationGainDb } from "@shared/loudness";
+import type { IStorage } from "./storage";
+
+// Export -> import round trips of a populated board, in both profile formats, compared field by
+// field: whatever a board holds must come back the same, apart from ids and audio file names.
+//
+// Run with `npm test`. DatabaseStorage is covered only when TEST_DATABASE_URL names a database
+// that may be emptied.
+
+// Uploads live in the working directory, so the tests get one of their own
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "profile-import-test-"));
+process.chdir(workDir);
+const uploadDir = path.join(workDir, "uploads");
+fs.mkdirSync(uploadDir);
+
+const { MemStorage, DatabaseStorage } = await import("./storage");
+const { parseProfileJson } = await import("./profile-import");
+const { extractProfileArchive, profileArchiveStream } = await import("./profile-archive");
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+// The round trip copies audio without decoding it, so any bytes will do
+function writeAudio(filename: string, seed: number): number {
+  const data = Buffer.alloc(2048, seed);
+  fs.writeFileSync(path.join(uploadDir, filename), data);
+  return data.length;
+}
+
+async function populate(storage: IStorage): Promise<void> {
+  await storage.clearAllData();
+
+  const effects = await storage.createCategory({ name: "Effects", parentId: null });
+  const horns = await storage.createCategory({ name: "Horns", parentId: effects.id });
+  await storage.createCategory({ name: "Empty", parentId: effects.id });
+
+  const clip = async (name: string, seed: number, fields: Record<string, unknown>) => {
+    const filename = `${seed}_${name}.mp3`;
+    return await storage.createSoundClip({
+      name,
+      filename,
+      format: "mp3",
+      duration: 1.5 + seed,
+      size: writeAudio(filename, seed),
+      url: `/uploads/${filename}`,
+      ...fields,
+    });
+  };
+  const airhorn = await clip("Airhorn", 1, {
+    weight: 2,
+    sampleRate: 44100,
+    channels: 2,
+    bitrate: 128000,
+    trimStart: 0.1,
+    trimEnd: 1.2,
+    fadeIn: 0.05,
+    fadeOut: 0.2,
+    gainDb: -3,
+    loudnessLufs: -18.5,
+    peakDb: -1.25,
+    overlapPolicy: "layer",
+    cooldownMs: 500,
+    tags: ["horn", "loud"],
+    categoryId: horns.id,
+  });
+  // Two clips share a name, so only their uuids tell them apart
+  const ding = await clip("Ding", 2, { sampleRate: 48000, channels: 1, bitrate: 96000, tags: ["bell"] });
+  const otherDing = await clip("Ding", 3, { weight: 0.5, categoryId: effects.id });
+
+  const hello = await storage.createTriggerWord({
+    phrase: "hello",
+    soundClipIds: [airhorn.id, otherDing.id],
+    currentIndex: 1,
+    caseSensitive: true,
+    enabled: false,
+    matchMode: "fuzzy",
+    fuzzyThreshold: 2,
+    playbackOrder: "shuffle-bag",
+    shuffleBag: [otherDing.id],
+    overlapPolicy: "queue",
+    cooldownMs: 750,
+    language: "en-US",
+    minConfidence: 0.4,
+    earlyFire: true,
+  });
+  await storage.createTriggerWord({
+    phrase: "good (morning|night)",
+    soundClipIds: [airhorn.id, ding.id, otherDing.id],
+    currentIndex: 2,
+    matchType: "regex",
+    playbackOrder: "sequential",
+  });
+
+  await storage.updateSettings({
+    defaultResponseEnabled: true,
+    defaultResponseSoundClipIds: [ding.id, otherDing.id],
+    defaultResponseDelay: 0,
+    defaultResponseIndex: 1,
+    defaultResponsePlaybackOrder: "shuffle-bag",
+    defaultResponseShuffleBag: [otherDing.id],
+    loudnessNormalization: false,
+    loudnessTarget: -16,
+    masterVolume: 0.5,
+    maxVoices: 6,
+    rateLimitMaxSounds: 3,
+    rateLimitWindowSeconds: 30,
+    recognitionLanguage: "es-ES",
+    recognitionLanguages: ["en-US"],
+    recognitionLanguageMode: "rotate",
+    recognitionRotateSeconds: 12,
+    recognitionMaxAlternatives: 5,
+    recognitionEngine: "local",
+  });
+
+  await storage.createBinding({ input: "keyboard", shortcut: "Ctrl+KeyA", targetType: "clip", targetId: otherDing.id, enabled: false });
+  await storage.createBinding({ input: "midi-note", midiChannel: 10, midiNumber: 36, targetType: "trigger", targetId: hello.id });
+}
+
+// Everything the board holds, with ids swapped for what survives an import: clip uuids, trigger
+// phrases and folder paths
+async function snapshot(storage: IStorage) {
+  const clips = await storage.getSoundClips();
+  const triggers = await storage.getTriggerWords();
+  const folders = await storage.getCategories();
+  const uuid = (id: number) => clips.find(clip => clip.id === id)?.uuid ?? `missing clip ${id}`;
+
+  const { id: _settingsId, defaultResponseSoundClipIds, defaultResponseShuffleBag, ...settings } = await storage.getSettings();
+  return {
+    soundClips: clips
+      .map(({ id, filename, url, categoryId, ...clip }) => ({
+        ...clip,
+        category: categoryId === null ? [] : categoryPath(folders, categoryId),
+        audio: fs.readFileSync(path.join(uploadDir, filename)).toString("base64"),
+      }))
+      .sort((a, b) => a.uuid.localeCompare(b.uuid)),
+    triggerWords: triggers
+      .map(({ id, soundClipIds, shuffleBag, ...trigger }) => ({
+        ...trigger,
+        soundClips: soundClipIds.map(uuid),
+        shuffleBag: shuffleBag.map(uuid),
+      }))
+      .sort((a, b) => a.phrase.localeCompare(b.phrase)),
+    settings: {
+      ...settings,
+      defaultResponseSoundClips: (defaultResponseSoundClipIds ?? []).map(uuid),
+      defaultResponseShuffleBag: defaultResponseShuffleBag.map(uuid),
+    },
+    bindings: (await storage.getBindings())
+      .map(({ id, targetId, ...binding }) => ({
+        ...binding,
+        target: binding.targetType === "clip" ? uuid(targetId) : triggers.find(trigger => trigger.id === targetId)?.phrase,
+      }))
+      .sort((a, b) => String(a.shortcut ?? a.midiNumber).localeCompare(String(b.shortcut ?? b.midiNumber))),
+    categories: folders.map(folder => categoryPath(folders, folder.id).join("/")).sort(),
+  };
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function roundTripTests(createStorage: () => IStorage) {
+  let storage: IStorage;
+  before(() => {
+    storage = createStorage();
+  });
+
+  test("a v1 JSON profile restores every clip, trigger, setting, binding and folder", async () => {
+    await populate(storage);
+    const expected = await snapshot(storage);
+
+    // Through a file, as an uploaded or server-saved profile would be
+    const json = JSON.stringify(await storage.exportProfile());
+    const report = await storage.importProfile(parseProfileJson(json));
+
+    assert.deepEqual(report.skipped, []);
+    assert.deepEqual(await snapshot(storage), expected);
+  });
+
+  test("a v2 archive restores every clip, trigger, setting, binding and folder", async () => {
+    await populate(storage);
+    const expected = await snapshot(storage);
+
+    const archive = await readStream(profileArchiveStream(await storage.exportProfile("reference"), uploadDir));
+    const manifest = await extractProfileArchive(Readable.from([archive]), uploadDir);
+    const report = await storage.importProfile(manifest);
+
+    assert.deepEqual(report.skipped, []);
+    assert.deepEqual(await snapshot(storage), expected);
+  });
+
+  test("overwriting a trigger restores its playback position", async () => {
+    await populate(storage);
+    const expected = await snapshot(storage);
+    const profile = parseProfileJson(JSON.stringify(await storage.exportProfile()));
+
+    // Play on from where the profile was taken, then bring that position back
+    for (const trigger of await storage.getTriggerWords()) {
+      await storage.getNextSoundClipForTrigger(trigger.id);
+    }
+    assert.notDeepEqual((await snapshot(storage)).triggerWords, expected.triggerWords);
+    const report = await storage.importProfile(profile, { mode: "resolve", conflict: "overwrite" });
+
+    assert.equal(report.overwritten.filter(item => item.type === "trigger-word").length, 2);
+    assert.deepEqual((await snapshot(storage)).triggerWords, expected.triggerWords);
+  });
+}
+
+describe("MemStorage profile merge", () => {
+  test("clips from a profile without uuids are matched by name and audio", async () => {
+    const storage = new MemStorage();
+    await populate(storage);
+    const expected = await snapshot(storage);
+
+    // As exported before clips had uuids
+    const profile = await storage.exportProfile();
+    for (const clip of profile.soundClips) delete clip.uuid;
+    for (const trigger of profile.triggerWords) delete trigger.soundClipUuids;
+    // A clip of the same name with other audio is still new
+    profile.soundClips.push({ ...profile.soundClips[0], audioData: Buffer.alloc(16, 9).toString("base64") });
+
+    const report = await storage.importProfile(parseProfileJson(JSON.stringify(profile)), { mode: "merge" });
+
+    assert.deepEqual(report.added, [{ type: "sound-clip", name: "Airhorn" }]);
+    const clips = await storage.getSoundClips();
+    assert.equal(clips.length, expected.soundClips.length + 1);
+  });
+
+  test("merged clips are normalized to the loaded loudness target, not the profile's", async () => {
+    const storage = new MemStorage();
+    await populate(storage);
+    const profile = await storage.exportProfile();
+    profile.settings.loudnessNormalization = true;
+    profile.settings.loudnessTarget = -10;
+    profile.soundClips = [{ ...profile.soundClips.find(clip => clip.name === "Airhorn"), uuid: undefined, name: "Quiet horn" }];
+    await storage.updateSettings({ loudnessNormalization: true, loudnessTarget: -23 });
+
+    await storage.importProfile(parseProfileJson(JSON.stringify(profile)), { mode: "merge" });
+
+    // The fake audio can't be measured, so the profile's measurement is used
+    const imported = (await storage.getSoundClips()).find(clip => clip.name === "Quiet horn");
+    assert.equal(imported?.normalizationGainDb, normalizationGainDb(-18.5, -1.25, -23));
+    assert.equal((await storage.getSettings()).loudnessTarget, -23);
+  });
+
+  test("a v1 clip's file name can't place its audio outside uploads", async () => {
+    const storage = new MemStorage();
+    await populate(storage);
+    const profile = await storage.exportProfile();
+    profile.soundClips = [{ ...profile.soundClips[0], uuid: undefined, name: "Escape", filename: "../../escape.mp3" }];
+
+    await storage.importProfile(parseProfileJson(JSON.stringify(profile)), { mode: "merge" });
+
+    const imported = (await storage.getSoundClips()).find(clip => clip.name === "Escape");
+    assert.ok(imported);
+    assert.ok(!imported.filename.includes("/"));
+    assert.ok(fs.existsSync(path.join(uploadDir, imported.filename)));
+    assert.ok(!fs.existsSync(path.join(workDir, "..", "escape.mp3")));
+  });
+});
+
+describe("MemStorage profile round trip", () => {
+  roundTripTests(() => new MemStorage());
+});
+
+describe("DatabaseStorage profile round trip", { skip: !process.env.TEST_DATABASE_URL && "TEST_DATABASE_URL is not set" }, () => {
+  roundTripTests(() => {
+    process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+    return new DatabaseStorage();
+  });
+});
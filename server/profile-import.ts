@@ -0,0 +1,399 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { DEFAULT_LOUDNESS_TARGET } from "@shared/loudness";
+import { categoryPath, normalizeTags } from "@shared/clip-library";
+import { describeBinding } from "@shared/bindings";
+import { profileSchema, type Profile, type ProfileImportItemType, type SoundClip, type ProfileImportOptions, type ProfileImportReport } from "@shared/schema";
+import { AudioFormatError, probeAudio } from "./audio-metadata";
+import { clipLoudnessFields } from "./loudness-analysis";
+import type { IStorage } from "./storage";
+
+// Importing a profile into any storage backend, either in place of everything loaded or merged
+// into it (see profileImportModes in shared/schema.ts)
+
+const uploadDir = path.join(process.cwd(), "uploads");
+
+export class ProfileFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileFormatError";
+  }
+}
+
+// A v1 JSON profile, uploaded or saved on the server, checked against profileSchema (which also
+// brings older shapes up to date)
+export function parseProfileJson(json: string): Profile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new ProfileFormatError("Invalid profile file format");
+  }
+  const parsed = profileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ProfileFormatError(`Invalid profile file format: ${issue.path.join(".") || "profile"}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// Recreate a folder path from a profile, reusing the folders already created for it
+async function importCategoryPath(storage: IStorage, names: string[], pathToId: Map<string, number>): Promise<number | null> {
+  let parentId: number | null = null;
+  for (let depth = 1; depth <= names.length; depth++) {
+    const key = JSON.stringify(names.slice(0, depth));
+    let id = pathToId.get(key);
+    if (id === undefined) {
+      id = (await storage.createCategory({ name: names[depth - 1], parentId })).id;
+      pathToId.set(key, id);
+    }
+    parentId = id;
+  }
+  return parentId;
+}
+
+// Imported clip ids for a profile's clip references: by uuid when the profile has them,
+// otherwise by name
+function resolveProfileClips(uuids: string[] | undefined, names: string[] | undefined, uuidToId: Map<string, number>, nameToId: Map<string, number>): number[] {
+  if (uuids) {
+    return uuids.flatMap(uuid => uuidToId.get(uuid) ?? []);
+  }
+  return (names ?? []).flatMap(name => nameToId.get(name) ?? []);
+}
+
+// "name", else "name (2)", "name (3)", ...
+function uniqueName(name: string, isTaken: (candidate: string) => boolean): string {
+  let candidate = name;
+  for (let suffix = 2; isTaken(candidate); suffix++) {
+    candidate = `${name} (${suffix})`;
+  }
+  return candidate;
+}
+
+function phraseKey(phrase: string): string {
+  return phrase.trim().toLowerCase();
+}
+
+// The clip's audio file in uploads: archive (v2) audio has already been unpacked there, v1
+// audio is embedded as base64
+function importAudio(profileClip: any): string {
+  let filename: string;
+  if (profileClip.audioFile) {
+    filename = path.basename(profileClip.audioFile);
+  } else {
+    // Only the last part of the profile's file name is kept, so the audio lands in uploads
+    const safeName = path.basename(String(profileClip.filename)).replace(/[^a-zA-Z0-9._-]/g, '_');
+    filename = `${Date.now()}_${safeName}`;
+    fs.writeFileSync(path.join(uploadDir, filename), Buffer.from(profileClip.audioData, 'base64'));
+  }
+  if (!fs.existsSync(path.join(uploadDir, filename))) {
+    throw new Error(`Audio file ${filename} is missing`);
+  }
+  return filename;
+}
+
+// Sample rate, channels and bitrate as the profile has them; profiles exported before it carried
+// them get them probed from the audio, as an upload would
+function clipAudioFields(filePath: string, profileClip: any) {
+  if ("sampleRate" in profileClip || "channels" in profileClip || "bitrate" in profileClip) {
+    return {
+      sampleRate: profileClip.sampleRate ?? null,
+      channels: profileClip.channels ?? null,
+      bitrate: profileClip.bitrate ?? null,
+    };
+  }
+  try {
+    const { sampleRate, channels, bitrate } = probeAudio(fs.readFileSync(filePath));
+    return { sampleRate, channels, bitrate };
+  } catch (error) {
+    if (!(error instanceof AudioFormatError)) throw error;
+    return { sampleRate: null, channels: null, bitrate: null };
+  }
+}
+
+function audioHash(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// The hash of a profile clip's audio, or null if it can't be read
+function profileAudioHash(profileClip: any): string | null {
+  try {
+    if (profileClip.audioFile) {
+      return audioHash(fs.readFileSync(path.join(uploadDir, path.basename(profileClip.audioFile))));
+    }
+    return typeof profileClip.audioData === "string" ? audioHash(Buffer.from(profileClip.audioData, 'base64')) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+export async function importProfile(storage: IStorage, profileData: any, options: Partial<ProfileImportOptions> = {}): Promise<ProfileImportReport> {
+  const mode = options.mode ?? "replace";
+  const conflict = options.conflict ?? "rename";
+  const report: ProfileImportReport = { mode, added: [], skipped: [], renamed: [], overwritten: [] };
+  const skip = (type: ProfileImportItemType, name: string, reason: string) => {
+    report.skipped.push({ type, name, reason });
+  };
+  // In "merge" every clash keeps what is loaded, as does "resolve" with conflict "skip"
+  const keepExisting = mode === "merge" || conflict === "skip";
+
+  if (mode === "replace") {
+    await storage.clearAllData();
+  }
+  // Clip gains are worked out for the loudness target the board ends up with: the profile's when
+  // it replaces the board, otherwise the one already set
+  const loudnessSettings = mode === "replace" ? profileData.settings || {} : await storage.getSettings();
+
+  // Folders match by path, so merged clips land in folders that are already there
+  const existingCategories = await storage.getCategories();
+  const categoryPathToId = new Map(existingCategories.map(category =>
+    [JSON.stringify(categoryPath(existingCategories, category.id)), category.id]));
+  for (const names of profileData.categories || []) {
+    await importCategoryPath(storage, names, categoryPathToId);
+  }
+
+  // Import sound clips. A clip is already loaded if its uuid is or, for clips from profiles
+  // without uuids, if a clip with its name and audio is; in "resolve" a clip with the same name
+  // clashes too.
+  const existingClips = await storage.getSoundClips();
+  const clipNames = new Set(existingClips.map(clip => clip.name));
+  const existingHashes = new Map<number, string | null>();
+  const existingHash = (clip: SoundClip) => {
+    if (!existingHashes.has(clip.id)) {
+      let hash: string | null = null;
+      try {
+        hash = audioHash(fs.readFileSync(path.join(uploadDir, clip.filename)));
+      } catch (error) {
+        // A clip whose file is missing matches by name alone
+      }
+      existingHashes.set(clip.id, hash);
+    }
+    return existingHashes.get(clip.id) ?? null;
+  };
+  const findSameClip = (profileClip: any) => {
+    if (profileClip.uuid) {
+      return existingClips.find(clip => clip.uuid === profileClip.uuid);
+    }
+    const named = existingClips.filter(clip => clip.name === profileClip.name);
+    if (named.length === 0) return undefined;
+    const hash = profileAudioHash(profileClip);
+    return named.find(clip => hash === null || existingHash(clip) === null || existingHash(clip) === hash);
+  };
+  const soundClipNameToId = new Map<string, number>();
+  const soundClipUuidToId = new Map<string, number>();
+  const mapClip = (profileClip: any, id: number) => {
+    soundClipNameToId.set(profileClip.name, id);
+    if (profileClip.uuid && !soundClipUuidToId.has(profileClip.uuid)) soundClipUuidToId.set(profileClip.uuid, id);
+  };
+  for (const profileClip of profileData.soundClips || []) {
+    const sameClip = findSameClip(profileClip);
+    const existing = sameClip ?? (mode === "resolve" ? existingClips.find(clip => clip.name === profileClip.name) : undefined);
+    let name = profileClip.name;
+    if (existing) {
+      // The same clip is only ever reused or overwritten, never copied
+      if (keepExisting || (sameClip && conflict === "rename")) {
+        // Whatever refers to the clip in the profile uses the loaded one instead
+        mapClip(profileClip, existing.id);
+        skip("sound-clip", name, sameClip ? "This clip is already loaded" : `A clip named "${name}" already exists`);
+        continue;
+      }
+      if (conflict === "rename") {
+        name = uniqueName(name, candidate => clipNames.has(candidate));
+      }
+    }
+
+    try {
+      const filename = importAudio(profileClip);
+      const soundClipData = {
+        name,
+        filename,
+        format: profileClip.format,
+        duration: profileClip.duration,
+        size: profileClip.size,
+        url: `/uploads/${filename}`,
+        ...clipAudioFields(path.join(uploadDir, filename), profileClip),
+        weight: profileClip.weight ?? 1,
+        trimStart: profileClip.trimStart ?? 0,
+        trimEnd: profileClip.trimEnd ?? null,
+        fadeIn: profileClip.fadeIn ?? 0,
+        fadeOut: profileClip.fadeOut ?? 0,
+        gainDb: profileClip.gainDb ?? 0,
+        overlapPolicy: profileClip.overlapPolicy ?? null,
+        cooldownMs: profileClip.cooldownMs ?? 0,
+        tags: normalizeTags(profileClip.tags ?? []),
+        categoryId: await importCategoryPath(storage, profileClip.category ?? [], categoryPathToId),
+        ...clipLoudnessFields(path.join(uploadDir, filename), profileClip, loudnessSettings),
+      };
+
+      if (existing && conflict === "overwrite") {
+        // The loaded clip keeps its id and uuid, so its triggers and bindings still point at it
+        await storage.updateSoundClip(existing.id, soundClipData);
+        if (existing.filename !== filename) {
+          fs.rmSync(path.join(uploadDir, existing.filename), { force: true });
+        }
+        mapClip(profileClip, existing.id);
+        report.overwritten.push({ type: "sound-clip", name });
+        continue;
+      }
+
+      const createdClip = await storage.createSoundClip({
+        ...soundClipData,
+        // A uuid repeated within the profile goes to the first clip; later ones get their own
+        uuid: soundClipUuidToId.has(profileClip.uuid) ? undefined : profileClip.uuid,
+      });
+      mapClip(profileClip, createdClip.id);
+      clipNames.add(name);
+      report.added.push({ type: "sound-clip", name });
+      if (name !== profileClip.name) {
+        report.renamed.push({ type: "sound-clip", from: profileClip.name, to: name });
+      }
+    } catch (error) {
+      console.error(`Error importing sound clip ${profileClip.name}:`, error);
+      skip("sound-clip", profileClip.name, error instanceof Error ? error.message : "Import failed");
+    }
+  }
+
+  // Import trigger words; a trigger clashes with a loaded one for the same phrase
+  const existingTriggers = await storage.getTriggerWords();
+  const triggerPhrases = new Set(existingTriggers.map(trigger => phraseKey(trigger.phrase)));
+  const triggerPhraseToId = new Map<string, number>();
+  for (const profileTrigger of profileData.triggerWords || []) {
+    // The earliest profiles name a trigger's one clip as soundClipName
+    const soundClipNames = profileTrigger.soundClipNames ?? (profileTrigger.soundClipName ? [profileTrigger.soundClipName] : []);
+    const soundClipIds = resolveProfileClips(profileTrigger.soundClipUuids, soundClipNames, soundClipUuidToId, soundClipNameToId);
+    if (soundClipIds.length === 0) {
+      skip("trigger-word", profileTrigger.phrase, "None of its sound clips were imported");
+      continue;
+    }
+
+    const existing = existingTriggers.find(trigger => phraseKey(trigger.phrase) === phraseKey(profileTrigger.phrase));
+    let phrase = profileTrigger.phrase;
+    if (existing) {
+      if (keepExisting) {
+        triggerPhraseToId.set(profileTrigger.phrase, existing.id);
+        skip("trigger-word", phrase, `A trigger for "${existing.phrase}" already exists`);
+        continue;
+      }
+      if (conflict === "rename") {
+        phrase = uniqueName(phrase, candidate => triggerPhrases.has(phraseKey(candidate)));
+      }
+    }
+
+    try {
+      const triggerData = {
+        phrase,
+        soundClipIds,
+        currentIndex: Math.min(profileTrigger.currentIndex ?? 0, soundClipIds.length - 1),
+        shuffleBag: resolveProfileClips(profileTrigger.shuffleBag, [], soundClipUuidToId, soundClipNameToId),
+        caseSensitive: profileTrigger.caseSensitive || false,
+        enabled: profileTrigger.enabled !== false,
+        matchMode: profileTrigger.matchMode || "exact",
+        fuzzyThreshold: profileTrigger.fuzzyThreshold ?? 1,
+        matchType: profileTrigger.matchType || "substring",
+        playbackOrder: profileTrigger.playbackOrder || "sequential",
+        overlapPolicy: profileTrigger.overlapPolicy || "interrupt",
+        cooldownMs: profileTrigger.cooldownMs ?? 2000,
+        language: profileTrigger.language ?? null,
+        minConfidence: profileTrigger.minConfidence ?? 0,
+        earlyFire: profileTrigger.earlyFire ?? false,
+      };
+
+      if (existing && conflict === "overwrite") {
+        await storage.updateTriggerWord(existing.id, triggerData);
+        triggerPhraseToId.set(profileTrigger.phrase, existing.id);
+        report.overwritten.push({ type: "trigger-word", name: phrase });
+        continue;
+      }
+
+      const createdTrigger = await storage.createTriggerWord(triggerData);
+      triggerPhraseToId.set(profileTrigger.phrase, createdTrigger.id);
+      triggerPhrases.add(phraseKey(phrase));
+      report.added.push({ type: "trigger-word", name: phrase });
+      if (phrase !== profileTrigger.phrase) {
+        report.renamed.push({ type: "trigger-word", from: profileTrigger.phrase, to: phrase });
+      }
+    } catch (error) {
+      console.error(`Error importing trigger word ${profileTrigger.phrase}:`, error);
+      skip("trigger-word", profileTrigger.phrase, error instanceof Error ? error.message : "Import failed");
+    }
+  }
+
+  // Import settings; merging keeps the current ones
+  if (profileData.settings && mode === "replace") {
+    const defaultResponseSoundClipIds = resolveProfileClips(
+      profileData.settings.defaultResponseSoundClipUuids,
+      profileData.settings.defaultResponseSoundClipNames,
+      soundClipUuidToId,
+      soundClipNameToId,
+    );
+
+    await storage.updateSettings({
+      defaultResponseEnabled: profileData.settings.defaultResponseEnabled || false,
+      defaultResponseSoundClipIds,
+      defaultResponseDelay: profileData.settings.defaultResponseDelay ?? 2000,
+      defaultResponseIndex: profileData.settings.defaultResponseIndex ?? 0,
+      defaultResponsePlaybackOrder: profileData.settings.defaultResponsePlaybackOrder || "sequential",
+      defaultResponseShuffleBag: resolveProfileClips(profileData.settings.defaultResponseShuffleBag, [], soundClipUuidToId, soundClipNameToId),
+      loudnessNormalization: profileData.settings.loudnessNormalization ?? true,
+      loudnessTarget: profileData.settings.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET,
+      masterVolume: profileData.settings.masterVolume ?? 0.8,
+      maxVoices: profileData.settings.maxVoices ?? 4,
+      rateLimitMaxSounds: profileData.settings.rateLimitMaxSounds ?? 0,
+      rateLimitWindowSeconds: profileData.settings.rateLimitWindowSeconds ?? 10,
+      recognitionLanguage: profileData.settings.recognitionLanguage ?? "en-US",
+      recognitionLanguages: profileData.settings.recognitionLanguages ?? [],
+      recognitionLanguageMode: profileData.settings.recognitionLanguageMode ?? "pin",
+      recognitionRotateSeconds: profileData.settings.recognitionRotateSeconds ?? 8,
+      recognitionMaxAlternatives: profileData.settings.recognitionMaxAlternatives ?? 3,
+      recognitionEngine: profileData.settings.recognitionEngine ?? "web-speech",
+    });
+  }
+
+  // Import bindings; a binding clashes with a loaded one for the same key or MIDI input, and
+  // since an input can't be renamed, "rename" skips it
+  const existingBindings = await storage.getBindings();
+  for (const profileBinding of profileData.bindings || []) {
+    const input = {
+      input: profileBinding.input,
+      shortcut: profileBinding.shortcut ?? null,
+      midiChannel: profileBinding.midiChannel ?? null,
+      midiNumber: profileBinding.midiNumber ?? null,
+    };
+    const label = describeBinding(input);
+    const targetId = profileBinding.targetType === "clip"
+      ? resolveProfileClips(profileBinding.targetUuid && [profileBinding.targetUuid], [profileBinding.targetName], soundClipUuidToId, soundClipNameToId)[0]
+      : triggerPhraseToId.get(profileBinding.targetName);
+    if (!targetId) {
+      skip("binding", label, `Its ${profileBinding.targetType} "${profileBinding.targetName}" was not imported`);
+      continue;
+    }
+
+    const existing = existingBindings.find(binding => describeBinding(binding) === label);
+    if (existing && (mode === "merge" || conflict !== "overwrite")) {
+      skip("binding", label, `${label} is already bound`);
+      continue;
+    }
+
+    try {
+      const bindingData = {
+        ...input,
+        targetType: profileBinding.targetType,
+        targetId,
+        enabled: profileBinding.enabled !== false,
+      };
+      if (existing) {
+        await storage.updateBinding(existing.id, bindingData);
+        report.overwritten.push({ type: "binding", name: label });
+      } else {
+        await storage.createBinding(bindingData);
+        report.added.push({ type: "binding", name: label });
+      }
+    } catch (error) {
+      console.error(`Error importing binding for ${profileBinding.targetName}:`, error);
+      skip("binding", label, error instanceof Error ? error.message : "Import failed");
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,238 @@
+import { Readable } from "stream";
+import { PROFILE_ARCHIVE_VERSION, profileManifestSchema, profileSchema, type ProfilePreview, type ProfilePreviewIssue } from "@shared/schema";
+import { describeBinding } from "@shared/bindings";
+import { AudioFormatError, probeAudio, type AudioFormat } from "./audio-metadata";
+import { ProfileArchiveError, scanProfileArchive } from "./profile-archive";
+
+// Dry runs of a profile import: validate the profile, decode every clip's audio and check that
+// what triggers and bindings refer to would be imported too, without changing anything
+
+// Clips are uploaded with a 10MB limit, so anything bigger in an archive is only counted
+const MAX_CLIP_BYTES = 10 * 1024 * 1024;
+
+// A clip's audio once decoded: its real format (null if too large to check) or why it doesn't
+// decode, which the import doesn't stop for; or why the clip can't be imported at all
+type AudioCheck = { size: number; format: AudioFormat | null; problem?: string } | { error: string };
+
+function checkAudio(data: Buffer | null, size: number): AudioCheck {
+  if (size === 0) {
+    return { error: "Has no audio" };
+  }
+  if (!data) {
+    return { size, format: null };
+  }
+  try {
+    return { size, format: probeAudio(data).format };
+  } catch (error) {
+    if (error instanceof AudioFormatError) {
+      return { size, format: null, problem: `Audio could not be decoded, so it may not play: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+// v1 profiles embed the audio as base64
+function checkBase64Audio(clip: any): AudioCheck {
+  if (typeof clip?.audioData !== "string") {
+    return { error: "Has no audio" };
+  }
+  const base64 = clip.audioData.replace(/\s+/g, "");
+  const data = Buffer.from(base64, "base64");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+    return { size: data.length, format: null, problem: "Audio is not valid base64, so it may not play" };
+  }
+  return checkAudio(data, data.length);
+}
+
+function clipLabel(clip: any, index: number): string {
+  return typeof clip?.name === "string" ? `Clip "${clip.name}"` : `Clip #${index + 1}`;
+}
+
+function triggerLabel(trigger: any, index: number): string {
+  return typeof trigger?.phrase === "string" ? `Trigger "${trigger.phrase}"` : `Trigger #${index + 1}`;
+}
+
+function bindingLabel(binding: any, index: number): string {
+  return typeof binding?.input === "string" ? `Binding ${describeBinding(binding)}` : `Binding #${index + 1}`;
+}
+
+// The item a schema issue is about, e.g. ["soundClips", 2, "weight"] -> Clip "airhorn"
+function issueItem(data: any, path: Array<string | number>): string {
+  const [section, index] = path;
+  if (typeof index !== "number") {
+    return section === "settings" ? "Settings" : "Profile";
+  }
+  const item = data?.[section]?.[index];
+  switch (section) {
+    case "soundClips": return clipLabel(item, index);
+    case "triggerWords": return triggerLabel(item, index);
+    case "bindings": return bindingLabel(item, index);
+    default: return "Profile";
+  }
+}
+
+function arrayOf(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function unreadable(format: ProfilePreview["format"], fileBytes: number, message: string): ProfilePreview {
+  return {
+    format,
+    version: null,
+    valid: false,
+    errors: [{ item: "Profile", message }],
+    warnings: [],
+    totals: { soundClips: 0, triggerWords: 0, bindings: 0, categories: 0, duration: 0, audioBytes: 0, fileBytes },
+  };
+}
+
+function previewProfile(
+  raw: any,
+  format: ProfilePreview["format"],
+  fileBytes: number,
+  audioFor: (clip: any) => AudioCheck,
+): ProfilePreview {
+  const errors: ProfilePreviewIssue[] = [];
+  const warnings: ProfilePreviewIssue[] = [];
+
+  // A profile that doesn't match the schema is rejected as a whole
+  const parsed = (format === "archive" ? profileManifestSchema : profileSchema).safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const field = issue.path.slice(typeof issue.path[1] === "number" ? 2 : 1).join(".");
+      errors.push({ item: issueItem(raw, issue.path), message: field ? `${field}: ${issue.message}` : issue.message });
+    }
+  }
+  // Checked as it would be imported, older shapes brought up to date; as uploaded if it can't be
+  const data = parsed.success ? { ...parsed.data, version: raw?.version } : raw;
+
+  const version = typeof data?.version === "string" ? data.version : null;
+  if (version && version !== "1.0" && version !== PROFILE_ARCHIVE_VERSION) {
+    warnings.push({ item: "Profile", message: `Version ${version} is not one this app knows; anything new in it is ignored` });
+  }
+
+  // Clips, and what the imported ones can be referred to by
+  const clipUuids = new Set<string>();
+  const clipNames = new Set<string>();
+  const seenUuids = new Set<string>();
+  let duration = 0;
+  let audioBytes = 0;
+  arrayOf(data?.soundClips).forEach((clip, index) => {
+    const item = clipLabel(clip, index);
+    if (typeof clip?.uuid === "string") {
+      if (seenUuids.has(clip.uuid)) {
+        warnings.push({ item, message: "Has the same uuid as an earlier clip, so it gets a new one and nothing refers to it" });
+      }
+      seenUuids.add(clip.uuid);
+    }
+
+    const audio = audioFor(clip);
+    if ("error" in audio) {
+      errors.push({ item, message: audio.error });
+      return;
+    }
+    audioBytes += audio.size;
+    if (audio.problem) {
+      warnings.push({ item, message: audio.problem });
+    } else if (audio.format === null) {
+      warnings.push({ item, message: "Audio is too large to check" });
+    } else if (audio.format !== clip.format) {
+      warnings.push({ item, message: `Contains ${audio.format.toUpperCase()} audio but is marked as ${String(clip.format).toUpperCase()}` });
+    }
+    if (typeof clip.size === "number" && clip.size !== audio.size) {
+      warnings.push({ item, message: `Audio is ${audio.size} bytes but the profile says ${clip.size}` });
+    }
+    if (!clip.uuid && clipNames.has(clip.name)) {
+      warnings.push({ item, message: "Another clip has the same name; triggers and bindings naming it get the last one" });
+    }
+
+    duration += typeof clip.duration === "number" ? clip.duration : 0;
+    if (typeof clip.uuid === "string") clipUuids.add(clip.uuid);
+    if (typeof clip.name === "string") clipNames.add(clip.name);
+  });
+
+  // Triggers import with the clips of theirs that import
+  const triggerPhrases = new Set<string>();
+  arrayOf(data?.triggerWords).forEach((trigger, index) => {
+    const item = triggerLabel(trigger, index);
+    const byUuid = Array.isArray(trigger?.soundClipUuids);
+    const refs = arrayOf(byUuid ? trigger.soundClipUuids : trigger?.soundClipNames);
+    const found = refs.filter(ref => (byUuid ? clipUuids : clipNames).has(ref));
+    if (found.length === 0) {
+      errors.push({ item, message: "None of its clips would be imported, so it will be skipped" });
+      return;
+    }
+    if (found.length < refs.length) {
+      warnings.push({ item, message: `${refs.length - found.length} of its ${refs.length} clips would not be imported` });
+    }
+    triggerPhrases.add(trigger.phrase);
+  });
+
+  arrayOf(data?.bindings).forEach((binding, index) => {
+    const found = binding?.targetType === "clip"
+      ? (typeof binding.targetUuid === "string" ? clipUuids.has(binding.targetUuid) : clipNames.has(binding.targetName))
+      : triggerPhrases.has(binding?.targetName);
+    if (!found) {
+      errors.push({ item: bindingLabel(binding, index), message: `Its ${binding?.targetType ?? "target"} "${binding?.targetName}" would not be imported, so it will be skipped` });
+    }
+  });
+
+  return {
+    format,
+    version,
+    valid: parsed.success,
+    errors,
+    warnings,
+    totals: {
+      soundClips: arrayOf(data?.soundClips).length,
+      triggerWords: arrayOf(data?.triggerWords).length,
+      bindings: arrayOf(data?.bindings).length,
+      categories: arrayOf(data?.categories).length,
+      duration,
+      audioBytes,
+      fileBytes,
+    },
+  };
+}
+
+// A v1 profile: JSON with base64 audio
+export function previewProfileJson(json: string): ProfilePreview {
+  const fileBytes = Buffer.byteLength(json);
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return unreadable("json", fileBytes, "The file is not valid JSON");
+  }
+  return previewProfile(data, "json", fileBytes, checkBase64Audio);
+}
+
+// A v2 archive, read as it streams in. Each audio file is checked on arrival, so only one is
+// held in memory at a time.
+export async function previewProfileArchive(input: Readable): Promise<ProfilePreview> {
+  let fileBytes = 0;
+  async function* counted() {
+    for await (const chunk of input.iterator({ destroyOnReturn: false })) {
+      fileBytes += chunk.length;
+      yield chunk;
+    }
+  }
+
+  const files = new Map<string, AudioCheck>();
+  let manifest;
+  let problem: string | null = null;
+  try {
+    manifest = await scanProfileArchive(counted(), (name, size, data) => files.set(name, checkAudio(data, size)), MAX_CLIP_BYTES);
+  } catch (error) {
+    if (!(error instanceof ProfileArchiveError)) throw error;
+    problem = error.message;
+  }
+  // The file's size includes what follows the end of the archive, or the point it stopped
+  // being readable
+  for await (const chunk of counted()) {}
+  if (problem !== null) {
+    return unreadable("archive", fileBytes, problem);
+  }
+  return previewProfile(manifest, "archive", fileBytes, clip =>
+    files.get(clip?.audioFile) ?? { error: `Audio file ${clip?.audioFile} is missing from the archive` });
+}
@@ -1,11 +1,28 @@
-import type { Express, Request } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
+import { WebSocketServer } from "ws";
 import path from "path";
 import fs from "fs";
+import { pipeline } from "stream/promises";
 import { storage } from "./storage";
-import { insertSoundClipSchema, insertTriggerWordSchema, insertSettingsSchema } from "@shared/schema";
+import { insertSoundClipSchema, insertTriggerWordSchema, insertSettingsSchema, updateSoundClipSchema, clipLoudnessSchema, transcriptSchema, insertBindingSchema, insertCategorySchema, profileImportOptionsSchema, type InsertBinding, type ProfileImportOptions, type ProfileImportReport, type OverlapPolicy } from "@shared/schema";
+import { validateTriggerPattern } from "@shared/trigger-matching";
+import { validateClipEdits } from "@shared/clip-edits";
+import { validateBinding } from "@shared/bindings";
+import { filterSoundClips, normalizeTag, normalizeTags, parseTagList, tagCounts, validateCategoryParent } from "@shared/clip-library";
+import { AudioFormatError, claimedAudioFormat, probeAudio, type AudioMetadata } from "./audio-metadata";
+import { analyzeAudioFile, clipGainDb, clipLoudnessFields, type LoudnessSettings } from "./loudness-analysis";
+import { playbackLimiter } from "./playback-limits";
+import { evaluateTranscript, fireTrigger, pickClipOutsideCooldown } from "./transcript-evaluation";
+import { handleRecognitionConnection, isLocalRecognitionAvailable } from "./local-recognizer";
+import { broadcast, handleEventConnection, listDevices } from "./event-bus";
+import { PROFILE_ARCHIVE_EXTENSION, PROFILE_ARCHIVE_MIME, ProfileArchiveError, extractProfileArchive, profileArchiveStream } from "./profile-archive";
+import { ProfileFormatError, parseProfileJson } from "./profile-import";
+import { previewProfileArchive, previewProfileJson } from "./profile-preview";
+import { ServerProfileNameError, ServerProfileNotFoundError } from "./server-profiles";
+import { CLIENT_ID_HEADER, EVENTS_PATH, type LiveResource } from "@shared/events";
 
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -39,15 +56,90 @@ const upload = multer({
   },
 });
 
+function parseClientLoudness(body: any) {
+  const parsed = clipLoudnessSchema.safeParse({
+    loudnessLufs: body.loudnessLufs ? parseFloat(body.loudnessLufs) : null,
+    peakDb: body.peakDb ? parseFloat(body.peakDb) : null,
+  });
+  return parsed.success ? parsed.data : {};
+}
+
+// Recompute every clip's normalization gain, e.g. after the loudness target changes
+async function renormalizeSoundClips(settings: LoudnessSettings): Promise<void> {
+  for (const clip of await storage.getSoundClips()) {
+    const normalizationGainDb = clipGainDb(clip, settings);
+    if (normalizationGainDb !== clip.normalizationGainDb) {
+      await storage.updateSoundClip(clip.id, { normalizationGainDb });
+    }
+  }
+}
+
+// Clip and trigger changes also move clips in and out of the default responses and can remove
+// bindings, so they refresh everything
+const ALL_RESOURCES: LiveResource[] = ["sound-clips", "trigger-words", "settings", "bindings", "categories"];
+
+// Tell every tab (remote speakers in particular) that a clip was picked to play
+function announcePlay(req: Request, soundClipId: number, triggerId: number | null, overlapPolicy: OverlapPolicy | null) {
+  broadcast({ type: "clip-played", soundClipId, triggerId, overlapPolicy, origin: req.get(CLIENT_ID_HEADER) || null });
+}
+
+// Profile archives (v2) are posted as the raw request body and unpacked as they stream in; v1
+// JSON profiles come as a multipart upload
+type ProfileUploadRequest = Request & { file?: Express.Multer.File };
+
+function profileUpload(req: Request, res: Response, next: NextFunction) {
+  if (req.is(PROFILE_ARCHIVE_MIME)) {
+    return next();
+  }
+  upload.single("profile")(req, res, next);
+}
+
+// Import, then delete unpacked archive audio that no imported clip ended up using, including
+// all of it when the import fails
+async function importProfileData(profileData: any, options: ProfileImportOptions): Promise<ProfileImportReport> {
+  try {
+    return await storage.importProfile(profileData, options);
+  } finally {
+    const used = new Set((await storage.getSoundClips()).map(clip => clip.filename));
+    for (const clip of profileData.soundClips) {
+      if (clip.audioFile && !used.has(path.basename(clip.audioFile))) {
+        fs.rmSync(path.join(uploadDir, path.basename(clip.audioFile)), { force: true });
+      }
+    }
+  }
+}
+
+// A binding must describe a usable input and point at a clip or trigger that exists
+async function checkBinding(binding: InsertBinding): Promise<string | null> {
+  const inputError = validateBinding(binding);
+  if (inputError) return inputError;
+  const target = binding.targetType === "clip"
+    ? await storage.getSoundClip(binding.targetId)
+    : await storage.getTriggerWord(binding.targetId);
+  return target ? null : `The ${binding.targetType} this binding fires no longer exists`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Serve uploaded files
   app.use("/uploads", express.static(uploadDir));
 
   // Get all sound clips
+  // Optionally filtered: ?tag=a&tag=b or ?tags=a,b (clips carrying all of them) and
+  // ?category=<id> (that folder and its subfolders) or ?category=none (unfiled clips)
   app.get("/api/sound-clips", async (req, res) => {
     try {
       const soundClips = await storage.getSoundClips();
-      res.json(soundClips);
+      const tags = parseTagList([req.query.tag, req.query.tags].flat().filter(value => value !== undefined));
+      const category = req.query.category;
+      if (tags.length === 0 && category === undefined) {
+        return res.json(soundClips);
+      }
+
+      const categoryId = category === "none" ? "none" : category !== undefined ? parseInt(String(category)) : undefined;
+      if (Number.isNaN(categoryId)) {
+        return res.status(400).json({ message: "category must be a folder id or \"none\"" });
+      }
+      res.json(filterSoundClips(soundClips, await storage.getCategories(), { tags, categoryId }));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch sound clips" });
     }
@@ -66,18 +158,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No audio file provided" });
       }
 
-      const { originalname, filename, size, mimetype } = req.file;
-      let format = path.extname(originalname).toLowerCase().substring(1);
-      
-      // Handle WebM files that might not have proper extension
-      if (!format && mimetype === 'audio/webm') {
-        format = 'webm';
+      const { originalname, filename, size, mimetype, path: filePath } = req.file;
+      const format = claimedAudioFormat(path.extname(originalname), mimetype);
+      if (!format) {
+        fs.unlinkSync(filePath);
+        return res.status(400).json({ message: "Unsupported audio format" });
+      }
+
+      // Read the real format and duration from the file itself rather than trusting the name or the client
+      let metadata: AudioMetadata;
+      try {
+        metadata = probeAudio(fs.readFileSync(filePath));
+      } catch (error) {
+        fs.unlinkSync(filePath);
+        if (error instanceof AudioFormatError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      if (metadata.format !== format) {
+        fs.unlinkSync(filePath);
+        return res.status(400).json({
+          message: `File claims to be ${format.toUpperCase()} but contains ${metadata.format.toUpperCase()} audio`,
+        });
       }
       
       const name = req.body.name || path.basename(originalname, path.extname(originalname));
 
-      // Get audio duration (simplified - in real app would use audio processing library)
-      const duration = parseFloat(req.body.duration) || 0;
+      // Some containers (e.g. live-recorded WebM) may not yield a duration; fall back to the client's measurement
+      const duration = metadata.duration || parseFloat(req.body.duration) || 0;
 
       const soundClipData = {
         name,
@@ -86,10 +196,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         duration,
         size,
         url: `/uploads/${filename}`,
+        sampleRate: metadata.sampleRate,
+        channels: metadata.channels,
+        bitrate: metadata.bitrate,
+        // The browser sends its own measurement for formats the server cannot decode
+        ...clipLoudnessFields(filePath, parseClientLoudness(req.body), await storage.getSettings()),
       };
 
       const validatedData = insertSoundClipSchema.parse(soundClipData);
       const soundClip = await storage.createSoundClip(validatedData);
+      broadcast({ type: "changed", resources: ["sound-clips", "settings"] });
       
       res.status(201).json(soundClip);
     } catch (error) {
@@ -98,6 +214,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update sound clip
+  app.patch("/api/sound-clips/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateSoundClipSchema.parse(req.body);
+      const existing = await storage.getSoundClip(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Sound clip not found" });
+      }
+
+      const editError = validateClipEdits({ ...existing, ...updates }, existing.duration);
+      if (editError) {
+        return res.status(400).json({ message: editError });
+      }
+      if (updates.categoryId && !(await storage.getCategory(updates.categoryId))) {
+        return res.status(400).json({ message: "Folder not found" });
+      }
+      if (updates.tags) {
+        updates.tags = normalizeTags(updates.tags);
+      }
+
+      const soundClip = await storage.updateSoundClip(id, updates);
+      broadcast({ type: "changed", resources: ["sound-clips"] });
+      res.json(soundClip);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid sound clip data" });
+    }
+  });
+
+  // Re-run loudness analysis on existing clips (all of them, or the given ids). Clips the server
+  // cannot decode are listed in needsClientAnalysis for the browser to measure and report back.
+  app.post("/api/sound-clips/reanalyze", async (req, res) => {
+    try {
+      const ids: number[] | undefined = Array.isArray(req.body?.ids) ? req.body.ids : undefined;
+      const settings = await storage.getSettings();
+      const clips = (await storage.getSoundClips()).filter(clip => !ids || ids.includes(clip.id));
+      const analyzed: number[] = [];
+      const needsClientAnalysis: number[] = [];
+
+      for (const clip of clips) {
+        const measurement = analyzeAudioFile(path.join(uploadDir, clip.filename));
+        if (measurement) {
+          await storage.updateSoundClip(clip.id, { ...measurement, normalizationGainDb: clipGainDb(measurement, settings) });
+          analyzed.push(clip.id);
+        } else {
+          needsClientAnalysis.push(clip.id);
+        }
+      }
+
+      if (analyzed.length > 0) {
+        broadcast({ type: "changed", resources: ["sound-clips"] });
+      }
+      res.json({ analyzed, needsClientAnalysis });
+    } catch (error) {
+      console.error("Error reanalyzing sound clips:", error);
+      res.status(500).json({ message: "Failed to reanalyze sound clips" });
+    }
+  });
+
+  // Store a loudness measurement taken in the browser
+  app.put("/api/sound-clips/:id/loudness", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const measurement = clipLoudnessSchema.parse(req.body);
+      const settings = await storage.getSettings();
+      const soundClip = await storage.updateSoundClip(id, {
+        ...measurement,
+        normalizationGainDb: clipGainDb(measurement, settings),
+      });
+
+      if (!soundClip) {
+        return res.status(404).json({ message: "Sound clip not found" });
+      }
+
+      broadcast({ type: "changed", resources: ["sound-clips"] });
+      res.json(soundClip);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid loudness data" });
+    }
+  });
+
   // Delete sound clip
   app.delete("/api/sound-clips/:id", async (req, res) => {
     try {
@@ -117,12 +315,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       await storage.deleteSoundClip(id);
       console.log(`Deleted sound clip from database: ${id}`);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
       res.json({ message: "Sound clip deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete sound clip" });
     }
   });
 
+  // Relay a play request from a pad to the host that should play it (every host when no target
+  // is given). Nothing plays on the server; hosts receive a play-request event.
+  app.post("/api/sound-clips/:id/play", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const soundClip = await storage.getSoundClip(id);
+      if (!soundClip) {
+        return res.status(404).json({ message: "Sound clip not found" });
+      }
+
+      const target: string | null = typeof req.body?.target === "string" && req.body.target ? req.body.target : null;
+      const hosts = listDevices().filter(device => device.role === "host");
+      const receivers = target ? hosts.filter(device => device.clientId === target) : hosts;
+      if (receivers.length === 0) {
+        return res.status(409).json({ message: target ? "That device is no longer connected" : "No host device is connected" });
+      }
+
+      broadcast({ type: "play-request", soundClipId: id, target, origin: req.get(CLIENT_ID_HEADER) || null });
+      res.json({ receivers: receivers.length });
+    } catch (error) {
+      console.error("Error relaying play request:", error);
+      res.status(500).json({ message: "Failed to relay play request" });
+    }
+  });
+
   // Get all trigger words
   app.get("/api/trigger-words", async (req, res) => {
     try {
@@ -142,8 +366,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = insertTriggerWordSchema.parse(req.body);
       console.log("Validated data:", validatedData);
       
+      const patternError = validateTriggerPattern(validatedData);
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+      
       const triggerWord = await storage.createTriggerWord(validatedData);
       console.log("Created trigger word:", triggerWord);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
       
       res.status(201).json(triggerWord);
     } catch (error) {
@@ -162,12 +392,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const updates = insertTriggerWordSchema.partial().parse(req.body);
-      const triggerWord = await storage.updateTriggerWord(id, updates);
+      const existing = await storage.getTriggerWord(id);
       
-      if (!triggerWord) {
+      if (!existing) {
         return res.status(404).json({ message: "Trigger word not found" });
       }
       
+      // Validate the pattern as it will be after the update, since phrase and matchType can change separately
+      const patternError = validateTriggerPattern({ ...existing, ...updates });
+      if (patternError) {
+        return res.status(400).json({ message: patternError });
+      }
+      
+      const triggerWord = await storage.updateTriggerWord(id, updates);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
       res.json(triggerWord);
     } catch (error) {
       res.status(400).json({ message: "Invalid update data" });
@@ -179,6 +417,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       await storage.deleteTriggerWord(id);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
       res.json({ message: "Trigger word deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete trigger word" });
@@ -200,6 +439,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const updates = insertSettingsSchema.partial().parse(req.body);
       const settings = await storage.updateSettings(updates);
+      if (updates.loudnessNormalization !== undefined || updates.loudnessTarget !== undefined) {
+        await renormalizeSoundClips(settings);
+        broadcast({ type: "changed", resources: ["settings", "sound-clips"] });
+      } else {
+        broadcast({ type: "changed", resources: ["settings"] });
+      }
       res.json(settings);
     } catch (error) {
       console.error("Error updating settings:", error);
@@ -210,92 +455,359 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get next default response sound clip ID
   app.get("/api/settings/next-default-response", async (req, res) => {
     try {
-      const soundClipId = await storage.getNextDefaultResponse();
-      res.json({ soundClipId });
+      const settings = await storage.getSettings();
+      const rate = playbackLimiter.checkRate(settings);
+      if (!rate.allowed) {
+        return res.status(429).json({ message: "Rate limit reached", soundClipId: null, retryAfterMs: rate.retryAfterMs });
+      }
+
+      const attempts = settings.defaultResponseSoundClipIds?.length || 0;
+      const result = await pickClipOutsideCooldown(() => storage.getNextDefaultResponse(), attempts);
+      if (result.soundClipId === null && result.limit) {
+        return res.status(429).json({ message: "Sound clip is cooling down", soundClipId: null, retryAfterMs: result.limit.retryAfterMs });
+      }
+      if (result.soundClipId !== null) {
+        playbackLimiter.record(null, result.soundClipId);
+        const clip = await storage.getSoundClip(result.soundClipId);
+        announcePlay(req, result.soundClipId, null, clip?.overlapPolicy ?? null);
+      }
+      res.json({ soundClipId: result.soundClipId });
     } catch (error) {
       console.error("Error getting next default response:", error);
       res.status(500).json({ message: "Failed to get next default response" });
     }
   });
 
-  // Get next sound clip for a trigger word (cycling functionality)
+  // Get next sound clip for a trigger word (cycling functionality). Cooldowns and the global
+  // rate limit are enforced here so every client obeys them; blocked requests get a 429.
   app.get("/api/trigger-words/:id/next-sound-clip", async (req, res) => {
     try {
       const triggerId = parseInt(req.params.id);
-      const nextSoundClipId = await storage.getNextSoundClipForTrigger(triggerId);
-      
-      if (nextSoundClipId === null) {
+      const trigger = await storage.getTriggerWord(triggerId);
+      if (!trigger || !trigger.soundClipIds || trigger.soundClipIds.length === 0) {
         return res.status(404).json({ message: 'Trigger word not found or no sound clips associated' });
       }
-      
-      return res.status(200).json({ soundClipId: nextSoundClipId });
+
+      const result = await fireTrigger(trigger);
+      if (result.soundClipId === null) {
+        if (result.blocked) {
+          const message = result.blocked.reason === 'trigger-cooldown' ? 'Trigger is cooling down'
+            : result.blocked.reason === 'rate-limit' ? 'Rate limit reached'
+            : 'Every sound clip for this trigger is cooling down';
+          return res.status(429).json({ message, soundClipId: null, retryAfterMs: result.blocked.retryAfterMs });
+        }
+        return res.status(404).json({ message: 'Trigger word not found or no sound clips associated' });
+      }
+
+      const clip = await storage.getSoundClip(result.soundClipId);
+      announcePlay(req, result.soundClipId, triggerId, clip?.overlapPolicy ?? trigger.overlapPolicy);
+      return res.status(200).json({ soundClipId: result.soundClipId });
     } catch (error) {
       console.error('Error getting next sound clip for trigger:', error);
       return res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  // Export profile
+  // Evaluate a transcript against every trigger: the same matching rules as the voice recognition
+  // hook, plus cooldowns, rate limiting and clip cycling. Returns the clips to play and why.
+  app.post("/api/transcripts", async (req, res) => {
+    const parsed = transcriptSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid transcript", errors: parsed.error.errors });
+    }
+
+    try {
+      const evaluation = await evaluateTranscript(parsed.data);
+      for (const entry of evaluation.play) {
+        announcePlay(req, entry.soundClipId, entry.triggerId, entry.overlapPolicy);
+      }
+      res.json(evaluation);
+    } catch (error) {
+      console.error("Error evaluating transcript:", error);
+      res.status(500).json({ message: "Failed to evaluate transcript" });
+    }
+  });
+
+  // Every tag in use, with how many clips carry it
+  app.get("/api/tags", async (req, res) => {
+    try {
+      res.json(tagCounts(await storage.getSoundClips()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Rename a tag on every clip; renaming onto an existing tag merges the two
+  app.patch("/api/tags/:tag", async (req, res) => {
+    try {
+      const from = normalizeTag(req.params.tag);
+      const to = typeof req.body?.name === "string" ? normalizeTag(req.body.name) : "";
+      if (!to) {
+        return res.status(400).json({ message: "A new tag name is required" });
+      }
+
+      let updated = 0;
+      for (const clip of await storage.getSoundClips()) {
+        if (clip.tags.includes(from)) {
+          await storage.updateSoundClip(clip.id, { tags: normalizeTags(clip.tags.map(tag => tag === from ? to : tag)) });
+          updated++;
+        }
+      }
+      if (updated === 0) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      broadcast({ type: "changed", resources: ["sound-clips"] });
+      res.json({ tag: to, soundClips: updated });
+    } catch (error) {
+      console.error("Error renaming tag:", error);
+      res.status(500).json({ message: "Failed to rename tag" });
+    }
+  });
+
+  // Remove a tag from every clip
+  app.delete("/api/tags/:tag", async (req, res) => {
+    try {
+      const tag = normalizeTag(req.params.tag);
+      for (const clip of await storage.getSoundClips()) {
+        if (clip.tags.includes(tag)) {
+          await storage.updateSoundClip(clip.id, { tags: clip.tags.filter(existing => existing !== tag) });
+        }
+      }
+      broadcast({ type: "changed", resources: ["sound-clips"] });
+      res.json({ message: "Tag deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // Get all library folders
+  app.get("/api/categories", async (req, res) => {
+    try {
+      res.json(await storage.getCategories());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch folders" });
+    }
+  });
+
+  // Create folder
+  app.post("/api/categories", async (req, res) => {
+    try {
+      const validatedData = insertCategorySchema.parse(req.body);
+      const parentError = validateCategoryParent(await storage.getCategories(), validatedData);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.createCategory(validatedData);
+      broadcast({ type: "changed", resources: ["categories"] });
+      res.status(201).json(category);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid folder data" });
+    }
+  });
+
+  // Rename or move folder
+  app.patch("/api/categories/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = insertCategorySchema.partial().parse(req.body);
+      if (!(await storage.getCategory(id))) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      const parentError = validateCategoryParent(await storage.getCategories(), updates, id);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.updateCategory(id, updates);
+      broadcast({ type: "changed", resources: ["categories"] });
+      res.json(category);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid folder data" });
+    }
+  });
+
+  // Delete folder; its clips and subfolders move up a level
+  app.delete("/api/categories/:id", async (req, res) => {
+    try {
+      await storage.deleteCategory(parseInt(req.params.id));
+      broadcast({ type: "changed", resources: ["categories", "sound-clips"] });
+      res.json({ message: "Folder deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
+  });
+
+  // Get all keyboard and MIDI bindings
+  app.get("/api/bindings", async (req, res) => {
+    try {
+      res.json(await storage.getBindings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch bindings" });
+    }
+  });
+
+  // Create binding
+  app.post("/api/bindings", async (req, res) => {
+    try {
+      const validatedData = insertBindingSchema.parse(req.body);
+      const bindingError = await checkBinding(validatedData);
+      if (bindingError) {
+        return res.status(400).json({ message: bindingError });
+      }
+
+      const binding = await storage.createBinding(validatedData);
+      broadcast({ type: "changed", resources: ["bindings"] });
+      res.status(201).json(binding);
+    } catch (error) {
+      console.error("Error creating binding:", error);
+      res.status(400).json({ message: "Invalid binding data" });
+    }
+  });
+
+  // Update binding
+  app.patch("/api/bindings/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = insertBindingSchema.partial().parse(req.body);
+      const existing = await storage.getBinding(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Binding not found" });
+      }
+
+      const bindingError = await checkBinding({ ...existing, ...updates });
+      if (bindingError) {
+        return res.status(400).json({ message: bindingError });
+      }
+
+      const binding = await storage.updateBinding(id, updates);
+      broadcast({ type: "changed", resources: ["bindings"] });
+      res.json(binding);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid binding data" });
+    }
+  });
+
+  // Delete binding
+  app.delete("/api/bindings/:id", async (req, res) => {
+    try {
+      await storage.deleteBinding(parseInt(req.params.id));
+      broadcast({ type: "changed", resources: ["bindings"] });
+      res.json({ message: "Binding deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete binding" });
+    }
+  });
+
+  // Export profile: a v2 archive streamed straight from the audio files, or ?format=json for a
+  // v1 profile with base64 audio
   app.get("/api/profile/export", async (req, res) => {
+    const basename = `callsound-profile-${new Date().toISOString().split('T')[0]}`;
     try {
-      const profileData = await storage.exportProfile();
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="callsound-profile-${new Date().toISOString().split('T')[0]}.json"`);
-      res.json(profileData);
+      if (req.query.format === "json") {
+        const profileData = await storage.exportProfile();
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Content-Disposition', `attachment; filename="${basename}.json"`);
+        return res.json(profileData);
+      }
+
+      const manifest = await storage.exportProfile("reference");
+      res.setHeader('Content-Type', PROFILE_ARCHIVE_MIME);
+      res.setHeader('Content-Disposition', `attachment; filename="${basename}${PROFILE_ARCHIVE_EXTENSION}"`);
+      await pipeline(profileArchiveStream(manifest, uploadDir), res);
     } catch (error) {
       console.error("Error exporting profile:", error);
-      res.status(500).json({ message: "Failed to export profile" });
+      if (res.headersSent) {
+        // Mid-stream: cut the download short so it is not mistaken for a complete archive
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export profile" });
+      }
     }
   });
 
-  // Import profile
-  app.post("/api/profile/import", upload.single("profile"), async (req: Request & { file?: Express.Multer.File }, res) => {
+  // Import profile; ?mode=replace|merge|resolve and, for resolve, ?conflict=rename|skip|overwrite
+  app.post("/api/profile/import", profileUpload, async (req: ProfileUploadRequest, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No profile file provided" });
+      const options = profileImportOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        if (req.file) fs.unlinkSync(req.file.path);
+        return res.status(400).json({ message: "Invalid import mode" });
       }
 
-      // Read and parse the profile file
-      const profileContent = fs.readFileSync(req.file.path, 'utf-8');
-      const profileData = JSON.parse(profileContent);
-
-      // Validate profile data structure
-      if (!profileData.version || !profileData.soundClips || !profileData.triggerWords || !profileData.settings) {
-        return res.status(400).json({ message: "Invalid profile file format" });
+      let profileData;
+      if (req.is(PROFILE_ARCHIVE_MIME)) {
+        profileData = await extractProfileArchive(req, uploadDir);
+      } else {
+        if (!req.file) {
+          return res.status(400).json({ message: "No profile file provided" });
+        }
+
+        // Read and parse the profile file
+        const profileContent = fs.readFileSync(req.file.path, 'utf-8');
+        fs.unlinkSync(req.file.path);
+        profileData = parseProfileJson(profileContent);
       }
 
       // Import the profile
-      await storage.importProfile(profileData);
-
-      // Clean up uploaded file
-      fs.unlinkSync(req.file.path);
+      const report = await importProfileData(profileData, options.data);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
 
-      res.json({ message: "Profile imported successfully" });
+      res.json({ message: "Profile imported successfully", report });
     } catch (error) {
       console.error("Error importing profile:", error);
+      if (error instanceof ProfileArchiveError || error instanceof ProfileFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to import profile" });
     }
   });
 
+  // Check a profile without importing it: the same upload as /api/profile/import, answered with
+  // what is wrong with it and what it holds
+  app.post("/api/profile/import/preview", profileUpload, async (req: ProfileUploadRequest, res) => {
+    try {
+      if (req.is(PROFILE_ARCHIVE_MIME)) {
+        return res.json(await previewProfileArchive(req));
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No profile file provided" });
+      }
+      const profileContent = fs.readFileSync(req.file.path, 'utf-8');
+      fs.unlinkSync(req.file.path);
+      res.json(previewProfileJson(profileContent));
+    } catch (error) {
+      console.error("Error previewing profile:", error);
+      res.status(500).json({ message: "Failed to check profile" });
+    }
+  });
+
   // Save profile to server
   app.post("/api/profile/save-to-server", async (req, res) => {
     try {
-      const { filename, readOnly } = req.body;
+      const { filename, readOnly, note } = req.body;
       if (!filename || typeof filename !== 'string' || filename.trim() === '') {
         return res.status(400).json({ message: "Filename is required" });
       }
+      if (note !== undefined && (typeof note !== 'string' || note.length > 500)) {
+        return res.status(400).json({ message: "The note must be text of at most 500 characters" });
+      }
 
-      const profile = await storage.exportProfile();
+      const profile = await storage.exportProfile("reference");
       
       // Validate that profile has at least one sound clip
       if (!profile.soundClips || profile.soundClips.length === 0) {
         return res.status(400).json({ message: "Cannot save profile: At least one sound clip is required" });
       }
       
-      await storage.saveProfileToServer(profile, filename.trim(), readOnly || false);
+      await storage.saveProfileToServer(profile, filename.trim(), readOnly || false, note?.trim());
       
       res.json({ message: "Profile saved to server successfully" });
     } catch (error) {
+      if (error instanceof ServerProfileNameError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error saving profile to server:", error);
       res.status(500).json({ message: error.message || "Failed to save profile to server" });
     }
@@ -312,19 +824,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Load profile from server
+  // Saved versions of a server profile, newest (the current one) first
+  app.get("/api/profile/server-profiles/:filename/versions", async (req, res) => {
+    try {
+      const versions = await storage.getServerProfileVersions(req.params.filename);
+      res.json({ versions });
+    } catch (error) {
+      if (error instanceof ServerProfileNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ServerProfileNameError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error getting server profile versions:", error);
+      res.status(500).json({ message: "Failed to get server profile versions" });
+    }
+  });
+
+  // Make an earlier version of a server profile the current one
+  app.post("/api/profile/server-profiles/:filename/versions/:version/rollback", async (req, res) => {
+    try {
+      await storage.rollbackServerProfile(req.params.filename, req.params.version);
+      res.json({ message: "Profile rolled back successfully" });
+    } catch (error) {
+      if (error instanceof ServerProfileNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ServerProfileNameError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error rolling back server profile:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to roll back server profile" });
+    }
+  });
+
+  // Load profile from server, with the same import modes as /api/profile/import; ?version=<id>
+  // loads an earlier version
   app.get("/api/profile/load-from-server/:filename", async (req, res) => {
     try {
       const { filename } = req.params;
       if (!filename) {
         return res.status(400).json({ message: "Filename is required" });
       }
+      const options = profileImportOptionsSchema.safeParse(req.query);
+      if (!options.success) {
+        return res.status(400).json({ message: "Invalid import mode" });
+      }
 
-      const profileData = await storage.loadProfileFromServer(filename);
-      await storage.importProfile(profileData);
+      const version = typeof req.query.version === 'string' ? req.query.version : undefined;
+      const profileData = await storage.loadProfileFromServer(filename, version);
+      const report = await importProfileData(profileData, options.data);
+      broadcast({ type: "changed", resources: ALL_RESOURCES });
       
-      res.json({ message: "Profile loaded from server successfully" });
+      res.json({ message: "Profile loaded from server successfully", report });
     } catch (error) {
+      if (error instanceof ServerProfileNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ServerProfileNameError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ProfileArchiveError || error instanceof ProfileFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error loading profile from server:", error);
       res.status(500).json({ message: error.message || "Failed to load profile from server" });
     }
@@ -341,11 +903,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.deleteServerProfile(filename);
       res.json({ message: "Profile deleted from server successfully" });
     } catch (error) {
+      if (error instanceof ServerProfileNameError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error deleting profile from server:", error);
       res.status(500).json({ message: "Failed to delete profile from server" });
     }
   });
 
+  // Whether the "local" recognition engine can be used (a recognizer is configured on the server)
+  app.get("/api/recognition/status", (req, res) => {
+    res.json({ localAvailable: isLocalRecognitionAvailable() });
+  });
+
+  // Tabs connected to the event bus, for picking which device plays relayed clips
+  app.get("/api/devices", (req, res) => {
+    res.json(listDevices());
+  });
+
   const httpServer = createServer(app);
+
+  // WebSocket endpoints share the HTTP server. They are routed by path on upgrade so other
+  // upgrade requests (such as Vite's HMR socket in development) reach their own listeners.
+  const recognitionSockets = new WebSocketServer({ noServer: true });
+  recognitionSockets.on("connection", handleRecognitionConnection);
+  const eventSockets = new WebSocketServer({ noServer: true });
+  eventSockets.on("connection", handleEventConnection);
+
+  httpServer.on("upgrade", (request, socket, head) => {
+    const { pathname } = new URL(request.url || "/", "http://localhost");
+    if (pathname === "/api/recognition") {
+      recognitionSockets.handleUpgrade(request, socket, head, (ws) => {
+        recognitionSockets.emit("connection", ws, request);
+      });
+    } else if (pathname === EVENTS_PATH) {
+      eventSockets.handleUpgrade(request, socket, head, (ws) => {
+        eventSockets.emit("connection", ws, request);
+      });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,44 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Server profiles live in the working directory, so the tests get one of their own
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "server-profiles-test-"));
+process.chdir(workDir);
+fs.mkdirSync(path.join(workDir, "uploads"));
+
+const { ServerProfileNameError, listServerProfiles, removeServerProfile, saveServerProfile } = await import("./server-profiles");
+
+after(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+const manifest = {
+  version: "2.0",
+  exportDate: new Date().toISOString(),
+  soundClips: [],
+  triggerWords: [],
+  settings: { defaultResponseEnabled: false, defaultResponseSoundClipNames: [], defaultResponseDelay: 2000 },
+};
+
+describe("server profile names", () => {
+  test('deleting an empty, "." or ".." name removes nothing', async () => {
+    await saveServerProfile(manifest, "board", false);
+    await saveServerProfile(manifest, "board", false, "second version");
+    await saveServerProfile(manifest, "locked", true);
+
+    for (const name of ["..", ".", ""]) {
+      await assert.rejects(removeServerProfile(name), ServerProfileNameError, `deleting "${name}"`);
+    }
+
+    const profiles = await listServerProfiles();
+    assert.deepEqual(profiles.map(profile => [profile.name, profile.versions]).sort(), [["board", 2], ["locked", 1]]);
+  });
+
+  test("saving under a dot name is refused", async () => {
+    await assert.rejects(saveServerProfile(manifest, "..", false), ServerProfileNameError);
+    assert.ok(!fs.existsSync(path.join(workDir, "server-profiles", "...tar")));
+  });
+});
@@ -0,0 +1,268 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import type { ServerProfileInfo, ServerProfileVersion } from "@shared/schema";
+import { PROFILE_ARCHIVE_EXTENSION, extractProfileArchive, profileArchiveStream, readProfileArchiveManifest } from "./profile-archive";
+import { parseProfileJson } from "./profile-import";
+
+// Profiles saved on the server, shared by every storage backend. New saves are v2 archives
+// (server-profiles/<name>.tar); v1 JSON profiles saved before that still list, load and delete.
+// Saving over a profile keeps the version it replaces in server-profiles/.history/<name>/, up to
+// the retention limit, so any of them can be loaded again or rolled back to.
+
+const serverProfilesDir = path.join(process.cwd(), "server-profiles");
+const historyDir = path.join(serverProfilesDir, ".history");
+const uploadDir = path.join(process.cwd(), "uploads");
+
+// How many versions of each profile are kept, the current one included
+const versionLimit = Math.max(1, parseInt(process.env.SERVER_PROFILE_VERSION_LIMIT || '20', 10) || 20);
+
+export class ServerProfileNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerProfileNotFoundError";
+  }
+}
+
+export class ServerProfileNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ServerProfileNameError";
+  }
+}
+
+function profilePaths(name: string) {
+  const sanitized = name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  // "." and ".." would make the history folder server-profiles/.history or server-profiles itself
+  if (sanitized === '' || sanitized === '.' || sanitized === '..') {
+    throw new ServerProfileNameError(`"${name}" is not a valid profile name`);
+  }
+  return {
+    archive: path.join(serverProfilesDir, sanitized + PROFILE_ARCHIVE_EXTENSION),
+    json: path.join(serverProfilesDir, sanitized + '.json'),
+    history: checkedHistoryPath(path.join(historyDir, sanitized)),
+  };
+}
+
+// A profile's history folder must be one folder directly inside .history, since whole history
+// folders are listed and removed
+function checkedHistoryPath(dir: string): string {
+  if (path.dirname(path.resolve(dir)) !== path.resolve(historyDir)) {
+    throw new ServerProfileNameError(`${dir} is not a profile history folder`);
+  }
+  return dir;
+}
+
+// readOnly, savedAt and note are stored alongside the profile data
+async function readMetadata(filePath: string): Promise<{ readOnly?: boolean; savedAt?: string; note?: string }> {
+  if (filePath.endsWith(PROFILE_ARCHIVE_EXTENSION)) {
+    return await readProfileArchiveManifest(filePath);
+  }
+  return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+}
+
+async function isReadOnly(filePath: string): Promise<boolean> {
+  if (!fs.existsSync(filePath)) return false;
+  try {
+    return (await readMetadata(filePath)).readOnly === true;
+  } catch (error) {
+    // If we can't read the file, it can be replaced or deleted
+    return false;
+  }
+}
+
+// The file holding the current version: an archive, or a v1 JSON profile saved before those
+function currentFile(paths: ReturnType<typeof profilePaths>): string | null {
+  if (fs.existsSync(paths.archive)) return paths.archive;
+  if (fs.existsSync(paths.json)) return paths.json;
+  return null;
+}
+
+// Version ids double as file names in the history directory
+function versionId(savedAt: string): string {
+  return savedAt.replace(/[:.]/g, '-');
+}
+
+async function versionOf(filePath: string, current: boolean): Promise<ServerProfileVersion> {
+  let metadata: { readOnly?: boolean; savedAt?: string; note?: string } = {};
+  try {
+    metadata = await readMetadata(filePath);
+  } catch (error) {
+    // Still listed, dated by the file itself
+  }
+  const savedAt = metadata.savedAt ?? fs.statSync(filePath).mtime.toISOString();
+  return { id: versionId(savedAt), savedAt, note: metadata.note, readOnly: metadata.readOnly === true, current };
+}
+
+function historyFiles(paths: ReturnType<typeof profilePaths>): string[] {
+  if (!fs.existsSync(checkedHistoryPath(paths.history))) return [];
+  return fs.readdirSync(paths.history)
+    .filter(file => file.endsWith(PROFILE_ARCHIVE_EXTENSION) || file.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(file => path.join(paths.history, file));
+}
+
+// Move the current version into the history, then drop the oldest versions past the limit
+async function retireCurrentVersion(paths: ReturnType<typeof profilePaths>): Promise<void> {
+  const current = currentFile(paths);
+  if (current) {
+    const { id } = await versionOf(current, true);
+    fs.mkdirSync(paths.history, { recursive: true });
+    fs.renameSync(current, path.join(paths.history, id + path.extname(current)));
+    // An archive saved over a v1 profile leaves nothing of it behind
+    fs.rmSync(paths.json, { force: true });
+  }
+  for (const file of historyFiles(paths).slice(versionLimit - 1)) {
+    fs.rmSync(file, { force: true });
+  }
+}
+
+// Save a v2 manifest (clips naming their file in uploads) as an archive, keeping the version it
+// replaces in the history, unless the current version is read-only
+export async function saveServerProfile(manifest: any, name: string, readOnly: boolean, note?: string): Promise<void> {
+  const paths = profilePaths(name);
+  if (!fs.existsSync(serverProfilesDir)) {
+    fs.mkdirSync(serverProfilesDir, { recursive: true });
+  }
+  if (await isReadOnly(paths.archive) || await isReadOnly(paths.json)) {
+    throw new Error(`Cannot overwrite read-only profile "${name}"`);
+  }
+
+  // Write to a temp file and rename so a failed save never leaves a truncated archive
+  const tempFile = `${paths.archive}.tmp`;
+  try {
+    await pipeline(
+      profileArchiveStream({ ...manifest, readOnly, savedAt: new Date().toISOString(), note: note || undefined }, uploadDir),
+      fs.createWriteStream(tempFile),
+    );
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+  await retireCurrentVersion(paths);
+  fs.renameSync(tempFile, paths.archive);
+}
+
+export async function listServerProfiles(): Promise<ServerProfileInfo[]> {
+  if (!fs.existsSync(serverProfilesDir)) {
+    return [];
+  }
+
+  const profiles = new Map<string, ServerProfileInfo>();
+  for (const file of fs.readdirSync(serverProfilesDir)) {
+    const extension = path.extname(file);
+    if (extension !== PROFILE_ARCHIVE_EXTENSION && extension !== '.json') continue;
+    const name = path.basename(file, extension);
+    // An archive supersedes a JSON profile of the same name
+    if (profiles.has(name) && extension === '.json') continue;
+    let paths;
+    try {
+      paths = profilePaths(name);
+    } catch (error) {
+      // Not a name a profile can be saved under (e.g. "..json"), so not one of ours
+      if (error instanceof ServerProfileNameError) continue;
+      throw error;
+    }
+    const versions = 1 + historyFiles(paths).length;
+    try {
+      const metadata = await readMetadata(path.join(serverProfilesDir, file));
+      profiles.set(name, { name, readOnly: metadata.readOnly || false, savedAt: metadata.savedAt, note: metadata.note, versions });
+    } catch (error) {
+      // If we can't read the profile, just include the name with readOnly: false
+      profiles.set(name, { name, readOnly: false, versions });
+    }
+  }
+
+  return Array.from(profiles.values());
+}
+
+// Newest first; the first is the current version
+export async function listServerProfileVersions(name: string): Promise<ServerProfileVersion[]> {
+  const paths = profilePaths(name);
+  const current = currentFile(paths);
+  if (!current) {
+    throw new ServerProfileNotFoundError(`Profile "${name}" not found on server`);
+  }
+  const versions = [await versionOf(current, true)];
+  for (const file of historyFiles(paths)) {
+    versions.push(await versionOf(file, false));
+  }
+  return versions;
+}
+
+// The file holding a version, the current one when no version is given
+async function versionFile(name: string, version?: string): Promise<string> {
+  const paths = profilePaths(name);
+  const current = currentFile(paths);
+  if (!current) {
+    throw new ServerProfileNotFoundError(`Profile "${name}" not found on server`);
+  }
+  if (!version || (await versionOf(current, true)).id === version) {
+    return current;
+  }
+  const file = /^[0-9A-Za-z-]+$/.test(version)
+    ? historyFiles(paths).find(file => path.basename(file, path.extname(file)) === version)
+    : undefined;
+  if (!file) {
+    throw new ServerProfileNotFoundError(`Version ${version} of profile "${name}" not found on server`);
+  }
+  return file;
+}
+
+// Returns profile data for importProfile. Archives are unpacked first, so their manifest comes
+// back with audioFile naming each clip's unpacked file in uploads.
+export async function loadServerProfile(name: string, version?: string): Promise<any> {
+  const file = await versionFile(name, version);
+  if (file.endsWith(PROFILE_ARCHIVE_EXTENSION)) {
+    const input = fs.createReadStream(file);
+    try {
+      return await extractProfileArchive(input, uploadDir);
+    } finally {
+      input.destroy();
+    }
+  }
+  return parseProfileJson(await fs.promises.readFile(file, 'utf8'));
+}
+
+// Make an earlier version current again. It is saved as a new version, so the rollback itself
+// can be undone.
+export async function rollbackServerProfileVersion(name: string, version: string): Promise<void> {
+  const paths = profilePaths(name);
+  const file = await versionFile(name, version);
+  if (file === currentFile(paths)) {
+    return;
+  }
+  if (await isReadOnly(paths.archive) || await isReadOnly(paths.json)) {
+    throw new Error(`Cannot roll back read-only profile "${name}"`);
+  }
+  const { savedAt } = await versionOf(file, false);
+  const note = `Rolled back to the version saved ${savedAt}`;
+
+  if (file.endsWith('.json')) {
+    const profile = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    await retireCurrentVersion(paths);
+    await fs.promises.writeFile(paths.json, JSON.stringify({ ...profile, readOnly: false, savedAt: new Date().toISOString(), note }));
+    return;
+  }
+
+  // Archives are unpacked and saved again, which stamps the new version
+  const manifest = await loadServerProfile(name, version);
+  try {
+    await saveServerProfile(manifest, name, false, note);
+  } finally {
+    for (const clip of manifest.soundClips) {
+      fs.rmSync(path.join(uploadDir, path.basename(clip.audioFile)), { force: true });
+    }
+  }
+}
+
+export async function removeServerProfile(name: string): Promise<void> {
+  const paths = profilePaths(name);
+  if (await isReadOnly(paths.archive) || await isReadOnly(paths.json)) {
+    throw new Error(`Cannot delete read-only profile "${name}"`);
+  }
+  fs.rmSync(paths.archive, { force: true });
+  fs.rmSync(paths.json, { force: true });
+  fs.rmSync(checkedHistoryPath(paths.history), { recursive: true, force: true });
+}
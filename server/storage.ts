@@ -1,15 +1,22 @@
-import { soundClips, triggerWords, settings, type SoundClip, type InsertSoundClip, type TriggerWord, type InsertTriggerWord, type Settings, type InsertSettings } from "@shared/schema";
+import { soundClips, triggerWords, settings, bindings, categories, type SoundClip, type InsertSoundClip, type TriggerWord, type InsertTriggerWord, type Settings, type InsertSettings, type Binding, type InsertBinding, type BindingTarget, type Category, type InsertCategory, type ProfileImportOptions, type ProfileImportReport, type ServerProfileInfo, type ServerProfileVersion, PROFILE_ARCHIVE_VERSION } from "@shared/schema";
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
+import { randomUUID } from "crypto";
+import { pickNextClip } from "./playback-order";
+import { DEFAULT_LOUDNESS_TARGET } from "@shared/loudness";
+import { categoryPath } from "@shared/clip-library";
+import { importProfile as importProfileInto } from "./profile-import";
+import { listServerProfileVersions, listServerProfiles, loadServerProfile, removeServerProfile, rollbackServerProfileVersion, saveServerProfile } from "./server-profiles";
 
 export interface IStorage {
   // Sound clips
   getSoundClips(): Promise<SoundClip[]>;
   getSoundClip(id: number): Promise<SoundClip | undefined>;
   createSoundClip(soundClip: InsertSoundClip): Promise<SoundClip>;
+  updateSoundClip(id: number, updates: Partial<InsertSoundClip>): Promise<SoundClip | undefined>;
   deleteSoundClip(id: number): Promise<void>;
   
   // Trigger words
@@ -25,39 +32,149 @@ export interface IStorage {
   updateSettings(settings: Partial<InsertSettings>): Promise<Settings>;
   getNextDefaultResponse(): Promise<number | null>;
 
-  // Profile export/import methods
-  exportProfile(): Promise<any>;
-  importProfile(profileData: any): Promise<void>;
+  // Keyboard and MIDI bindings
+  getBindings(): Promise<Binding[]>;
+  getBinding(id: number): Promise<Binding | undefined>;
+  createBinding(binding: InsertBinding): Promise<Binding>;
+  updateBinding(id: number, binding: Partial<InsertBinding>): Promise<Binding | undefined>;
+  deleteBinding(id: number): Promise<void>;
+
+  // Library folders
+  getCategories(): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  createCategory(category: InsertCategory): Promise<Category>;
+  updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  // Subfolders and clips move up to the deleted folder's parent
+  deleteCategory(id: number): Promise<void>;
+
+  // Profile export/import methods. "embed" exports a v1 profile with base64 audio; "reference"
+  // exports a v2 archive manifest whose clips name their file in uploads (audioFile).
+  exportProfile(audio?: "embed" | "reference"): Promise<any>;
+  importProfile(profileData: any, options?: Partial<ProfileImportOptions>): Promise<ProfileImportReport>;
   clearAllData(): Promise<void>;
   
   // Server profile storage methods
-  saveProfileToServer(profileData: any, filename: string, readOnly?: boolean): Promise<void>;
-  getServerProfiles(): Promise<Array<{name: string, readOnly: boolean, savedAt?: string}>>;
-  loadProfileFromServer(filename: string): Promise<any>;
+  saveProfileToServer(profileData: any, filename: string, readOnly?: boolean, note?: string): Promise<void>;
+  getServerProfiles(): Promise<ServerProfileInfo[]>;
+  // Newest first, the current version included
+  getServerProfileVersions(filename: string): Promise<ServerProfileVersion[]>;
+  // The current version unless one is given
+  loadProfileFromServer(filename: string, version?: string): Promise<any>;
+  rollbackServerProfile(filename: string, version: string): Promise<void>;
   deleteServerProfile(filename: string): Promise<void>;
 
 
 }
 
+// Profiles refer to clips by uuid, and by name for readers from before uuids existed
+function clipUuids(soundClips: SoundClip[], ids: number[]): string[] {
+  return ids.flatMap(id => soundClips.find(clip => clip.id === id)?.uuid ?? []);
+}
+
+// Records as the in-memory backends store them, with every column the insert left out at its
+// default. Snapshots written before a column existed are read through these too.
+function soundClipRecord(id: number, clip: InsertSoundClip): SoundClip {
+  return {
+    ...clip,
+    id,
+    uuid: clip.uuid ?? randomUUID(),
+    isDefault: true, // All new clips start as default clips
+    weight: clip.weight ?? 1,
+    sampleRate: clip.sampleRate ?? null,
+    channels: clip.channels ?? null,
+    bitrate: clip.bitrate ?? null,
+    trimStart: clip.trimStart ?? 0,
+    trimEnd: clip.trimEnd ?? null,
+    fadeIn: clip.fadeIn ?? 0,
+    fadeOut: clip.fadeOut ?? 0,
+    gainDb: clip.gainDb ?? 0,
+    loudnessLufs: clip.loudnessLufs ?? null,
+    peakDb: clip.peakDb ?? null,
+    normalizationGainDb: clip.normalizationGainDb ?? 0,
+    overlapPolicy: clip.overlapPolicy ?? null,
+    cooldownMs: clip.cooldownMs ?? 0,
+    tags: clip.tags ?? [],
+    categoryId: clip.categoryId ?? null,
+  };
+}
+
+function triggerWordRecord(id: number, trigger: InsertTriggerWord): TriggerWord {
+  return {
+    ...trigger,
+    id,
+    enabled: trigger.enabled !== false,
+    caseSensitive: trigger.caseSensitive || false,
+    currentIndex: trigger.currentIndex ?? 0,
+    soundClipIds: trigger.soundClipIds || [],
+    matchMode: trigger.matchMode || "exact",
+    fuzzyThreshold: trigger.fuzzyThreshold ?? 1,
+    matchType: trigger.matchType || "substring",
+    playbackOrder: trigger.playbackOrder || "sequential",
+    overlapPolicy: trigger.overlapPolicy || "interrupt",
+    cooldownMs: trigger.cooldownMs ?? 2000,
+    language: trigger.language ?? null,
+    minConfidence: trigger.minConfidence ?? 0,
+    earlyFire: trigger.earlyFire ?? false,
+    shuffleBag: trigger.shuffleBag ?? [],
+  };
+}
+
+function bindingRecord(id: number, binding: InsertBinding): Binding {
+  return {
+    ...binding,
+    id,
+    shortcut: binding.shortcut ?? null,
+    midiChannel: binding.midiChannel ?? null,
+    midiNumber: binding.midiNumber ?? null,
+    enabled: binding.enabled ?? true,
+  };
+}
+
+function categoryRecord(id: number, category: InsertCategory): Category {
+  return { ...category, id, parentId: category.parentId ?? null };
+}
+
 export class MemStorage implements IStorage {
-  private soundClips: Map<number, SoundClip>;
-  private triggerWords: Map<number, TriggerWord>;
-  private settings: Settings;
-  private currentSoundClipId: number;
-  private currentTriggerWordId: number;
+  protected soundClips: Map<number, SoundClip>;
+  protected triggerWords: Map<number, TriggerWord>;
+  protected settings: Settings;
+  protected bindings: Map<number, Binding>;
+  protected categories: Map<number, Category>;
+  protected currentSoundClipId: number;
+  protected currentTriggerWordId: number;
+  protected currentBindingId: number;
+  protected currentCategoryId: number;
 
   constructor() {
     this.soundClips = new Map();
     this.triggerWords = new Map();
+    this.bindings = new Map();
+    this.categories = new Map();
     this.settings = {
       id: 1,
       defaultResponseEnabled: true,
       defaultResponseSoundClipIds: [],
-      defaultResponseDelay: 0,
+      defaultResponseDelay: 2000,
       defaultResponseIndex: 0,
+      defaultResponsePlaybackOrder: "sequential",
+      defaultResponseShuffleBag: [],
+      loudnessNormalization: true,
+      loudnessTarget: DEFAULT_LOUDNESS_TARGET,
+      masterVolume: 0.8,
+      maxVoices: 4,
+      rateLimitMaxSounds: 0,
+      rateLimitWindowSeconds: 10,
+      recognitionLanguage: "en-US",
+      recognitionLanguages: [],
+      recognitionLanguageMode: "pin",
+      recognitionRotateSeconds: 8,
+      recognitionMaxAlternatives: 3,
+      recognitionEngine: "web-speech",
     };
     this.currentSoundClipId = 1;
     this.currentTriggerWordId = 1;
+    this.currentBindingId = 1;
+    this.currentCategoryId = 1;
     
     // Ensure server profiles directory exists
     const serverProfilesDir = path.join(process.cwd(), "server-profiles");
@@ -76,11 +193,7 @@ export class MemStorage implements IStorage {
 
   async createSoundClip(insertSoundClip: InsertSoundClip): Promise<SoundClip> {
     const id = this.currentSoundClipId++;
-    const soundClip: SoundClip = { 
-      ...insertSoundClip, 
-      id,
-      isDefault: true // All new clips start as default clips
-    };
+    const soundClip = soundClipRecord(id, insertSoundClip);
     this.soundClips.set(id, soundClip);
     
     // Automatically add to default response list when default responses are enabled
@@ -93,14 +206,25 @@ export class MemStorage implements IStorage {
     return soundClip;
   }
 
+  async updateSoundClip(id: number, updates: Partial<InsertSoundClip>): Promise<SoundClip | undefined> {
+    const existing = this.soundClips.get(id);
+    if (!existing) return undefined;
+
+    const updated: SoundClip = { ...existing, ...updates };
+    this.soundClips.set(id, updated);
+    return updated;
+  }
+
   async deleteSoundClip(id: number): Promise<void> {
     this.soundClips.delete(id);
+    this.removeBindingsFor("clip", id);
     // Remove sound clip from trigger words and delete triggers with no clips left
     for (const [triggerId, triggerWord] of Array.from(this.triggerWords.entries())) {
       const updatedIds = triggerWord.soundClipIds.filter(clipId => clipId !== id);
       if (updatedIds.length === 0) {
         // Delete trigger word if no sound clips left
         this.triggerWords.delete(triggerId);
+        this.removeBindingsFor("trigger", triggerId);
         console.log(`Deleted trigger word ${triggerWord.phrase} (no sound clips remaining)`);
       } else if (updatedIds.length !== triggerWord.soundClipIds.length) {
         // Update trigger word with remaining sound clips
@@ -131,14 +255,7 @@ export class MemStorage implements IStorage {
 
   async createTriggerWord(insertTriggerWord: InsertTriggerWord): Promise<TriggerWord> {
     const id = this.currentTriggerWordId++;
-    const triggerWord: TriggerWord = { 
-      ...insertTriggerWord, 
-      id,
-      enabled: insertTriggerWord.enabled !== false,
-      caseSensitive: insertTriggerWord.caseSensitive || false,
-      currentIndex: 0,
-      soundClipIds: insertTriggerWord.soundClipIds || []
-    };
+    const triggerWord = triggerWordRecord(id, insertTriggerWord);
     this.triggerWords.set(id, triggerWord);
     
     // Mark assigned sound clips as non-default and remove from default response list
@@ -168,7 +285,8 @@ export class MemStorage implements IStorage {
       enabled: updates.enabled ?? existing.enabled,
       caseSensitive: updates.caseSensitive ?? existing.caseSensitive,
       soundClipIds: newSoundClipIds,
-      currentIndex: existing.currentIndex
+      // Kept through edits; set only when given, as an import overwriting the trigger does
+      currentIndex: updates.currentIndex ?? existing.currentIndex
     };
     this.triggerWords.set(id, updated);
     
@@ -238,6 +356,7 @@ export class MemStorage implements IStorage {
     }
     
     this.triggerWords.delete(id);
+    this.removeBindingsFor("trigger", id);
   }
 
   async getNextSoundClipForTrigger(triggerId: number): Promise<number | null> {
@@ -246,14 +365,100 @@ export class MemStorage implements IStorage {
       return null;
     }
 
-    const currentSoundClipId = triggerWord.soundClipIds[triggerWord.currentIndex];
-    
-    // Cycle to next index
-    const nextIndex = (triggerWord.currentIndex + 1) % triggerWord.soundClipIds.length;
-    triggerWord.currentIndex = nextIndex;
-    this.triggerWords.set(triggerId, triggerWord);
+    const pick = pickNextClip(
+      triggerWord.soundClipIds,
+      triggerWord.playbackOrder,
+      { currentIndex: triggerWord.currentIndex || 0, shuffleBag: triggerWord.shuffleBag },
+      this.getClipWeights(),
+    );
+    if (!pick) return null;
+
+    // Store the cycling state for the next pick
+    this.triggerWords.set(triggerId, { ...triggerWord, ...pick.state });
 
-    return currentSoundClipId;
+    return pick.soundClipId;
+  }
+
+  private getClipWeights(): Map<number, number> {
+    return new Map(Array.from(this.soundClips.values()).map(clip => [clip.id, clip.weight ?? 1]));
+  }
+
+  async getBindings(): Promise<Binding[]> {
+    return Array.from(this.bindings.values());
+  }
+
+  async getBinding(id: number): Promise<Binding | undefined> {
+    return this.bindings.get(id);
+  }
+
+  async createBinding(insertBinding: InsertBinding): Promise<Binding> {
+    const id = this.currentBindingId++;
+    const binding = bindingRecord(id, insertBinding);
+    this.bindings.set(id, binding);
+    return binding;
+  }
+
+  async updateBinding(id: number, updates: Partial<InsertBinding>): Promise<Binding | undefined> {
+    const existing = this.bindings.get(id);
+    if (!existing) return undefined;
+
+    const updated: Binding = { ...existing, ...updates };
+    this.bindings.set(id, updated);
+    return updated;
+  }
+
+  async deleteBinding(id: number): Promise<void> {
+    this.bindings.delete(id);
+  }
+
+  // Bindings to a deleted clip or trigger would fire nothing, so they go with it
+  protected removeBindingsFor(targetType: BindingTarget, targetId: number): void {
+    for (const [id, binding] of Array.from(this.bindings.entries())) {
+      if (binding.targetType === targetType && binding.targetId === targetId) {
+        this.bindings.delete(id);
+      }
+    }
+  }
+
+  async getCategories(): Promise<Category[]> {
+    return Array.from(this.categories.values());
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const id = this.currentCategoryId++;
+    const category = categoryRecord(id, insertCategory);
+    this.categories.set(id, category);
+    return category;
+  }
+
+  async updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category | undefined> {
+    const existing = this.categories.get(id);
+    if (!existing) return undefined;
+
+    const updated: Category = { ...existing, ...updates };
+    this.categories.set(id, updated);
+    return updated;
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    const existing = this.categories.get(id);
+    if (!existing) return;
+
+    this.categories.delete(id);
+    for (const category of Array.from(this.categories.values())) {
+      if (category.parentId === id) {
+        this.categories.set(category.id, { ...category, parentId: existing.parentId });
+      }
+    }
+    for (const clip of Array.from(this.soundClips.values())) {
+      if (clip.categoryId === id) {
+        this.soundClips.set(clip.id, { ...clip, categoryId: existing.parentId });
+      }
+    }
   }
 
   async getSettings(): Promise<Settings> {
@@ -273,34 +478,61 @@ export class MemStorage implements IStorage {
       return null;
     }
 
-    const soundClipIds = this.settings.defaultResponseSoundClipIds;
-    const currentIndex = this.settings.defaultResponseIndex || 0;
-    const soundClipId = soundClipIds[currentIndex];
+    const pick = pickNextClip(
+      this.settings.defaultResponseSoundClipIds,
+      this.settings.defaultResponsePlaybackOrder,
+      { currentIndex: this.settings.defaultResponseIndex || 0, shuffleBag: this.settings.defaultResponseShuffleBag },
+      this.getClipWeights(),
+    );
+    if (!pick) return null;
 
-    // Update index for next time (cycle back to 0 if at end)
-    const nextIndex = (currentIndex + 1) % soundClipIds.length;
-    this.settings.defaultResponseIndex = nextIndex;
+    // Update cycling state for next time
+    this.settings.defaultResponseIndex = pick.state.currentIndex;
+    this.settings.defaultResponseShuffleBag = pick.state.shuffleBag;
 
-    return soundClipId;
+    return pick.soundClipId;
   }
 
-  async exportProfile(): Promise<any> {
+  async exportProfile(audio: "embed" | "reference" = "embed"): Promise<any> {
     const soundClips = Array.from(this.soundClips.values());
     const triggerWords = Array.from(this.triggerWords.values());
 
+    const folders = await this.getCategories();
+
     // Convert sound clips to include base64 audio data
     const profileSoundClips = [];
     for (const clip of soundClips) {
       try {
         const filePath = path.join(process.cwd(), "uploads", clip.filename);
-        const audioData = fs.readFileSync(filePath, { encoding: 'base64' });
+        if (!fs.existsSync(filePath)) {
+          throw new Error(`${filePath} does not exist`);
+        }
+        const audioFields = audio === "reference"
+          ? { audioFile: clip.filename }
+          : { audioData: fs.readFileSync(filePath, { encoding: 'base64' }) };
         profileSoundClips.push({
+          uuid: clip.uuid,
           name: clip.name,
           filename: clip.filename,
           format: clip.format,
           duration: clip.duration,
           size: clip.size,
-          audioData,
+          sampleRate: clip.sampleRate ?? null,
+          channels: clip.channels ?? null,
+          bitrate: clip.bitrate ?? null,
+          weight: clip.weight ?? 1,
+          trimStart: clip.trimStart ?? 0,
+          trimEnd: clip.trimEnd ?? null,
+          fadeIn: clip.fadeIn ?? 0,
+          fadeOut: clip.fadeOut ?? 0,
+          gainDb: clip.gainDb ?? 0,
+          loudnessLufs: clip.loudnessLufs ?? null,
+          peakDb: clip.peakDb ?? null,
+          overlapPolicy: clip.overlapPolicy ?? null,
+          cooldownMs: clip.cooldownMs ?? 0,
+          tags: clip.tags ?? [],
+          category: clip.categoryId ? categoryPath(folders, clip.categoryId) : [],
+          ...audioFields,
         });
       } catch (error) {
         console.warn(`Could not read audio file ${clip.filename}:`, error);
@@ -311,18 +543,32 @@ export class MemStorage implements IStorage {
     const profileTriggerWords = [];
     for (const trigger of triggerWords) {
       const soundClipNames = [];
+      const soundClipUuids = [];
       for (const clipId of trigger.soundClipIds) {
         const soundClip = soundClips.find(clip => clip.id === clipId);
         if (soundClip) {
           soundClipNames.push(soundClip.name);
+          soundClipUuids.push(soundClip.uuid);
         }
       }
       if (soundClipNames.length > 0) {
         profileTriggerWords.push({
           phrase: trigger.phrase,
           soundClipNames,
+          soundClipUuids,
+          currentIndex: trigger.currentIndex ?? 0,
+          shuffleBag: clipUuids(soundClips, trigger.shuffleBag ?? []),
           caseSensitive: trigger.caseSensitive || false,
           enabled: trigger.enabled !== false,
+          matchMode: trigger.matchMode || "exact",
+          fuzzyThreshold: trigger.fuzzyThreshold ?? 1,
+          matchType: trigger.matchType || "substring",
+          playbackOrder: trigger.playbackOrder || "sequential",
+          overlapPolicy: trigger.overlapPolicy || "interrupt",
+          cooldownMs: trigger.cooldownMs ?? 2000,
+          language: trigger.language ?? null,
+          minConfidence: trigger.minConfidence ?? 0,
+          earlyFire: trigger.earlyFire ?? false,
         });
       }
     }
@@ -338,84 +584,59 @@ export class MemStorage implements IStorage {
       }
     }
 
+    // Bindings refer to their target by clip name or trigger phrase
+    const profileBindings = [];
+    for (const binding of await this.getBindings()) {
+      const targetName = binding.targetType === "clip"
+        ? soundClips.find(clip => clip.id === binding.targetId)?.name
+        : triggerWords.find(trigger => trigger.id === binding.targetId)?.phrase;
+      if (targetName) {
+        profileBindings.push({
+          input: binding.input,
+          shortcut: binding.shortcut,
+          midiChannel: binding.midiChannel,
+          midiNumber: binding.midiNumber,
+          targetType: binding.targetType,
+          targetName,
+          targetUuid: binding.targetType === "clip" ? clipUuids(soundClips, [binding.targetId])[0] : undefined,
+          enabled: binding.enabled,
+        });
+      }
+    }
+
     return {
-      version: "1.0",
+      version: audio === "reference" ? PROFILE_ARCHIVE_VERSION : "1.0",
       exportDate: new Date().toISOString(),
       soundClips: profileSoundClips,
       triggerWords: profileTriggerWords,
       settings: {
         defaultResponseEnabled: this.settings.defaultResponseEnabled || false,
         defaultResponseSoundClipNames,
-        defaultResponseDelay: this.settings.defaultResponseDelay || 2000,
+        defaultResponseSoundClipUuids: clipUuids(soundClips, this.settings.defaultResponseSoundClipIds || []),
+        defaultResponseDelay: this.settings.defaultResponseDelay ?? 2000,
+        defaultResponseIndex: this.settings.defaultResponseIndex ?? 0,
+        defaultResponseShuffleBag: clipUuids(soundClips, this.settings.defaultResponseShuffleBag ?? []),
+        defaultResponsePlaybackOrder: this.settings.defaultResponsePlaybackOrder || "sequential",
+        loudnessNormalization: this.settings.loudnessNormalization,
+        loudnessTarget: this.settings.loudnessTarget,
+        masterVolume: this.settings.masterVolume,
+        maxVoices: this.settings.maxVoices,
+        rateLimitMaxSounds: this.settings.rateLimitMaxSounds,
+        rateLimitWindowSeconds: this.settings.rateLimitWindowSeconds,
+        recognitionLanguage: this.settings.recognitionLanguage,
+        recognitionLanguages: this.settings.recognitionLanguages,
+        recognitionLanguageMode: this.settings.recognitionLanguageMode,
+        recognitionRotateSeconds: this.settings.recognitionRotateSeconds,
+        recognitionMaxAlternatives: this.settings.recognitionMaxAlternatives,
+        recognitionEngine: this.settings.recognitionEngine,
       },
+      categories: folders.map(folder => categoryPath(folders, folder.id)),
+      bindings: profileBindings,
     };
   }
 
-  async importProfile(profileData: any): Promise<void> {
-    // Clear existing data first
-    await this.clearAllData();
-
-    // Import sound clips
-    const soundClipNameToId = new Map<string, number>();
-    for (const profileClip of profileData.soundClips || []) {
-      try {
-        // Write audio file to uploads directory
-        const filename = `${Date.now()}_${profileClip.filename}`;
-        const filePath = path.join(process.cwd(), "uploads", filename);
-        const audioBuffer = Buffer.from(profileClip.audioData, 'base64');
-        fs.writeFileSync(filePath, audioBuffer);
-
-        // Create sound clip record
-        const soundClipData = {
-          name: profileClip.name,
-          filename,
-          format: profileClip.format,
-          duration: profileClip.duration,
-          size: profileClip.size,
-          url: `/uploads/${filename}`,
-        };
-
-        const createdClip = await this.createSoundClip(soundClipData);
-        soundClipNameToId.set(profileClip.name, createdClip.id);
-      } catch (error) {
-        console.error(`Error importing sound clip ${profileClip.name}:`, error);
-      }
-    }
-
-    // Import trigger words
-    for (const profileTrigger of profileData.triggerWords || []) {
-      const soundClipId = soundClipNameToId.get(profileTrigger.soundClipName);
-      if (soundClipId) {
-        try {
-          await this.createTriggerWord({
-            phrase: profileTrigger.phrase,
-            soundClipIds: [soundClipId],
-            caseSensitive: profileTrigger.caseSensitive || false,
-            enabled: profileTrigger.enabled !== false,
-          });
-        } catch (error) {
-          console.error(`Error importing trigger word ${profileTrigger.phrase}:`, error);
-        }
-      }
-    }
-
-    // Import settings
-    if (profileData.settings) {
-      const defaultResponseSoundClipIds = [];
-      for (const name of profileData.settings.defaultResponseSoundClipNames || []) {
-        const id = soundClipNameToId.get(name);
-        if (id) {
-          defaultResponseSoundClipIds.push(id);
-        }
-      }
-
-      await this.updateSettings({
-        defaultResponseEnabled: profileData.settings.defaultResponseEnabled || false,
-        defaultResponseSoundClipIds,
-        defaultResponseDelay: profileData.settings.defaultResponseDelay || 2000,
-        defaultResponseIndex: 0,
-      });
-    }
+  async importProfile(profileData: any, options?: Partial<ProfileImportOptions>): Promise<ProfileImportReport> {
+    return importProfileInto(this, profileData, options);
   }
 
   async clearAllData(): Promise<void> {
@@ -436,125 +657,59 @@ export class MemStorage implements IStorage {
     // Clear all in-memory data
     this.soundClips.clear();
     this.triggerWords.clear();
+    this.bindings.clear();
+    this.categories.clear();
     this.settings = {
       id: 1,
       defaultResponseEnabled: true,
       defaultResponseSoundClipIds: [],
-      defaultResponseDelay: 0,
+      defaultResponseDelay: 2000,
       defaultResponseIndex: 0,
+      defaultResponsePlaybackOrder: "sequential",
+      defaultResponseShuffleBag: [],
+      loudnessNormalization: true,
+      loudnessTarget: DEFAULT_LOUDNESS_TARGET,
+      masterVolume: 0.8,
+      maxVoices: 4,
+      rateLimitMaxSounds: 0,
+      rateLimitWindowSeconds: 10,
+      recognitionLanguage: "en-US",
+      recognitionLanguages: [],
+      recognitionLanguageMode: "pin",
+      recognitionRotateSeconds: 8,
+      recognitionMaxAlternatives: 3,
+      recognitionEngine: "web-speech",
     };
     
     // Reset ID counters
     this.currentSoundClipId = 1;
     this.currentTriggerWordId = 1;
+    this.currentBindingId = 1;
+    this.currentCategoryId = 1;
   }
 
-  async saveProfileToServer(profileData: any, filename: string, readOnly: boolean = false): Promise<void> {
-    // Validate file size (10MB limit)
-    const profileJson = JSON.stringify(profileData);
-    const sizeInBytes = Buffer.byteLength(profileJson, 'utf8');
-    const sizeInMB = sizeInBytes / (1024 * 1024);
-    
-    if (sizeInMB > 10) {
-      throw new Error(`Profile size (${sizeInMB.toFixed(2)}MB) exceeds the 10MB limit`);
-    }
-    
-    // Sanitize filename
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    
-    if (!fs.existsSync(serverProfilesDir)) {
-      fs.mkdirSync(serverProfilesDir, { recursive: true });
-    }
-    
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    // Check if profile already exists and is read-only
-    if (fs.existsSync(filePath)) {
-      const existingProfile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-      if (existingProfile.readOnly) {
-        throw new Error(`Cannot overwrite read-only profile "${filename}"`);
-      }
-    }
-    
-    // Add read-only metadata to profile
-    const profileWithMetadata = {
-      ...profileData,
-      readOnly,
-      savedAt: new Date().toISOString()
-    };
-    
-    // Save profile to server
-    fs.writeFileSync(filePath, JSON.stringify(profileWithMetadata), 'utf8');
+  async saveProfileToServer(profileData: any, filename: string, readOnly: boolean = false, note?: string): Promise<void> {
+    await saveServerProfile(profileData, filename, readOnly, note);
   }
 
-  async getServerProfiles(): Promise<Array<{name: string, readOnly: boolean, savedAt?: string}>> {
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    
-    if (!fs.existsSync(serverProfilesDir)) {
-      return [];
-    }
-    
-    const files = fs.readdirSync(serverProfilesDir);
-    const profiles = [];
-    
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        try {
-          const filePath = path.join(serverProfilesDir, file);
-          const profileData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-          profiles.push({
-            name: file.replace('.json', ''),
-            readOnly: profileData.readOnly || false,
-            savedAt: profileData.savedAt
-          });
-        } catch (error) {
-          // If we can't read the profile, just include the name with readOnly: false
-          profiles.push({
-            name: file.replace('.json', ''),
-            readOnly: false
-          });
-        }
-      }
-    }
-    
-    return profiles;
+  async getServerProfiles(): Promise<ServerProfileInfo[]> {
+    return await listServerProfiles();
   }
 
-  async loadProfileFromServer(filename: string): Promise<any> {
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`Profile "${filename}" not found on server`);
-    }
-    
-    const profileJson = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(profileJson);
+  async getServerProfileVersions(filename: string): Promise<ServerProfileVersion[]> {
+    return await listServerProfileVersions(filename);
+  }
+
+  async loadProfileFromServer(filename: string, version?: string): Promise<any> {
+    return await loadServerProfile(filename, version);
+  }
+
+  async rollbackServerProfile(filename: string, version: string): Promise<void> {
+    await rollbackServerProfileVersion(filename, version);
   }
 
   async deleteServerProfile(filename: string): Promise<void> {
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    if (fs.existsSync(filePath)) {
-      // Check if profile is read-only
-      try {
-        const profileData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-        if (profileData.readOnly) {
-          throw new Error(`Cannot delete read-only profile "${filename}"`);
-        }
-      } catch (error) {
-        if (error.message.includes('read-only')) {
-          throw error;
-        }
-        // If we can't read the file, allow deletion anyway
-      }
-      
-      fs.unlinkSync(filePath);
-    }
+    await removeServerProfile(filename);
   }
 }
 
@@ -568,7 +723,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSoundClips(): Promise<SoundClip[]> {
-    return await this.db.select().from(soundClips);
+    return await this.db.select().from(soundClips).orderBy(soundClips.id);
   }
 
   async getSoundClip(id: number): Promise<SoundClip | undefined> {
@@ -581,12 +736,18 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async updateSoundClip(id: number, updates: Partial<InsertSoundClip>): Promise<SoundClip | undefined> {
+    const result = await this.db.update(soundClips).set(updates).where(eq(soundClips.id, id)).returning();
+    return result[0];
+  }
+
   async deleteSoundClip(id: number): Promise<void> {
     await this.db.delete(soundClips).where(eq(soundClips.id, id));
+    await this.db.delete(bindings).where(and(eq(bindings.targetType, "clip"), eq(bindings.targetId, id)));
   }
 
   async getTriggerWords(): Promise<TriggerWord[]> {
-    return await this.db.select().from(triggerWords);
+    return await this.db.select().from(triggerWords).orderBy(triggerWords.id);
   }
 
   async getTriggerWord(id: number): Promise<TriggerWord | undefined> {
@@ -606,6 +767,58 @@ export class DatabaseStorage implements IStorage {
 
   async deleteTriggerWord(id: number): Promise<void> {
     await this.db.delete(triggerWords).where(eq(triggerWords.id, id));
+    await this.db.delete(bindings).where(and(eq(bindings.targetType, "trigger"), eq(bindings.targetId, id)));
+  }
+
+  async getBindings(): Promise<Binding[]> {
+    return await this.db.select().from(bindings).orderBy(bindings.id);
+  }
+
+  async getBinding(id: number): Promise<Binding | undefined> {
+    const result = await this.db.select().from(bindings).where(eq(bindings.id, id));
+    return result[0];
+  }
+
+  async createBinding(insertBinding: InsertBinding): Promise<Binding> {
+    const result = await this.db.insert(bindings).values(insertBinding).returning();
+    return result[0];
+  }
+
+  async updateBinding(id: number, updateData: Partial<InsertBinding>): Promise<Binding | undefined> {
+    const result = await this.db.update(bindings).set(updateData).where(eq(bindings.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteBinding(id: number): Promise<void> {
+    await this.db.delete(bindings).where(eq(bindings.id, id));
+  }
+
+  async getCategories(): Promise<Category[]> {
+    return await this.db.select().from(categories).orderBy(categories.id);
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const result = await this.db.select().from(categories).where(eq(categories.id, id));
+    return result[0];
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const result = await this.db.insert(categories).values(insertCategory).returning();
+    return result[0];
+  }
+
+  async updateCategory(id: number, updateData: Partial<InsertCategory>): Promise<Category | undefined> {
+    const result = await this.db.update(categories).set(updateData).where(eq(categories.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    const existing = await this.getCategory(id);
+    if (!existing) return;
+
+    await this.db.update(categories).set({ parentId: existing.parentId }).where(eq(categories.parentId, id));
+    await this.db.update(soundClips).set({ categoryId: existing.parentId }).where(eq(soundClips.categoryId, id));
+    await this.db.delete(categories).where(eq(categories.id, id));
   }
 
   async getSettings(): Promise<Settings> {
@@ -615,7 +828,7 @@ export class DatabaseStorage implements IStorage {
       const defaultSettings = {
         defaultResponseEnabled: false,
         defaultResponseSoundClipIds: [],
-        defaultResponseDelay: 0,
+        defaultResponseDelay: 2000,
         defaultResponseIndex: 0,
       };
       const created = await this.db.insert(settings).values(defaultSettings).returning();
@@ -636,13 +849,21 @@ export class DatabaseStorage implements IStorage {
       return null;
     }
 
-    const currentIndex = currentSettings.defaultResponseIndex || 0;
-    const nextIndex = (currentIndex + 1) % currentSettings.defaultResponseSoundClipIds.length;
+    const pick = pickNextClip(
+      currentSettings.defaultResponseSoundClipIds,
+      currentSettings.defaultResponsePlaybackOrder,
+      { currentIndex: currentSettings.defaultResponseIndex || 0, shuffleBag: currentSettings.defaultResponseShuffleBag },
+      await this.getClipWeights(),
+    );
+    if (!pick) return null;
     
-    // Update the index for next time
-    await this.updateSettings({ defaultResponseIndex: nextIndex });
+    // Update the cycling state for next time
+    await this.updateSettings({
+      defaultResponseIndex: pick.state.currentIndex,
+      defaultResponseShuffleBag: pick.state.shuffleBag,
+    });
     
-    return currentSettings.defaultResponseSoundClipIds[currentIndex];
+    return pick.soundClipId;
   }
 
   async getNextSoundClipForTrigger(triggerId: number): Promise<number | null> {
@@ -653,33 +874,66 @@ export class DatabaseStorage implements IStorage {
       return null;
     }
 
-    const currentIndex = trigger.currentIndex || 0;
-    const nextIndex = (currentIndex + 1) % trigger.soundClipIds.length;
+    const pick = pickNextClip(
+      trigger.soundClipIds,
+      trigger.playbackOrder,
+      { currentIndex: trigger.currentIndex || 0, shuffleBag: trigger.shuffleBag },
+      await this.getClipWeights(),
+    );
+    if (!pick) return null;
     
-    // Update the trigger's current index
-    await this.updateTriggerWord(triggerId, { currentIndex: nextIndex });
+    // Update the trigger's cycling state
+    await this.updateTriggerWord(triggerId, pick.state);
     
-    return trigger.soundClipIds[currentIndex];
+    return pick.soundClipId;
   }
 
-  async exportProfile(): Promise<any> {
+  private async getClipWeights(): Promise<Map<number, number>> {
+    const clips = await this.db.select({ id: soundClips.id, weight: soundClips.weight }).from(soundClips);
+    return new Map(clips.map(clip => [clip.id, clip.weight]));
+  }
+
+  async exportProfile(audio: "embed" | "reference" = "embed"): Promise<any> {
     const soundClips = await this.getSoundClips();
     const triggerWords = await this.getTriggerWords();
     const settings = await this.getSettings();
 
+    const folders = await this.getCategories();
+
     // Convert sound clips to include base64 audio data
     const profileSoundClips = [];
     for (const clip of soundClips) {
       try {
         const filePath = path.join(process.cwd(), "uploads", clip.filename);
-        const audioData = fs.readFileSync(filePath, { encoding: 'base64' });
+        if (!fs.existsSync(filePath)) {
+          throw new Error(`${filePath} does not exist`);
+        }
+        const audioFields = audio === "reference"
+          ? { audioFile: clip.filename }
+          : { audioData: fs.readFileSync(filePath, { encoding: 'base64' }) };
         profileSoundClips.push({
+          uuid: clip.uuid,
           name: clip.name,
           filename: clip.filename,
           format: clip.format,
           duration: clip.duration,
           size: clip.size,
-          audioData,
+          sampleRate: clip.sampleRate ?? null,
+          channels: clip.channels ?? null,
+          bitrate: clip.bitrate ?? null,
+          weight: clip.weight ?? 1,
+          trimStart: clip.trimStart ?? 0,
+          trimEnd: clip.trimEnd ?? null,
+          fadeIn: clip.fadeIn ?? 0,
+          fadeOut: clip.fadeOut ?? 0,
+          gainDb: clip.gainDb ?? 0,
+          loudnessLufs: clip.loudnessLufs ?? null,
+          peakDb: clip.peakDb ?? null,
+          overlapPolicy: clip.overlapPolicy ?? null,
+          cooldownMs: clip.cooldownMs ?? 0,
+          tags: clip.tags ?? [],
+          category: clip.categoryId ? categoryPath(folders, clip.categoryId) : [],
+          ...audioFields,
         });
       } catch (error) {
         console.warn(`Could not read audio file ${clip.filename}:`, error);
@@ -690,18 +944,32 @@ export class DatabaseStorage implements IStorage {
     const profileTriggerWords = [];
     for (const trigger of triggerWords) {
       const soundClipNames = [];
+      const soundClipUuids = [];
       for (const clipId of trigger.soundClipIds) {
         const soundClip = soundClips.find(clip => clip.id === clipId);
         if (soundClip) {
           soundClipNames.push(soundClip.name);
+          soundClipUuids.push(soundClip.uuid);
         }
       }
       if (soundClipNames.length > 0) {
         profileTriggerWords.push({
           phrase: trigger.phrase,
           soundClipNames,
+          soundClipUuids,
+          currentIndex: trigger.currentIndex ?? 0,
+          shuffleBag: clipUuids(soundClips, trigger.shuffleBag ?? []),
           caseSensitive: trigger.caseSensitive || false,
           enabled: trigger.enabled !== false,
+          matchMode: trigger.matchMode || "exact",
+          fuzzyThreshold: trigger.fuzzyThreshold ?? 1,
+          matchType: trigger.matchType || "substring",
+          playbackOrder: trigger.playbackOrder || "sequential",
+          overlapPolicy: trigger.overlapPolicy || "interrupt",
+          cooldownMs: trigger.cooldownMs ?? 2000,
+          language: trigger.language ?? null,
+          minConfidence: trigger.minConfidence ?? 0,
+          earlyFire: trigger.earlyFire ?? false,
         });
       }
     }
@@ -717,84 +985,59 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
+    // Bindings refer to their target by clip name or trigger phrase
+    const profileBindings = [];
+    for (const binding of await this.getBindings()) {
+      const targetName = binding.targetType === "clip"
+        ? soundClips.find(clip => clip.id === binding.targetId)?.name
+        : triggerWords.find(trigger => trigger.id === binding.targetId)?.phrase;
+      if (targetName) {
+        profileBindings.push({
+          input: binding.input,
+          shortcut: binding.shortcut,
+          midiChannel: binding.midiChannel,
+          midiNumber: binding.midiNumber,
+          targetType: binding.targetType,
+          targetName,
+          targetUuid: binding.targetType === "clip" ? clipUuids(soundClips, [binding.targetId])[0] : undefined,
+          enabled: binding.enabled,
+        });
+      }
+    }
+
     return {
-      version: "1.0",
+      version: audio === "reference" ? PROFILE_ARCHIVE_VERSION : "1.0",
       exportDate: new Date().toISOString(),
       soundClips: profileSoundClips,
       triggerWords: profileTriggerWords,
       settings: {
         defaultResponseEnabled: settings.defaultResponseEnabled || false,
         defaultResponseSoundClipNames,
-        defaultResponseDelay: settings.defaultResponseDelay || 2000,
+        defaultResponseSoundClipUuids: clipUuids(soundClips, settings.defaultResponseSoundClipIds || []),
+        defaultResponseDelay: settings.defaultResponseDelay ?? 2000,
+        defaultResponseIndex: settings.defaultResponseIndex ?? 0,
+        defaultResponseShuffleBag: clipUuids(soundClips, settings.defaultResponseShuffleBag ?? []),
+        defaultResponsePlaybackOrder: settings.defaultResponsePlaybackOrder || "sequential",
+        loudnessNormalization: settings.loudnessNormalization,
+        loudnessTarget: settings.loudnessTarget,
+        masterVolume: settings.masterVolume,
+        maxVoices: settings.maxVoices,
+        rateLimitMaxSounds: settings.rateLimitMaxSounds,
+        rateLimitWindowSeconds: settings.rateLimitWindowSeconds,
+        recognitionLanguage: settings.recognitionLanguage,
+        recognitionLanguages: settings.recognitionLanguages,
+        recognitionLanguageMode: settings.recognitionLanguageMode,
+        recognitionRotateSeconds: settings.recognitionRotateSeconds,
+        recognitionMaxAlternatives: settings.recognitionMaxAlternatives,
+        recognitionEngine: settings.recognitionEngine,
       },
+      categories: folders.map(folder => categoryPath(folders, folder.id)),
+      bindings: profileBindings,
     };
   }
 
-  async importProfile(profileData: any): Promise<void> {
-    // Clear existing data first
-    await this.clearAllData();
-
-    // Import sound clips
-    const soundClipNameToId = new Map<string, number>();
-    for (const profileClip of profileData.soundClips || []) {
-      try {
-        // Write audio file to uploads directory
-        const filename = `${Date.now()}_${profileClip.filename}`;
-        const filePath = path.join(process.cwd(), "uploads", filename);
-        const audioBuffer = Buffer.from(profileClip.audioData, 'base64');
-        fs.writeFileSync(filePath, audioBuffer);
-
-        // Create sound clip record
-        const soundClipData = {
-          name: profileClip.name,
-          filename,
-          format: profileClip.format,
-          duration: profileClip.duration,
-          size: profileClip.size,
-          url: `/uploads/${filename}`,
-        };
-
-        const createdClip = await this.createSoundClip(soundClipData);
-        soundClipNameToId.set(profileClip.name, createdClip.id);
-      } catch (error) {
-        console.error(`Error importing sound clip ${profileClip.name}:`, error);
-      }
-    }
-
-    // Import trigger words
-    for (const profileTrigger of profileData.triggerWords || []) {
-      const soundClipId = soundClipNameToId.get(profileTrigger.soundClipName);
-      if (soundClipId) {
-        try {
-          await this.createTriggerWord({
-            phrase: profileTrigger.phrase,
-            soundClipIds: [soundClipId],
-            caseSensitive: profileTrigger.caseSensitive || false,
-            enabled: profileTrigger.enabled !== false,
-          });
-        } catch (error) {
-          console.error(`Error importing trigger word ${profileTrigger.phrase}:`, error);
-        }
-      }
-    }
-
-    // Import settings
-    if (profileData.settings) {
-      const defaultResponseSoundClipIds = [];
-      for (const name of profileData.settings.defaultResponseSoundClipNames || []) {
-        const id = soundClipNameToId.get(name);
-        if (id) {
-          defaultResponseSoundClipIds.push(id);
-        }
-      }
-
-      await this.updateSettings({
-        defaultResponseEnabled: profileData.settings.defaultResponseEnabled || false,
-        defaultResponseSoundClipIds,
-        defaultResponseDelay: profileData.settings.defaultResponseDelay || 2000,
-        defaultResponseIndex: 0,
-      });
-    }
+  async importProfile(profileData: any, options?: Partial<ProfileImportOptions>): Promise<ProfileImportReport> {
+    return importProfileInto(this, profileData, options);
   }
 
   async clearAllData(): Promise<void> {
@@ -812,127 +1055,258 @@ export class DatabaseStorage implements IStorage {
     }
 
     // Clear database tables
+    await this.db.delete(bindings);
     await this.db.delete(triggerWords);
     await this.db.delete(soundClips);
+    await this.db.delete(categories);
     
-    // Reset settings to defaults
-    const currentSettings = await this.getSettings();
-    await this.updateSettings({
-      defaultResponseEnabled: false,
-      defaultResponseSoundClipIds: [],
-      defaultResponseDelay: 0,
-      defaultResponseIndex: 0,
-    });
+    // Reset every setting to its default by recreating the settings row from the column defaults
+    await this.db.delete(settings);
+    await this.getSettings();
   }
 
-  async saveProfileToServer(profileData: any, filename: string, readOnly: boolean = false): Promise<void> {
-    // Validate file size (10MB limit)
-    const profileJson = JSON.stringify(profileData);
-    const sizeInBytes = Buffer.byteLength(profileJson, 'utf8');
-    const sizeInMB = sizeInBytes / (1024 * 1024);
-    
-    if (sizeInMB > 10) {
-      throw new Error(`Profile size (${sizeInMB.toFixed(2)}MB) exceeds the 10MB limit`);
+  async saveProfileToServer(profileData: any, filename: string, readOnly: boolean = false, note?: string): Promise<void> {
+    await saveServerProfile(profileData, filename, readOnly, note);
+  }
+
+  async getServerProfiles(): Promise<ServerProfileInfo[]> {
+    return await listServerProfiles();
+  }
+
+  async getServerProfileVersions(filename: string): Promise<ServerProfileVersion[]> {
+    return await listServerProfileVersions(filename);
+  }
+
+  async loadProfileFromServer(filename: string, version?: string): Promise<any> {
+    return await loadServerProfile(filename, version);
+  }
+
+  async rollbackServerProfile(filename: string, version: string): Promise<void> {
+    await rollbackServerProfileVersion(filename, version);
+  }
+
+  async deleteServerProfile(filename: string): Promise<void> {
+    await removeServerProfile(filename);
+  }
+}
+
+// File-backed storage: keeps the in-memory maps and journals them to a JSON
+// snapshot under DATA_DIR after every mutation so data survives restarts
+export class FileStorage extends MemStorage {
+  private dataFile: string;
+  private orphanDir: string;
+
+  constructor(dataDir: string) {
+    super();
+    if (!fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
     }
-    
-    // Sanitize filename
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    
-    if (!fs.existsSync(serverProfilesDir)) {
-      fs.mkdirSync(serverProfilesDir, { recursive: true });
+    this.dataFile = path.join(dataDir, "storage.json");
+    this.orphanDir = path.join(dataDir, "orphaned-uploads");
+    // Without a snapshot there is no telling which uploads are orphans (a fresh or unreadable
+    // data dir, or a switch from another backend), so they are all left alone
+    if (this.load()) {
+      this.reconcileUploads();
     }
-    
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    // Check if profile already exists and is read-only
-    if (fs.existsSync(filePath)) {
-      const existingProfile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-      if (existingProfile.readOnly) {
-        throw new Error(`Cannot overwrite read-only profile "${filename}"`);
-      }
+  }
+
+  // Whether a valid snapshot was read
+  private load(): boolean {
+    if (!fs.existsSync(this.dataFile)) {
+      return false;
     }
-    
-    // Add read-only metadata to profile
-    const profileWithMetadata = {
-      ...profileData,
-      readOnly,
-      savedAt: new Date().toISOString()
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.dataFile, 'utf8'));
+      // Snapshots from before a column existed lack it, so it gets the default a new record would
+      this.soundClips = new Map((data.soundClips || []).map((clip: SoundClip) =>
+        [clip.id, { ...soundClipRecord(clip.id, clip), isDefault: clip.isDefault ?? true }]));
+      this.triggerWords = new Map((data.triggerWords || []).map((trigger: TriggerWord) => [trigger.id, triggerWordRecord(trigger.id, trigger)]));
+      this.settings = { ...this.settings, ...data.settings };
+      this.bindings = new Map((data.bindings || []).map((binding: Binding) => [binding.id, bindingRecord(binding.id, binding)]));
+      this.categories = new Map((data.categories || []).map((category: Category) => [category.id, categoryRecord(category.id, category)]));
+
+      // Never hand out an ID that is already in use, even if the snapshot counters are stale
+      const maxClipId = Math.max(0, ...Array.from(this.soundClips.keys()));
+      const maxTriggerId = Math.max(0, ...Array.from(this.triggerWords.keys()));
+      this.currentSoundClipId = Math.max(data.currentSoundClipId || 1, maxClipId + 1);
+      this.currentTriggerWordId = Math.max(data.currentTriggerWordId || 1, maxTriggerId + 1);
+      const maxBindingId = Math.max(0, ...Array.from(this.bindings.keys()));
+      this.currentBindingId = Math.max(data.currentBindingId || 1, maxBindingId + 1);
+      const maxCategoryId = Math.max(0, ...Array.from(this.categories.keys()));
+      this.currentCategoryId = Math.max(data.currentCategoryId || 1, maxCategoryId + 1);
+
+      console.log(`Loaded ${this.soundClips.size} sound clips and ${this.triggerWords.size} trigger words from ${this.dataFile}`);
+      return true;
+    } catch (error) {
+      console.error(`Could not read storage file ${this.dataFile}, starting empty:`, error);
+      return false;
+    }
+  }
+
+  private persist(): void {
+    const data = {
+      version: 1,
+      currentSoundClipId: this.currentSoundClipId,
+      currentTriggerWordId: this.currentTriggerWordId,
+      currentBindingId: this.currentBindingId,
+      currentCategoryId: this.currentCategoryId,
+      soundClips: Array.from(this.soundClips.values()),
+      triggerWords: Array.from(this.triggerWords.values()),
+      settings: this.settings,
+      bindings: Array.from(this.bindings.values()),
+      categories: Array.from(this.categories.values()),
     };
-    
-    // Save profile to server
-    fs.writeFileSync(filePath, JSON.stringify(profileWithMetadata), 'utf8');
+
+    // Write to a temp file and rename so a crash mid-write never leaves a truncated snapshot
+    const tempFile = `${this.dataFile}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tempFile, this.dataFile);
   }
 
-  async getServerProfiles(): Promise<Array<{name: string, readOnly: boolean, savedAt?: string}>> {
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    
-    if (!fs.existsSync(serverProfilesDir)) {
-      return [];
+  // Drop records whose audio file has gone missing and move audio files no record points at
+  // out of uploads, into DATA_DIR/orphaned-uploads, so nothing is deleted unseen
+  private reconcileUploads(): void {
+    const uploadDir = path.join(process.cwd(), "uploads");
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
     }
-    
-    const files = fs.readdirSync(serverProfilesDir);
-    const profiles = [];
-    
-    for (const file of files) {
-      if (file.endsWith('.json')) {
+
+    let changed = false;
+    for (const clip of Array.from(this.soundClips.values())) {
+      if (!fs.existsSync(path.join(uploadDir, clip.filename))) {
+        console.warn(`Audio file for sound clip ${clip.name} (ID: ${clip.id}) is missing, removing record`);
+        this.removeSoundClipRecord(clip.id);
+        changed = true;
+      }
+    }
+
+    const referenced = new Set(Array.from(this.soundClips.values()).map(clip => clip.filename));
+    for (const entry of fs.readdirSync(uploadDir, { withFileTypes: true })) {
+      if (entry.isFile() && !referenced.has(entry.name)) {
         try {
-          const filePath = path.join(serverProfilesDir, file);
-          const profileData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-          profiles.push({
-            name: file.replace('.json', ''),
-            readOnly: profileData.readOnly || false,
-            savedAt: profileData.savedAt
-          });
+          fs.mkdirSync(this.orphanDir, { recursive: true });
+          fs.renameSync(path.join(uploadDir, entry.name), path.join(this.orphanDir, entry.name));
+          console.log(`Moved orphaned upload ${entry.name} to ${this.orphanDir}`);
         } catch (error) {
-          // If we can't read the profile, just include the name with readOnly: false
-          profiles.push({
-            name: file.replace('.json', ''),
-            readOnly: false
-          });
+          console.warn(`Could not move orphaned upload ${entry.name}:`, error);
         }
       }
     }
-    
-    return profiles;
-  }
 
-  async loadProfileFromServer(filename: string): Promise<any> {
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`Profile "${filename}" not found on server`);
+    if (changed) {
+      this.persist();
     }
-    
-    const profileJson = fs.readFileSync(filePath, 'utf8');
-    return JSON.parse(profileJson);
   }
 
-  async deleteServerProfile(filename: string): Promise<void> {
-    const sanitizedFilename = filename.replace(/[^a-zA-Z0-9._-]/g, '_') + '.json';
-    const serverProfilesDir = path.join(process.cwd(), "server-profiles");
-    const filePath = path.join(serverProfilesDir, sanitizedFilename);
-    
-    if (fs.existsSync(filePath)) {
-      // Check if profile is read-only
-      try {
-        const profileData = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-        if (profileData.readOnly) {
-          throw new Error(`Cannot delete read-only profile "${filename}"`);
-        }
-      } catch (error) {
-        if (error.message.includes('read-only')) {
-          throw error;
-        }
-        // If we can't read the file, allow deletion anyway
-      }
-      
-      fs.unlinkSync(filePath);
-    }
+  private removeSoundClipRecord(id: number): void {
+    // Reuse the in-memory cascade (trigger cleanup, default response list) without persisting per clip
+    void super.deleteSoundClip(id);
+  }
+
+  async createSoundClip(insertSoundClip: InsertSoundClip): Promise<SoundClip> {
+    const soundClip = await super.createSoundClip(insertSoundClip);
+    this.persist();
+    return soundClip;
+  }
+
+  async updateSoundClip(id: number, updates: Partial<InsertSoundClip>): Promise<SoundClip | undefined> {
+    const soundClip = await super.updateSoundClip(id, updates);
+    this.persist();
+    return soundClip;
+  }
+
+  async deleteSoundClip(id: number): Promise<void> {
+    await super.deleteSoundClip(id);
+    this.persist();
+  }
+
+  async createTriggerWord(insertTriggerWord: InsertTriggerWord): Promise<TriggerWord> {
+    const triggerWord = await super.createTriggerWord(insertTriggerWord);
+    this.persist();
+    return triggerWord;
+  }
+
+  async updateTriggerWord(id: number, updates: Partial<InsertTriggerWord>): Promise<TriggerWord | undefined> {
+    const triggerWord = await super.updateTriggerWord(id, updates);
+    this.persist();
+    return triggerWord;
+  }
+
+  async deleteTriggerWord(id: number): Promise<void> {
+    await super.deleteTriggerWord(id);
+    this.persist();
+  }
+
+  async getNextSoundClipForTrigger(triggerId: number): Promise<number | null> {
+    const soundClipId = await super.getNextSoundClipForTrigger(triggerId);
+    this.persist();
+    return soundClipId;
+  }
+
+  async updateSettings(updates: Partial<InsertSettings>): Promise<Settings> {
+    const settings = await super.updateSettings(updates);
+    this.persist();
+    return settings;
+  }
+
+  async getNextDefaultResponse(): Promise<number | null> {
+    const soundClipId = await super.getNextDefaultResponse();
+    this.persist();
+    return soundClipId;
+  }
+
+  async createBinding(insertBinding: InsertBinding): Promise<Binding> {
+    const binding = await super.createBinding(insertBinding);
+    this.persist();
+    return binding;
+  }
+
+  async updateBinding(id: number, updates: Partial<InsertBinding>): Promise<Binding | undefined> {
+    const binding = await super.updateBinding(id, updates);
+    this.persist();
+    return binding;
+  }
+
+  async deleteBinding(id: number): Promise<void> {
+    await super.deleteBinding(id);
+    this.persist();
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const category = await super.createCategory(insertCategory);
+    this.persist();
+    return category;
+  }
+
+  async updateCategory(id: number, updates: Partial<InsertCategory>): Promise<Category | undefined> {
+    const category = await super.updateCategory(id, updates);
+    this.persist();
+    return category;
+  }
+
+  async deleteCategory(id: number): Promise<void> {
+    await super.deleteCategory(id);
+    this.persist();
+  }
+
+  async clearAllData(): Promise<void> {
+    await super.clearAllData();
+    this.persist();
+  }
+}
+
+// Pick the storage backend from STORAGE_BACKEND: "memory" (default, session only),
+// "file" (JSON snapshot under DATA_DIR) or "database" (Postgres via DATABASE_URL)
+function createStorage(): IStorage {
+  switch (process.env.STORAGE_BACKEND) {
+    case "file":
+      return new FileStorage(process.env.DATA_DIR || path.join(process.cwd(), "data"));
+    case "database":
+      return new DatabaseStorage();
+    default:
+      return new MemStorage();
   }
 }
 
-// Use memory storage for session-based data, profiles handle persistence
-export const storage = new MemStorage();
+export const storage = createStorage();
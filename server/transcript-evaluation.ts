@@ -0,0 +1,112 @@
+import type { TranscriptEvaluation, TranscriptInput, TranscriptMatch, TriggerWord } from "@shared/schema";
+import { matchTranscript } from "@shared/trigger-matching";
+import { storage } from "./storage";
+import { playbackLimiter, type LimitResult } from "./playback-limits";
+
+// Server-side trigger evaluation: matching, cooldowns, the global rate limit and clip cycling all
+// happen here, so the browser hook, bots and scripts get the same behaviour from one endpoint.
+
+export type TriggerPlayResult =
+  | { soundClipId: number }
+  | { soundClipId: null; blocked?: LimitResult };
+
+// Advance a clip cycle until it lands on a clip that is not cooling down. Each call moves the
+// cycle on, so cooling clips are skipped rather than retried next time. Gives up after `attempts`.
+export async function pickClipOutsideCooldown(
+  next: () => Promise<number | null>,
+  attempts: number,
+): Promise<{ soundClipId: number | null; limit?: LimitResult }> {
+  let limit: LimitResult | undefined;
+  for (let i = 0; i < Math.max(1, attempts); i++) {
+    const soundClipId = await next();
+    if (soundClipId === null) {
+      return { soundClipId: null, limit };
+    }
+    const clip = await storage.getSoundClip(soundClipId);
+    const clipLimit = clip ? playbackLimiter.checkClip(clip) : { allowed: true };
+    if (clipLimit.allowed) {
+      return { soundClipId };
+    }
+    // Report the soonest any of the skipped clips becomes available
+    if (!limit || (clipLimit.retryAfterMs ?? 0) < (limit.retryAfterMs ?? 0)) {
+      limit = clipLimit;
+    }
+  }
+  return { soundClipId: null, limit };
+}
+
+// Fire one trigger: check its cooldown and the global rate limit, advance its clip cycle past
+// clips that are cooling down, and record the play
+export async function fireTrigger(trigger: TriggerWord): Promise<TriggerPlayResult> {
+  const triggerLimit = playbackLimiter.checkTrigger(trigger);
+  if (!triggerLimit.allowed) {
+    return { soundClipId: null, blocked: triggerLimit };
+  }
+  const rate = playbackLimiter.checkRate(await storage.getSettings());
+  if (!rate.allowed) {
+    return { soundClipId: null, blocked: rate };
+  }
+
+  const result = await pickClipOutsideCooldown(
+    () => storage.getNextSoundClipForTrigger(trigger.id),
+    trigger.soundClipIds?.length || 0,
+  );
+  if (result.soundClipId === null) {
+    return { soundClipId: null, blocked: result.limit };
+  }
+
+  playbackLimiter.record(trigger.id, result.soundClipId);
+  return { soundClipId: result.soundClipId };
+}
+
+export async function evaluateTranscript(input: TranscriptInput): Promise<TranscriptEvaluation> {
+  const alternatives = input.alternatives?.length
+    ? input.alternatives
+    : [{ transcript: input.transcript, confidence: input.confidence ?? 1 }];
+  const alreadyFired = new Set(input.alreadyFired || []);
+
+  const triggers = await storage.getTriggerWords();
+  const found = matchTranscript(alternatives, triggers, { language: input.language, interim: input.interim });
+
+  const matches: TranscriptMatch[] = [];
+  const play: TranscriptEvaluation["play"] = [];
+  for (const { trigger, alternative, index, matchedText } of found) {
+    const match: TranscriptMatch = {
+      triggerId: trigger.id,
+      phrase: trigger.phrase,
+      matchedText,
+      transcript: alternative.transcript,
+      confidence: alternative.confidence,
+      alternativeIndex: index,
+      soundClipId: null,
+    };
+
+    if (alreadyFired.has(trigger.id)) {
+      match.alreadyFired = true;
+    } else {
+      const result = await fireTrigger(trigger);
+      if (result.soundClipId !== null) {
+        match.soundClipId = result.soundClipId;
+        const clip = await storage.getSoundClip(result.soundClipId);
+        play.push({
+          soundClipId: result.soundClipId,
+          triggerId: trigger.id,
+          overlapPolicy: clip?.overlapPolicy ?? trigger.overlapPolicy,
+        });
+      } else if (result.blocked?.reason) {
+        match.blocked = { reason: result.blocked.reason, retryAfterMs: result.blocked.retryAfterMs ?? 0 };
+      }
+    }
+    matches.push(match);
+  }
+
+  // The default response is only offered for a finished utterance that matched nothing. It is
+  // not played here: the client waits out the configured delay first, since more speech may follow.
+  const settings = await storage.getSettings();
+  return {
+    matches,
+    play,
+    defaultResponseEligible: !input.interim && matches.length === 0 &&
+      alternatives[0].transcript.trim().length > 0 && !!settings.defaultResponseEnabled,
+  };
+}
@@ -0,0 +1,73 @@
+import type { Binding, BindingInput, InsertBinding } from "./schema";
+
+// Keyboard shortcuts and MIDI controls that fire clips or triggers. Shortcuts are stored as
+// modifiers plus the physical key code (KeyboardEvent.code), so they work the same on every
+// keyboard layout: "Ctrl+Shift+KeyA", "Digit1", "F5".
+
+// What one key press or MIDI message looked like, for matching against bindings
+export type BindingEvent =
+  | { input: "keyboard"; shortcut: string }
+  | { input: "midi-note" | "midi-cc"; midiChannel: number; midiNumber: number };
+
+export const bindingInputLabels: Record<BindingInput, string> = {
+  keyboard: "Keyboard",
+  "midi-note": "MIDI note",
+  "midi-cc": "MIDI control",
+};
+
+export const SHORTCUT_MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"] as const;
+
+export function validateBinding(binding: Pick<InsertBinding, "input" | "shortcut" | "midiNumber">): string | null {
+  if (binding.input === "keyboard") {
+    const key = binding.shortcut?.split("+").pop();
+    if (!key || (SHORTCUT_MODIFIERS as readonly string[]).includes(key)) {
+      return "A keyboard binding needs a key, not just modifiers";
+    }
+    return null;
+  }
+  if (binding.midiNumber === null || binding.midiNumber === undefined) {
+    return "A MIDI binding needs a note or controller number";
+  }
+  return null;
+}
+
+// "Ctrl+Shift+KeyA" -> "Ctrl+Shift+A"
+export function formatShortcut(shortcut: string): string {
+  return shortcut
+    .split("+")
+    .map(part => part.replace(/^Key([A-Z])$/, "$1").replace(/^Digit(\d)$/, "$1").replace(/^Numpad(\w+)$/, "Num $1"))
+    .join("+");
+}
+
+export function describeBinding(binding: Pick<Binding, "input" | "shortcut" | "midiChannel" | "midiNumber">): string {
+  if (binding.input === "keyboard") {
+    return formatShortcut(binding.shortcut || "");
+  }
+  const kind = binding.input === "midi-note" ? "Note" : "CC";
+  const channel = binding.midiChannel ? `ch ${binding.midiChannel}` : "any channel";
+  return `${kind} ${binding.midiNumber} (${channel})`;
+}
+
+// Note-on with a velocity, or a control change with a non-zero value (pads and buttons send 0
+// on release). Everything else, note-offs included, returns null.
+export function parseMidiMessage(data: ArrayLike<number>): BindingEvent | null {
+  if (data.length < 3) return null;
+  const kind = data[0] & 0xf0;
+  const midiChannel = (data[0] & 0x0f) + 1;
+  if (kind === 0x90 && data[2] > 0) {
+    return { input: "midi-note", midiChannel, midiNumber: data[1] };
+  }
+  if (kind === 0xb0 && data[2] > 0) {
+    return { input: "midi-cc", midiChannel, midiNumber: data[1] };
+  }
+  return null;
+}
+
+export function bindingMatches(binding: Binding, event: BindingEvent): boolean {
+  if (!binding.enabled || binding.input !== event.input) return false;
+  if (event.input === "keyboard") {
+    return binding.shortcut === event.shortcut;
+  }
+  return binding.midiNumber === event.midiNumber &&
+    (binding.midiChannel === null || binding.midiChannel === event.midiChannel);
+}
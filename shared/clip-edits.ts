@@ -0,0 +1,64 @@
+import type { SoundClip } from "./schema";
+
+// Non-destructive trim / fade / gain edits stored on a sound clip and applied at playback.
+// Shared so the server validates edits with the same rules the player uses to apply them.
+
+export type ClipEdits = Partial<Pick<SoundClip, "trimStart" | "trimEnd" | "fadeIn" | "fadeOut" | "gainDb" | "normalizationGainDb">>;
+
+export const MIN_GAIN_DB = -40;
+export const MAX_GAIN_DB = 20;
+
+export interface ResolvedClipEdits {
+  start: number; // seconds into the file
+  length: number; // seconds of audio to play
+  fadeIn: number;
+  fadeOut: number;
+  gain: number; // linear multiplier
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Returns an error message when the edits cannot be applied to a clip of this duration, otherwise null
+export function validateClipEdits(edits: ClipEdits, duration: number): string | null {
+  const trimStart = edits.trimStart ?? 0;
+  const trimEnd = edits.trimEnd ?? null;
+
+  if (trimEnd !== null && trimEnd <= trimStart) {
+    return "Trim end must be after trim start";
+  }
+  // Clips uploaded before duration probing may report 0, so only check bounds we actually know
+  if (duration > 0 && trimStart >= duration) {
+    return "Trim start must be before the end of the clip";
+  }
+  if (duration > 0 && trimEnd !== null && trimEnd > duration + 0.01) {
+    return "Trim end is past the end of the clip";
+  }
+  return null;
+}
+
+// Clamp edits to the decoded audio and convert them into what the player schedules
+export function resolveClipEdits(edits: ClipEdits, duration: number): ResolvedClipEdits {
+  const start = Math.min(Math.max(edits.trimStart ?? 0, 0), duration);
+  const end = Math.min(Math.max(edits.trimEnd ?? duration, start), duration);
+  const length = end - start;
+
+  let fadeIn = Math.max(edits.fadeIn ?? 0, 0);
+  let fadeOut = Math.max(edits.fadeOut ?? 0, 0);
+  // Fades longer than the trimmed clip are scaled down so they meet rather than overlap
+  if (fadeIn + fadeOut > length && fadeIn + fadeOut > 0) {
+    const scale = length / (fadeIn + fadeOut);
+    fadeIn *= scale;
+    fadeOut *= scale;
+  }
+
+  // Loudness normalization stacks with the user's own gain edit
+  const gainDb = Math.min(Math.max(edits.gainDb ?? 0, MIN_GAIN_DB), MAX_GAIN_DB) + (edits.normalizationGainDb ?? 0);
+  return { start, length, fadeIn, fadeOut, gain: dbToGain(gainDb) };
+}
+
+export function hasClipEdits(edits: ClipEdits): boolean {
+  const trimmed = !!edits.trimStart || (edits.trimEnd !== null && edits.trimEnd !== undefined);
+  return trimmed || !!edits.fadeIn || !!edits.fadeOut || !!edits.gainDb;
+}
@@ -0,0 +1,94 @@
+import type { Category, InsertCategory, SoundClip } from "./schema";
+
+// Organizing a large library: free-form tags on clips, and nested folders (categories) that
+// each hold clips directly. Tags are stored normalized, so "Funny " and "funny" are one tag.
+
+export const MAX_TAG_LENGTH = 40;
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ").toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalized, de-duplicated and without empties, in first-seen order
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
+
+// "a, b" and ["a", "b,c"] both work, as with ?tag=a&tag=b or ?tags=a,b on GET /api/sound-clips
+export function parseTagList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return normalizeTags(values.flatMap(item => String(item).split(",")));
+}
+
+// Every tag in use, most used first
+export function tagCounts(soundClips: SoundClip[]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const clip of soundClips) {
+    for (const tag of clip.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Folder names from the top-level folder down to this one; empty if the id is unknown
+export function categoryPath(categories: Category[], id: number): string[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const names: string[] = [];
+  const seen = new Set<number>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId === null ? undefined : byId.get(current.parentId);
+  }
+  return names;
+}
+
+// The folder and every folder nested inside it
+export function descendantCategoryIds(categories: Category[], id: number): Set<number> {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId !== null && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+// A folder's parent must exist and must not be the folder itself or one nested inside it
+export function validateCategoryParent(categories: Category[], category: Pick<InsertCategory, "parentId">, id?: number): string | null {
+  if (category.parentId === null || category.parentId === undefined) return null;
+  if (!categories.some(existing => existing.id === category.parentId)) {
+    return "The parent folder does not exist";
+  }
+  if (id !== undefined && descendantCategoryIds(categories, id).has(category.parentId)) {
+    return "A folder cannot be moved into itself or one of its subfolders";
+  }
+  return null;
+}
+
+export interface ClipFilter {
+  tags?: string[]; // clips must carry every one of these
+  categoryId?: number | "none"; // a folder (subfolders included), or clips in no folder
+  search?: string; // case-insensitive match on the clip name
+}
+
+export function filterSoundClips(soundClips: SoundClip[], categories: Category[], filter: ClipFilter): SoundClip[] {
+  const tags = filter.tags ?? [];
+  const search = filter.search?.trim().toLowerCase();
+  const folderIds = typeof filter.categoryId === "number" ? descendantCategoryIds(categories, filter.categoryId) : null;
+  return soundClips.filter(clip => {
+    if (search && !clip.name.toLowerCase().includes(search)) return false;
+    if (!tags.every(tag => (clip.tags ?? []).includes(tag))) return false;
+    if (filter.categoryId === "none") return !clip.categoryId;
+    if (folderIds) return !!clip.categoryId && folderIds.has(clip.categoryId);
+    return true;
+  });
+}
@@ -0,0 +1,41 @@
+import type { OverlapPolicy } from "./schema";
+
+// Live events pushed to every open tab and device over the /api/events WebSocket, so several
+// browsers on one soundboard stay in step without refetching.
+
+export const EVENTS_PATH = "/api/events";
+
+// Sent with requests that can play a clip, so a tab can tell its own plays from other devices'
+export const CLIENT_ID_HEADER = "X-Client-Id";
+
+// Server collections a mutation touched; each is fetched from /api/<resource>
+export type LiveResource = "sound-clips" | "trigger-words" | "settings" | "devices" | "bindings" | "categories";
+
+// Hosts play sounds; pads (/pad) only send play requests to them
+export type LiveRole = "host" | "pad";
+
+export interface LiveDevice {
+  clientId: string;
+  name: string;
+  role: LiveRole;
+}
+
+// The only message clients send: who they are, on connect and whenever it changes
+export type LiveClientMessage = { type: "hello" } & LiveDevice;
+
+export type LiveEvent =
+  | { type: "changed"; resources: LiveResource[] }
+  | {
+      type: "clip-played";
+      soundClipId: number;
+      triggerId: number | null; // null for the default response
+      overlapPolicy: OverlapPolicy | null;
+      origin: string | null; // client id of the tab that fired it, when known
+    }
+  | {
+      // Relayed from a pad: the target host plays the clip, or every host when target is null
+      type: "play-request";
+      soundClipId: number;
+      target: string | null;
+      origin: string | null;
+    };
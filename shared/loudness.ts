@@ -0,0 +1,123 @@
+// Integrated loudness (ITU-R BS.1770 / EBU R128 style LUFS) and sample peak measurement.
+// Pure math over decoded PCM so the server (WAV) and the browser (Web Audio decoded clips)
+// produce identical numbers.
+
+export const DEFAULT_LOUDNESS_TARGET = -16; // LUFS, a common target for speech and effects
+export const PEAK_CEILING_DB = -1; // normalization never pushes the peak above this
+
+export interface LoudnessMeasurement {
+  loudnessLufs: number | null; // null for silence (every block below the absolute gate)
+  peakDb: number | null; // sample peak in dBFS, null for digital silence
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+// K-weighting filter coefficients for any sample rate (pre-filter shelf + RLB high-pass)
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, filter: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  let peak = 0;
+  for (const data of channels) {
+    for (let i = 0; i < data.length; i++) {
+      const value = Math.abs(data[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  const peakDb = peak > 0 ? 20 * Math.log10(peak) : null;
+
+  const length = channels[0]?.length || 0;
+  if (length === 0) {
+    return { loudnessLufs: null, peakDb };
+  }
+
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const weighted = channels.map(data => applyBiquad(applyBiquad(data, shelf), highPass));
+
+  // 400 ms gating blocks with 75% overlap; clips shorter than one block are measured as a whole
+  const blockSize = Math.min(Math.round(sampleRate * 0.4), length);
+  const step = Math.max(1, Math.round(blockSize / 4));
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  // Absolute gate at -70 LUFS, then a relative gate 10 LU below the absolutely-gated loudness
+  const aboveAbsolute = blockPowers.filter(power => power > 0 && blockLoudness(power) > -70);
+  if (aboveAbsolute.length === 0) {
+    return { loudnessLufs: null, peakDb };
+  }
+  const relativeGate = blockLoudness(aboveAbsolute.reduce((sum, p) => sum + p, 0) / aboveAbsolute.length) - 10;
+  const gated = aboveAbsolute.filter(power => blockLoudness(power) > relativeGate);
+
+  return {
+    loudnessLufs: blockLoudness(gated.reduce((sum, p) => sum + p, 0) / gated.length),
+    peakDb,
+  };
+}
+
+// Gain that brings a clip to the target loudness without pushing its peak past the ceiling
+export function normalizationGainDb(
+  loudnessLufs: number | null | undefined,
+  peakDb: number | null | undefined,
+  target: number = DEFAULT_LOUDNESS_TARGET,
+): number {
+  if (loudnessLufs === null || loudnessLufs === undefined || !isFinite(loudnessLufs)) {
+    return 0;
+  }
+  let gain = target - loudnessLufs;
+  if (peakDb !== null && peakDb !== undefined && isFinite(peakDb)) {
+    gain = Math.min(gain, PEAK_CEILING_DB - peakDb);
+  }
+  return Math.round(gain * 100) / 100;
+}
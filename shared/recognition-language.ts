@@ -0,0 +1,50 @@
+import type { Settings } from "./schema";
+
+// Recognition language selection. The Web Speech API listens in one language per session, so
+// bilingual streams either pin one language or rotate through several, restarting the session
+// in the next language every few seconds. Triggers tagged with a language only fire while the
+// recognizer is listening in it.
+
+export const recognitionLanguageOptions: { code: string; label: string }[] = [
+  { code: "en-US", label: "English (US)" },
+  { code: "en-GB", label: "English (UK)" },
+  { code: "es-ES", label: "Spanish (Spain)" },
+  { code: "es-MX", label: "Spanish (Mexico)" },
+  { code: "fr-FR", label: "French" },
+  { code: "de-DE", label: "German" },
+  { code: "it-IT", label: "Italian" },
+  { code: "pt-BR", label: "Portuguese (Brazil)" },
+  { code: "nl-NL", label: "Dutch" },
+  { code: "pl-PL", label: "Polish" },
+  { code: "ru-RU", label: "Russian" },
+  { code: "ja-JP", label: "Japanese" },
+  { code: "ko-KR", label: "Korean" },
+  { code: "zh-CN", label: "Chinese (Mandarin)" },
+];
+
+export const DEFAULT_RECOGNITION_LANGUAGE = "en-US";
+
+export function languageLabel(code: string): string {
+  return recognitionLanguageOptions.find(option => option.code === code)?.label || code;
+}
+
+// A trigger without a language fires in any language. A bare language tag ("es") matches every
+// region of it ("es-ES", "es-MX"); a full tag must match exactly.
+export function languageMatches(triggerLanguage: string | null | undefined, recognitionLanguage: string): boolean {
+  if (!triggerLanguage) return true;
+  const wanted = triggerLanguage.toLowerCase();
+  const current = recognitionLanguage.toLowerCase();
+  return wanted.includes("-") ? wanted === current : current.split("-")[0] === wanted;
+}
+
+// Languages the listener cycles through: just the primary one when pinned, otherwise the primary
+// followed by the extra rotation languages (duplicates dropped)
+export function recognitionLanguageCycle(
+  settings: Partial<Pick<Settings, "recognitionLanguage" | "recognitionLanguages" | "recognitionLanguageMode">> | undefined,
+): string[] {
+  const primary = settings?.recognitionLanguage || DEFAULT_RECOGNITION_LANGUAGE;
+  if (settings?.recognitionLanguageMode !== "rotate") {
+    return [primary];
+  }
+  return Array.from(new Set([primary, ...(settings.recognitionLanguages || [])]));
+}
@@ -1,9 +1,49 @@
 import { pgTable, text, serial, integer, boolean, real, timestamp } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MIN_GAIN_DB, MAX_GAIN_DB } from "./clip-edits";
+import { DEFAULT_LOUDNESS_TARGET } from "./loudness";
+
+// exact: substring, whole-word: word boundaries, fuzzy: edit distance, phonetic: sounds-alike
+export const triggerMatchModes = ["exact", "whole-word", "fuzzy", "phonetic"] as const;
+
+// How the phrase is read: plain text (compared using matchMode), a regular expression,
+// or a wildcard pattern where * matches any run of characters and ? a single character
+export const triggerMatchTypes = ["substring", "regex", "wildcard"] as const;
+
+// Order in which a trigger (or the default response list) picks among its clips.
+// shuffle-bag plays every clip once in random order before any repeats; weighted uses soundClips.weight
+export const playbackOrders = ["sequential", "random", "shuffle-bag", "weighted"] as const;
+export type PlaybackOrder = typeof playbackOrders[number];
+
+// What happens when a sound is triggered while others are still playing: interrupt stops them,
+// layer plays on top, queue waits until they finish, ignore-if-playing drops the new sound
+export const overlapPolicies = ["interrupt", "layer", "queue", "ignore-if-playing"] as const;
+export type OverlapPolicy = typeof overlapPolicies[number];
+
+// pin: always listen in recognitionLanguage; rotate: cycle through it and recognitionLanguages
+// (see shared/recognition-language.ts)
+export const recognitionLanguageModes = ["pin", "rotate"] as const;
+export type RecognitionLanguageMode = typeof recognitionLanguageModes[number];
+
+// Where speech recognition runs: the browser's Web Speech API, or the local recognizer on the
+// server fed over WebSocket (see server/local-recognizer.ts)
+export const recognitionEngines = ["web-speech", "local"] as const;
+export type RecognitionEngineId = typeof recognitionEngines[number];
+
+// What a binding listens for: a keyboard shortcut, a MIDI note-on or a MIDI control change
+// (see shared/bindings.ts)
+export const bindingInputs = ["keyboard", "midi-note", "midi-cc"] as const;
+export type BindingInput = typeof bindingInputs[number];
+
+// What a binding fires: one clip directly, or a trigger, which cycles through its clips
+export const bindingTargets = ["clip", "trigger"] as const;
+export type BindingTarget = typeof bindingTargets[number];
 
 export const soundClips = pgTable("sound_clips", {
   id: serial("id").primaryKey(),
+  uuid: text("uuid").notNull().unique().default(sql`gen_random_uuid()`), // identifies the clip in profiles
   name: text("name").notNull(),
   filename: text("filename").notNull(),
   format: text("format").notNull(),
@@ -11,6 +51,32 @@ export const soundClips = pgTable("sound_clips", {
   size: integer("size").notNull(),
   url: text("url").notNull(),
   isDefault: boolean("is_default").default(true).notNull(), // All clips start as default clips
+  weight: real("weight").default(1).notNull(), // relative chance in "weighted" playback order
+  // Probed from the file headers on upload; null when the container does not record them
+  sampleRate: integer("sample_rate"),
+  channels: integer("channels"),
+  bitrate: integer("bitrate"), // bits per second
+  // Non-destructive edits applied at playback (see shared/clip-edits.ts); times in seconds
+  trimStart: real("trim_start").default(0).notNull(),
+  trimEnd: real("trim_end"), // null plays to the end of the file
+  fadeIn: real("fade_in").default(0).notNull(),
+  fadeOut: real("fade_out").default(0).notNull(),
+  gainDb: real("gain_db").default(0).notNull(),
+  // Measured on upload/import (see shared/loudness.ts); null until the clip has been analyzed
+  loudnessLufs: real("loudness_lufs"),
+  peakDb: real("peak_db"),
+  normalizationGainDb: real("normalization_gain_db").default(0).notNull(), // applied on top of gainDb
+  overlapPolicy: text("overlap_policy", { enum: overlapPolicies }), // overrides the trigger's policy when set
+  cooldownMs: integer("cooldown_ms").default(0).notNull(), // minimum time between plays of this clip
+  tags: text("tags").array().default([]).notNull(), // normalized, see shared/clip-library.ts
+  categoryId: integer("category_id"), // folder holding the clip; null when unfiled
+});
+
+// Library folders; nest by pointing at a parent folder
+export const categories = pgTable("categories", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  parentId: integer("parent_id"), // null for top-level folders
 });
 
 export const triggerWords = pgTable("trigger_words", {
@@ -20,6 +86,27 @@ export const triggerWords = pgTable("trigger_words", {
   currentIndex: integer("current_index").default(0),
   caseSensitive: boolean("case_sensitive").default(false),
   enabled: boolean("enabled").default(true),
+  matchMode: text("match_mode", { enum: triggerMatchModes }).default("exact").notNull(),
+  fuzzyThreshold: integer("fuzzy_threshold").default(1).notNull(), // max edit distance in "fuzzy" mode
+  matchType: text("match_type", { enum: triggerMatchTypes }).default("substring").notNull(),
+  playbackOrder: text("playback_order", { enum: playbackOrders }).default("sequential").notNull(),
+  shuffleBag: integer("shuffle_bag").array().default([]).notNull(), // clips left to play in "shuffle-bag" order
+  overlapPolicy: text("overlap_policy", { enum: overlapPolicies }).default("interrupt").notNull(),
+  cooldownMs: integer("cooldown_ms").default(2000).notNull(), // minimum time between firings of this trigger
+  language: text("language"), // BCP 47 tag such as "es" or "en-US"; null fires in any recognition language
+  minConfidence: real("min_confidence").default(0).notNull(), // 0..1; recognizer guesses below this never fire
+  earlyFire: boolean("early_fire").default(false).notNull(), // fire on interim results instead of waiting for the final one
+});
+
+export const bindings = pgTable("bindings", {
+  id: serial("id").primaryKey(),
+  input: text("input", { enum: bindingInputs }).notNull(),
+  shortcut: text("shortcut"), // keyboard only, e.g. "Ctrl+Shift+KeyA" (physical key codes)
+  midiChannel: integer("midi_channel"), // MIDI only, 1-16; null listens on every channel
+  midiNumber: integer("midi_number"), // MIDI only, note or controller number 0-127
+  targetType: text("target_type", { enum: bindingTargets }).notNull(),
+  targetId: integer("target_id").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
 });
 
 export const settings = pgTable("settings", {
@@ -28,51 +115,319 @@ export const settings = pgTable("settings", {
   defaultResponseSoundClipIds: integer("default_response_sound_clip_ids").array().default([]),
   defaultResponseDelay: integer("default_response_delay").default(2000), // milliseconds
   defaultResponseIndex: integer("default_response_index").default(0),
+  defaultResponsePlaybackOrder: text("default_response_playback_order", { enum: playbackOrders }).default("sequential").notNull(),
+  defaultResponseShuffleBag: integer("default_response_shuffle_bag").array().default([]).notNull(),
+  loudnessNormalization: boolean("loudness_normalization").default(true).notNull(),
+  loudnessTarget: real("loudness_target").default(DEFAULT_LOUDNESS_TARGET).notNull(), // LUFS
+  masterVolume: real("master_volume").default(0.8).notNull(), // 0..1, applied by the client audio engine
+  maxVoices: integer("max_voices").default(4).notNull(), // sounds allowed to play at once; the oldest is stopped beyond this
+  // Global rate limit: at most rateLimitMaxSounds triggered sounds per rateLimitWindowSeconds (0 = unlimited)
+  rateLimitMaxSounds: integer("rate_limit_max_sounds").default(0).notNull(),
+  rateLimitWindowSeconds: integer("rate_limit_window_seconds").default(10).notNull(),
+  recognitionLanguage: text("recognition_language").default("en-US").notNull(),
+  recognitionLanguages: text("recognition_languages").array().default([]).notNull(), // extra languages for "rotate"
+  recognitionLanguageMode: text("recognition_language_mode", { enum: recognitionLanguageModes }).default("pin").notNull(),
+  recognitionRotateSeconds: integer("recognition_rotate_seconds").default(8).notNull(), // time spent in each language when rotating
+  recognitionMaxAlternatives: integer("recognition_max_alternatives").default(3).notNull(), // readings per utterance checked against triggers
+  recognitionEngine: text("recognition_engine", { enum: recognitionEngines }).default("web-speech").notNull(),
 });
 
-export const insertSoundClipSchema = createInsertSchema(soundClips).omit({
+export const insertSoundClipSchema = createInsertSchema(soundClips, {
+  weight: (schema) => schema.min(0),
+  cooldownMs: (schema) => schema.int().min(0),
+  trimStart: (schema) => schema.min(0),
+  trimEnd: (schema) => schema.positive(),
+  fadeIn: (schema) => schema.min(0),
+  fadeOut: (schema) => schema.min(0),
+  gainDb: (schema) => schema.min(MIN_GAIN_DB).max(MAX_GAIN_DB),
+}).omit({
   id: true,
   isDefault: true, // Auto-managed, starts as true for all new clips
 });
 
-export const insertTriggerWordSchema = createInsertSchema(triggerWords).omit({
+export const insertTriggerWordSchema = createInsertSchema(triggerWords, {
+  fuzzyThreshold: (schema) => schema.min(0).max(5),
+  cooldownMs: (schema) => schema.int().min(0),
+  minConfidence: (schema) => schema.min(0).max(1),
+}).omit({
+  id: true,
+});
+
+// Fields of a sound clip that can be edited after upload
+export const updateSoundClipSchema = insertSoundClipSchema.pick({
+  name: true,
+  weight: true,
+  trimStart: true,
+  trimEnd: true,
+  fadeIn: true,
+  fadeOut: true,
+  gainDb: true,
+  overlapPolicy: true,
+  cooldownMs: true,
+  tags: true,
+  categoryId: true,
+}).partial();
+
+// Loudness measured in the browser for clip formats the server cannot decode
+export const clipLoudnessSchema = z.object({
+  loudnessLufs: z.number().min(-100).max(20).nullable(),
+  peakDb: z.number().min(-200).max(20).nullable(),
+});
+
+// A transcript to evaluate against the triggers on the server (POST /api/transcripts). Either a
+// single transcript with an optional confidence, or the recognizer's ranked alternatives.
+// Triggers (regex ones included) run over every alternative as the request is handled, so how
+// much text one transcript can carry is bounded. An utterance is far shorter than this.
+export const MAX_TRANSCRIPT_LENGTH = 1000;
+export const MAX_TRANSCRIPT_ALTERNATIVES = 10;
+
+export const transcriptSchema = z.object({
+  transcript: z.string().max(MAX_TRANSCRIPT_LENGTH),
+  confidence: z.number().min(0).max(1).optional(),
+  alternatives: z.array(z.object({
+    transcript: z.string().max(MAX_TRANSCRIPT_LENGTH),
+    confidence: z.number().min(0).max(1),
+  })).max(MAX_TRANSCRIPT_ALTERNATIVES).optional(),
+  language: z.string().optional(), // recognition language; omitted means language-tagged triggers all apply
+  interim: z.boolean().optional(), // interim results only fire early-fire triggers
+  alreadyFired: z.array(z.number()).optional(), // trigger ids already fired for this utterance
+});
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).omit({
   id: true,
 });
 
-export const insertSettingsSchema = createInsertSchema(settings).omit({
+export const insertBindingSchema = createInsertSchema(bindings, {
+  midiChannel: (schema) => schema.int().min(1).max(16),
+  midiNumber: (schema) => schema.int().min(0).max(127),
+}).omit({
+  id: true,
+});
+
+export const insertSettingsSchema = createInsertSchema(settings, {
+  loudnessTarget: (schema) => schema.min(-40).max(0),
+  masterVolume: (schema) => schema.min(0).max(1),
+  maxVoices: (schema) => schema.min(1).max(32),
+  rateLimitMaxSounds: (schema) => schema.int().min(0),
+  rateLimitWindowSeconds: (schema) => schema.int().min(1),
+  recognitionRotateSeconds: (schema) => schema.int().min(2).max(120),
+  recognitionMaxAlternatives: (schema) => schema.int().min(1).max(10),
+}).omit({
   id: true,
 });
 
 export type InsertSoundClip = z.infer<typeof insertSoundClipSchema>;
+export type UpdateSoundClip = z.infer<typeof updateSoundClipSchema>;
 export type SoundClip = typeof soundClips.$inferSelect;
 export type InsertTriggerWord = z.infer<typeof insertTriggerWordSchema>;
 export type TriggerWord = typeof triggerWords.$inferSelect;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Settings = typeof settings.$inferSelect;
+export type TranscriptInput = z.infer<typeof transcriptSchema>;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Category = typeof categories.$inferSelect;
+export type InsertBinding = z.infer<typeof insertBindingSchema>;
+export type Binding = typeof bindings.$inferSelect;
+
+// One trigger that matched a transcript, and what the server decided to do about it
+export interface TranscriptMatch {
+  triggerId: number;
+  phrase: string;
+  matchedText: string;
+  transcript: string; // the alternative that matched
+  confidence: number;
+  alternativeIndex: number;
+  soundClipId: number | null; // null when blocked or when the trigger has no clips
+  blocked?: { reason: "trigger-cooldown" | "clip-cooldown" | "rate-limit"; retryAfterMs: number };
+  alreadyFired?: boolean; // matched again, but already fired earlier in this utterance
+}
+
+export interface TranscriptEvaluation {
+  matches: TranscriptMatch[];
+  // Clips to play now, in trigger order
+  play: Array<{ soundClipId: number; triggerId: number; overlapPolicy: OverlapPolicy }>;
+  // A final, non-empty transcript that fired nothing: the client may schedule the default response
+  defaultResponseEligible: boolean;
+}
 
 // Profile export/import schemas
+
+// A clip in a profile, apart from its audio
+const profileSoundClipSchema = z.object({
+  uuid: z.string().optional(), // what triggers, settings and bindings refer to; names before uuids existed
+  name: z.string(),
+  filename: z.string(),
+  format: z.string(),
+  duration: z.number(),
+  size: z.number(),
+  sampleRate: z.number().nullable().optional(), // probed from the audio on import when absent
+  channels: z.number().nullable().optional(),
+  bitrate: z.number().nullable().optional(),
+  weight: z.number().optional(),
+  trimStart: z.number().optional(),
+  trimEnd: z.number().nullable().optional(),
+  fadeIn: z.number().optional(),
+  fadeOut: z.number().optional(),
+  gainDb: z.number().optional(),
+  loudnessLufs: z.number().nullable().optional(),
+  peakDb: z.number().nullable().optional(),
+  overlapPolicy: z.enum(overlapPolicies).nullable().optional(),
+  cooldownMs: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+  category: z.array(z.string()).optional(), // folder path from the top level; absent or empty when unfiled
+});
+
 export const profileSchema = z.object({
   version: z.string().default("1.0"),
   exportDate: z.string(),
-  soundClips: z.array(z.object({
-    name: z.string(),
-    filename: z.string(),
-    format: z.string(),
-    duration: z.number(),
-    size: z.number(),
+  soundClips: z.array(profileSoundClipSchema.extend({
     audioData: z.string(), // base64 encoded audio data
   })),
-  triggerWords: z.array(z.object({
+  // The earliest profiles gave each trigger one clip, as soundClipName
+  triggerWords: z.array(z.preprocess(trigger => {
+    if (trigger && typeof trigger === "object" && !("soundClipNames" in trigger) && "soundClipName" in trigger) {
+      const { soundClipName, ...rest } = trigger;
+      return { ...rest, soundClipNames: [soundClipName] };
+    }
+    return trigger;
+  }, z.object({
     phrase: z.string(),
     soundClipNames: z.array(z.string()), // Multiple sound clips per trigger
+    soundClipUuids: z.array(z.string()).optional(), // the same clips by uuid; preferred when present
+    currentIndex: z.number().optional(),
+    shuffleBag: z.array(z.string()).optional(), // clip uuids left in the current shuffle
     caseSensitive: z.boolean(),
     enabled: z.boolean(),
-  })),
+    matchMode: z.enum(triggerMatchModes).optional(),
+    fuzzyThreshold: z.number().optional(),
+    matchType: z.enum(triggerMatchTypes).optional(),
+    playbackOrder: z.enum(playbackOrders).optional(),
+    overlapPolicy: z.enum(overlapPolicies).optional(),
+    cooldownMs: z.number().optional(),
+    language: z.string().nullable().optional(),
+    minConfidence: z.number().optional(),
+    earlyFire: z.boolean().optional(),
+  }))),
   settings: z.object({
     defaultResponseEnabled: z.boolean(),
     defaultResponseSoundClipNames: z.array(z.string()), // Reference by names instead of IDs
+    defaultResponseSoundClipUuids: z.array(z.string()).optional(), // preferred over names when present
+    defaultResponseIndex: z.number().optional(),
+    defaultResponseShuffleBag: z.array(z.string()).optional(), // clip uuids
     defaultResponseDelay: z.number(),
+    defaultResponsePlaybackOrder: z.enum(playbackOrders).optional(),
+    loudnessNormalization: z.boolean().optional(),
+    loudnessTarget: z.number().optional(),
+    masterVolume: z.number().optional(),
+    maxVoices: z.number().optional(),
+    rateLimitMaxSounds: z.number().optional(),
+    rateLimitWindowSeconds: z.number().optional(),
+    recognitionLanguage: z.string().optional(),
+    recognitionLanguages: z.array(z.string()).optional(),
+    recognitionLanguageMode: z.enum(recognitionLanguageModes).optional(),
+    recognitionRotateSeconds: z.number().optional(),
+    recognitionMaxAlternatives: z.number().optional(),
+    recognitionEngine: z.enum(recognitionEngines).optional(),
   }),
+  // Every folder's path, so empty folders survive a round trip
+  categories: z.array(z.array(z.string())).optional(),
+  // Bindings name their target clip or trigger phrase, since ids change on import
+  bindings: z.array(z.object({
+    input: z.enum(bindingInputs),
+    shortcut: z.string().nullable().optional(),
+    midiChannel: z.number().nullable().optional(),
+    midiNumber: z.number().nullable().optional(),
+    targetType: z.enum(bindingTargets),
+    targetName: z.string(),
+    targetUuid: z.string().optional(), // clip targets
+    enabled: z.boolean().optional(),
+  })).optional(),
 });
 
 export type Profile = z.infer<typeof profileSchema>;
+
+// Profile format v2 is an archive of manifest.json plus the raw audio files (see
+// server/profile-archive.ts). The manifest is a profile whose clips name their audio file
+// in the archive instead of embedding it.
+export const PROFILE_ARCHIVE_VERSION = "2.0";
+
+export const profileManifestSchema = profileSchema.extend({
+  soundClips: z.array(profileSoundClipSchema.extend({
+    audioFile: z.string(),
+  })),
+});
+
+export type ProfileManifest = z.infer<typeof profileManifestSchema>;
+
+// How a profile import treats what is already loaded. "replace" clears everything first;
+// "merge" only adds clips and triggers that aren't there yet (clips by uuid, or by name and
+// audio in profiles without uuids; triggers by phrase) and keeps the current settings; "resolve" also imports clips and triggers whose
+// name or phrase clashes with an existing one, renaming the import, skipping it or
+// overwriting the existing one as `conflict` says.
+export const profileImportModes = ["replace", "merge", "resolve"] as const;
+export const profileConflictResolutions = ["rename", "skip", "overwrite"] as const;
+export type ProfileImportMode = typeof profileImportModes[number];
+export type ProfileConflictResolution = typeof profileConflictResolutions[number];
+
+export const profileImportOptionsSchema = z.object({
+  mode: z.enum(profileImportModes).default("replace"),
+  conflict: z.enum(profileConflictResolutions).default("rename"),
+});
+
+export type ProfileImportOptions = z.infer<typeof profileImportOptionsSchema>;
+
+export type ProfileImportItemType = "sound-clip" | "trigger-word" | "binding";
+
+// What an import did, item by item
+export interface ProfileImportReport {
+  mode: ProfileImportMode;
+  added: Array<{ type: ProfileImportItemType; name: string }>;
+  skipped: Array<{ type: ProfileImportItemType; name: string; reason: string }>;
+  renamed: Array<{ type: ProfileImportItemType; from: string; to: string }>;
+  overwritten: Array<{ type: ProfileImportItemType; name: string }>;
+}
+
+// A dry run of an import (POST /api/profile/import/preview). `valid` says whether the profile
+// can be imported at all; an item with an error is skipped by the import, one with a warning
+// imports but may not come out as expected.
+export interface ProfilePreviewIssue {
+  item: string; // e.g. `Clip "airhorn"`, `Trigger "hello"`, or "Profile"
+  message: string;
+}
+
+export interface ProfilePreview {
+  format: "json" | "archive";
+  version: string | null;
+  valid: boolean;
+  errors: ProfilePreviewIssue[];
+  warnings: ProfilePreviewIssue[];
+  totals: {
+    soundClips: number;
+    triggerWords: number;
+    bindings: number;
+    categories: number;
+    duration: number; // seconds of audio
+    audioBytes: number; // decoded audio
+    fileBytes: number; // the uploaded profile
+  };
+}
+
+// A profile saved on the server (GET /api/profile/server-profiles)
+export interface ServerProfileInfo {
+  name: string;
+  readOnly: boolean;
+  savedAt?: string;
+  note?: string;
+  versions: number; // the current one and those kept in its history
+}
+
+// One saved version of a server profile (GET /api/profile/server-profiles/:filename/versions)
+export interface ServerProfileVersion {
+  id: string; // from when it was saved, e.g. "2026-10-19T09-45-07-019Z"
+  savedAt: string;
+  note?: string;
+  readOnly: boolean;
+  current: boolean;
+}
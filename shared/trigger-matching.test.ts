@@ -0,0 +1,84 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { matchTrigger, validateTriggerPattern } from "./trigger-matching";
+
+describe("substring triggers", () => {
+  test("exact matches the phrase anywhere, inside words too", () => {
+    const trigger = { phrase: "Cat", matchMode: "exact" } as const;
+    assert.equal(matchTrigger("the concatenation", trigger), "cat");
+    assert.equal(matchTrigger("a dog", trigger), null);
+  });
+
+  test("exact honors case sensitivity", () => {
+    const trigger = { phrase: "Cat", matchMode: "exact", caseSensitive: true } as const;
+    assert.equal(matchTrigger("a Cat", trigger), "Cat");
+    assert.equal(matchTrigger("a cat", trigger), null);
+  });
+
+  test("whole-word matches whole words only, ignoring punctuation", () => {
+    const trigger = { phrase: "good night", matchMode: "whole-word" } as const;
+    assert.equal(matchTrigger("Well, good night!", trigger), "good night");
+    assert.equal(matchTrigger("good nightly news", trigger), null);
+  });
+
+  test("fuzzy allows as many edits as its threshold", () => {
+    assert.equal(matchTrigger("say helo there", { phrase: "hello", matchMode: "fuzzy" }), "helo");
+    assert.equal(matchTrigger("say hlo there", { phrase: "hello", matchMode: "fuzzy" }), null);
+    assert.equal(matchTrigger("say hlo there", { phrase: "hello", matchMode: "fuzzy", fuzzyThreshold: 2 }), "hlo");
+  });
+
+  test("phonetic matches words that sound alike", () => {
+    const trigger = { phrase: "night", matchMode: "phonetic" } as const;
+    assert.equal(matchTrigger("good knight", trigger), "knight");
+    assert.equal(matchTrigger("good day", trigger), null);
+  });
+});
+
+describe("pattern triggers", () => {
+  test("regex returns the text it matched", () => {
+    const trigger = { phrase: "good (morning|night)", matchType: "regex" } as const;
+    assert.equal(matchTrigger("Good Night everyone", trigger), "Good Night");
+    assert.equal(matchTrigger("good afternoon", trigger), null);
+    assert.equal(matchTrigger("Good Night", { ...trigger, caseSensitive: true }), null);
+  });
+
+  test("wildcard * spans any run of characters and ? a single one", () => {
+    assert.equal(matchTrigger("please call me later", { phrase: "call * later", matchType: "wildcard" }), "call me later");
+    assert.equal(matchTrigger("the cat sat", { phrase: "c?t", matchType: "wildcard" }), "cat");
+    assert.equal(matchTrigger("the coat sat", { phrase: "c?t", matchType: "wildcard" }), null);
+    // Other regex characters are literal
+    assert.equal(matchTrigger("cost (approx)", { phrase: "(approx)", matchType: "wildcard" }), "(approx)");
+  });
+
+  test("unusable patterns are rejected", () => {
+    assert.match(validateTriggerPattern({ phrase: "  ", matchType: "regex" }) ?? "", /cannot be empty/);
+    assert.match(validateTriggerPattern({ phrase: "good (morning", matchType: "regex" }) ?? "", /^Invalid regex pattern/);
+    // RE2 has no lookaround or backreferences
+    assert.match(validateTriggerPattern({ phrase: "good(?= night)", matchType: "regex" }) ?? "", /^Invalid regex pattern/);
+    assert.match(validateTriggerPattern({ phrase: "(a)\\1", matchType: "regex" }) ?? "", /^Invalid regex pattern/);
+    assert.match(validateTriggerPattern({ phrase: "a*", matchType: "regex" }) ?? "", /matches empty text/);
+    assert.match(validateTriggerPattern({ phrase: "*", matchType: "wildcard" }) ?? "", /matches empty text/);
+    assert.equal(validateTriggerPattern({ phrase: "good (morning", matchType: "substring" }), null);
+    assert.equal(validateTriggerPattern({ phrase: "call * later", matchType: "wildcard" }), null);
+  });
+
+  // Each of these backtracks exponentially (or to a high power) in a JavaScript RegExp on a long
+  // run of a's with no b
+  const slowPatterns = [
+    { phrase: "(a|a)*b", matchType: "regex" },
+    { phrase: "(a|aa)+b", matchType: "regex" },
+    { phrase: "(a+)+b", matchType: "regex" },
+    { phrase: "(\\w*\\s?)*b", matchType: "regex" },
+    { phrase: "*a*a*a*a*a*b", matchType: "wildcard" },
+  ] as const;
+
+  for (const trigger of slowPatterns) {
+    test(`${trigger.phrase} matches a near miss quickly`, () => {
+      assert.equal(validateTriggerPattern(trigger), null);
+      const started = performance.now();
+      assert.equal(matchTrigger("a".repeat(1000), trigger), null);
+      assert.ok(performance.now() - started < 1000, `took ${Math.round(performance.now() - started)}ms`);
+      assert.ok(matchTrigger("aaaaab", trigger));
+    });
+  }
+});
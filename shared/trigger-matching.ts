@@ -0,0 +1,326 @@
+import { RE2JS } from "re2js";
+import type { TriggerWord } from "./schema";
+import { languageMatches } from "./recognition-language";
+
+// Trigger matching shared by the voice recognition hook and anything else that
+// needs to decide whether a transcript fires a trigger. Pure functions only so
+// it can be exercised without a browser or a server.
+
+export type MatchableTrigger = Pick<TriggerWord, "phrase"> &
+  Partial<Pick<TriggerWord, "caseSensitive" | "matchMode" | "fuzzyThreshold" | "matchType" | "minConfidence">>;
+
+// One reading of an utterance from the recognizer, best first. Confidence is 0..1.
+export interface RecognitionAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface AlternativeMatch {
+  alternative: RecognitionAlternative;
+  index: number; // position in the recognizer's ranking, 0 = its top guess
+  matchedText: string;
+}
+
+const VOWELS = "AEIOU";
+
+// Split text into words (ASCII plus Latin accented letters), ignoring punctuation the recognizer may add
+export function tokenize(text: string): string[] {
+  return text.match(/[A-Za-z0-9'\u00C0-\u024F]+/g) || [];
+}
+
+// Classic Levenshtein edit distance (insertions, deletions, substitutions)
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// American Soundex: first letter plus three digits, e.g. "Robert" -> "R163"
+export function soundex(word: string): string {
+  const letters = word.toUpperCase().replace(/[^A-Z]/g, "");
+  if (!letters) return "";
+
+  const codes: Record<string, string> = {
+    B: "1", F: "1", P: "1", V: "1",
+    C: "2", G: "2", J: "2", K: "2", Q: "2", S: "2", X: "2", Z: "2",
+    D: "3", T: "3",
+    L: "4",
+    M: "5", N: "5",
+    R: "6",
+  };
+
+  let result = letters[0];
+  let lastCode = codes[letters[0]] || "";
+  for (let i = 1; i < letters.length && result.length < 4; i++) {
+    const letter = letters[i];
+    const code = codes[letter] || "";
+    if (code && code !== lastCode) {
+      result += code;
+    }
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== "H" && letter !== "W") {
+      lastCode = code;
+    }
+  }
+  return result.padEnd(4, "0");
+}
+
+// Original (Philips) Metaphone key, e.g. "high" -> "H", "knight" -> "NT"
+export function metaphone(word: string): string {
+  let w = word.toUpperCase().replace(/[^A-Z]/g, "");
+  if (!w) return "";
+
+  // Collapse duplicate adjacent letters except C
+  w = w.replace(/([A-BD-Z])\1+/g, "$1");
+
+  // Initial letter exceptions
+  if (/^(AE|GN|KN|PN|WR)/.test(w)) w = w.slice(1);
+  if (w[0] === "X") w = "S" + w.slice(1);
+  if (w.startsWith("WH")) w = "W" + w.slice(2);
+
+  const isVowel = (c: string | undefined) => !!c && VOWELS.includes(c);
+  let key = "";
+
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const nextNext = w[i + 2];
+
+    switch (c) {
+      case "A": case "E": case "I": case "O": case "U":
+        if (i === 0) key += c;
+        break;
+      case "B":
+        // Silent in a trailing "MB"
+        if (!(prev === "M" && i === w.length - 1)) key += "B";
+        break;
+      case "C":
+        if (next === "I" && nextNext === "A") key += "X";
+        else if (next === "H") key += prev === "S" ? "K" : "X";
+        else if (next === "I" || next === "E" || next === "Y") {
+          if (prev !== "S") key += "S";
+        } else key += "K";
+        break;
+      case "D":
+        if (next === "G" && (nextNext === "E" || nextNext === "Y" || nextNext === "I")) key += "J";
+        else key += "T";
+        break;
+      case "G":
+        if (next === "H" && !isVowel(nextNext)) break; // "night", "high"
+        if (next === "N" && (i + 2 === w.length || w.slice(i + 1) === "NED")) break; // "sign", "signed"
+        if ((next === "I" || next === "E" || next === "Y") && prev !== "G") key += "J";
+        else key += "K";
+        break;
+      case "H":
+        if (isVowel(next) && !(prev && "CSPTG".includes(prev))) key += "H";
+        break;
+      case "K":
+        if (prev !== "C") key += "K";
+        break;
+      case "P":
+        key += next === "H" ? "F" : "P";
+        break;
+      case "Q":
+        key += "K";
+        break;
+      case "S":
+        if (next === "H" || (next === "I" && (nextNext === "O" || nextNext === "A"))) key += "X";
+        else key += "S";
+        break;
+      case "T":
+        if (next === "I" && (nextNext === "O" || nextNext === "A")) key += "X";
+        else if (next === "H") key += "0";
+        else if (!(next === "C" && nextNext === "H")) key += "T";
+        break;
+      case "V":
+        key += "F";
+        break;
+      case "W":
+      case "Y":
+        if (isVowel(next)) key += c;
+        break;
+      case "X":
+        key += "KS";
+        break;
+      case "Z":
+        key += "S";
+        break;
+      default:
+        // F, J, L, M, N, R map to themselves
+        key += c;
+    }
+  }
+
+  return key;
+}
+
+function wordsSoundAlike(a: string, b: string): boolean {
+  if (a === b) return true;
+  const metaA = metaphone(a);
+  if (metaA && metaA === metaphone(b)) return true;
+  // Soundex is coarse on very short words ("hi" and "how" share a code), so only trust it on longer ones
+  return a.length >= 4 && b.length >= 4 && soundex(a) === soundex(b);
+}
+
+// Turn a wildcard phrase into a regular expression source: * is any run of characters, ? a single one
+export function wildcardToRegExpSource(pattern: string): string {
+  return pattern
+    .trim()
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*?";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("")
+    .replace(/\s+/g, "\\s+");
+}
+
+// Patterns run on RE2, which matches in time linear in the text, so no pattern can hang the
+// matcher however much it would backtrack in a JavaScript RegExp. RE2 has no lookaround or
+// backreferences; patterns using them fail validation.
+function compilePattern(trigger: MatchableTrigger): RE2JS {
+  const source = trigger.matchType === "wildcard" ? wildcardToRegExpSource(trigger.phrase) : trigger.phrase;
+  return RE2JS.compile(source, trigger.caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE);
+}
+
+// Returns an error message when the phrase is not a usable pattern for its match type, otherwise null
+export function validateTriggerPattern(trigger: MatchableTrigger): string | null {
+  if (!trigger.phrase.trim()) {
+    return "Trigger phrase cannot be empty";
+  }
+  if (!trigger.matchType || trigger.matchType === "substring") {
+    return null;
+  }
+
+  let pattern: RE2JS;
+  try {
+    pattern = compilePattern(trigger);
+  } catch (error) {
+    return `Invalid ${trigger.matchType} pattern: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  if (pattern.test("")) {
+    return `The ${trigger.matchType} pattern "${trigger.phrase}" matches empty text, so it would fire on every utterance`;
+  }
+  return null;
+}
+
+// Returns the text that matched, or null when the trigger does not fire
+export function matchTrigger(text: string, trigger: MatchableTrigger): string | null {
+  if (trigger.matchType === "regex" || trigger.matchType === "wildcard") {
+    try {
+      const matcher = compilePattern(trigger).matcher(text);
+      return matcher.find() ? matcher.group() || null : null;
+    } catch {
+      // Patterns are validated on save; an invalid one slipping through simply never fires
+      return null;
+    }
+  }
+
+  const caseSensitive = !!trigger.caseSensitive;
+  const phrase = caseSensitive ? trigger.phrase.trim() : trigger.phrase.trim().toLowerCase();
+  const searchText = caseSensitive ? text : text.toLowerCase();
+  if (!phrase) return null;
+
+  const mode = trigger.matchMode || "exact";
+  if (mode === "exact") {
+    return searchText.includes(phrase) ? phrase : null;
+  }
+
+  const phraseWords = tokenize(phrase);
+  const textWords = tokenize(searchText);
+  if (phraseWords.length === 0 || textWords.length < phraseWords.length) return null;
+
+  // Slide a window the size of the phrase across the transcript words
+  for (let start = 0; start + phraseWords.length <= textWords.length; start++) {
+    const window = textWords.slice(start, start + phraseWords.length);
+
+    switch (mode) {
+      case "whole-word":
+        if (window.every((word, i) => word === phraseWords[i])) return window.join(" ");
+        break;
+      case "fuzzy": {
+        const threshold = trigger.fuzzyThreshold ?? 1;
+        if (levenshtein(window.join(" "), phraseWords.join(" ")) <= threshold) return window.join(" ");
+        break;
+      }
+      case "phonetic":
+        if (window.every((word, i) => wordsSoundAlike(word, phraseWords[i]))) return window.join(" ");
+        break;
+    }
+  }
+
+  return null;
+}
+
+export function findMatchingTriggers<T extends MatchableTrigger & { enabled?: boolean | null }>(
+  text: string,
+  triggers: T[],
+): Array<{ trigger: T; matchedText: string }> {
+  const matches: Array<{ trigger: T; matchedText: string }> = [];
+  for (const trigger of triggers) {
+    if (trigger.enabled === false) continue;
+    const matchedText = matchTrigger(text, trigger);
+    if (matchedText !== null) {
+      matches.push({ trigger, matchedText });
+    }
+  }
+  return matches;
+}
+
+// Check each alternative in ranked order and return the first that fires the trigger with enough
+// confidence. A lower-ranked reading can still win when the top guess misses the phrase.
+export function matchTriggerAlternatives(
+  alternatives: RecognitionAlternative[],
+  trigger: MatchableTrigger,
+): AlternativeMatch | null {
+  const minConfidence = trigger.minConfidence ?? 0;
+  for (let index = 0; index < alternatives.length; index++) {
+    const alternative = alternatives[index];
+    if (alternative.confidence < minConfidence) continue;
+    const matchedText = matchTrigger(alternative.transcript, trigger);
+    if (matchedText !== null) {
+      return { alternative, index, matchedText };
+    }
+  }
+  return null;
+}
+
+export interface TranscriptMatchOptions {
+  language?: string; // omitted: language-tagged triggers are not filtered out
+  interim?: boolean; // interim results only fire early-fire triggers
+}
+
+// Every enabled trigger the utterance fires, with the alternative that fired it. This is the one
+// place the rules are combined, shared by the server's transcript endpoint and the client's
+// offline fallback.
+export function matchTranscript<T extends MatchableTrigger & Partial<Pick<TriggerWord, "enabled" | "language" | "earlyFire">>>(
+  alternatives: RecognitionAlternative[],
+  triggers: T[],
+  { language, interim = false }: TranscriptMatchOptions = {},
+): Array<{ trigger: T } & AlternativeMatch> {
+  const matches: Array<{ trigger: T } & AlternativeMatch> = [];
+  for (const trigger of triggers) {
+    if (trigger.enabled === false) continue;
+    if (interim && !trigger.earlyFire) continue;
+    if (language !== undefined && !languageMatches(trigger.language, language)) continue;
+    const match = matchTriggerAlternatives(alternatives, trigger);
+    if (match) {
+      matches.push({ trigger, ...match });
+    }
+  }
+  return matches;
+}